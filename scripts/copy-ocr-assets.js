@@ -0,0 +1,26 @@
+// Copies the tesseract.js worker, wasm core and English language data into
+// public/ocr so OCR runs offline without reaching out to a CDN.
+import { copyFileSync, mkdirSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const modules = join(root, 'node_modules');
+const target = join(root, 'public', 'ocr');
+
+mkdirSync(join(target, 'core'), { recursive: true });
+mkdirSync(join(target, 'lang'), { recursive: true });
+
+copyFileSync(join(modules, 'tesseract.js', 'dist', 'worker.min.js'), join(target, 'worker.min.js'));
+
+const coreDir = join(modules, 'tesseract.js-core');
+readdirSync(coreDir)
+  .filter(file => file.endsWith('.wasm.js'))
+  .forEach(file => copyFileSync(join(coreDir, file), join(target, 'core', file)));
+
+copyFileSync(
+  join(modules, '@tesseract.js-data', 'eng', '4.0.0_best_int', 'eng.traineddata.gz'),
+  join(target, 'lang', 'eng.traineddata.gz')
+);
+
+console.log(`OCR assets copied to ${target}`);
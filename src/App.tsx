@@ -1,105 +1,354 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileText, File, AlertCircle, CheckCircle, Clock, Trash2, FileX, Info } from 'lucide-react';
-import { PDFExtractor } from './util/pdfEXtractor';
-import { PlagiarismDetector, DetectionResult } from './util/plagiarismDetector';
-import { analyzeTextWithDeepSeek } from './util/deepSeekApi';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Upload, FileText, AlertCircle, Trash2, Info, Download, FolderOpen, Grid3x3, SlidersHorizontal, ClipboardList, FolderTree } from 'lucide-react';
+import type { DetectionResult } from './util/plagiarismDetector';
+import type { DetectionProgress } from './util/detectionPipeline';
+import { DetectionWorkerClient } from './workers/detectionWorkerClient';
+import ComparisonView from './components/ComparisonView';
+import SimilarityHeatmap from './components/SimilarityHeatmap';
+import AISettingsPanel from './components/AISettingsPanel';
+import DetectionSettingsPanel from './components/DetectionSettingsPanel';
+import SyncSettingsPanel from './components/SyncSettingsPanel';
+import TemplatesPanel from './components/TemplatesPanel';
+import CollectionsPanel from './components/CollectionsPanel';
+import AssignmentDashboard from './components/AssignmentDashboard';
+import UploadQueue, { UploadJob } from './components/UploadQueue';
+import CorpusStatusBar from './components/CorpusStatusBar';
+import AIAnalysisPanel from './components/AIAnalysisPanel';
+import ResultCard from './components/ResultCard';
+import { ACCEPTED_FILES, FileCollector } from './util/fileCollector';
+import type { SimilarityMatrixResult } from './util/similarityMatrix';
+import type { LLMProviderConfig } from './util/llmProvider';
+import { CorpusRepository, StorageUsage } from './util/corpusRepository';
+import { IndexedDbCorpusRepository } from './util/indexedDbCorpusRepository';
+import { ReportGenerator } from './util/reportGenerator';
+import type { DetectionProfile } from './util/detectionConfig';
+import type { SyncSettings } from './util/corpusSync';
+import { AssignmentTemplates } from './util/assignmentTemplates';
+import { Stylometry } from './util/stylometry';
+import { COMPARISON_SCOPES, COMPARISON_SCOPE_LABELS, Collections, ComparisonScope, Course } from './util/collections';
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, ReviewStatus } from './util/reviewWorkflow';
+import { useDetectionProfiles } from './hooks/useDetectionProfiles';
+import { useCourses } from './hooks/useCourses';
+import { useReview } from './hooks/useReview';
+import { useAIAnalysis } from './hooks/useAIAnalysis';
+import { useTemplates } from './hooks/useTemplates';
+import { useCorpusSync } from './hooks/useCorpusSync';
+
+const corpusRepository: CorpusRepository = new IndexedDbCorpusRepository();
+
+interface UploadBatch {
+  pendingJobIds: Set<string>;
+  resultIds: string[];
+}
 
 function App() {
   const [results, setResults] = useState<DetectionResult[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [aiOutput, setAiOutput] = useState<string | null>(null);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [comparing, setComparing] = useState<DetectionResult | null>(null);
+  const [similarityMatrix, setSimilarityMatrix] = useState<SimilarityMatrixResult | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [showDetectionSettings, setShowDetectionSettings] = useState(false);
+  const [showSyncSettings, setShowSyncSettings] = useState(false);
+  const [showCollections, setShowCollections] = useState(false);
+  const [dashboard, setDashboard] = useState<{ course: Course; assignment: string } | null>(null);
+  const [showTemplates, setShowTemplates] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const batches = useRef(new Map<string, UploadBatch>());
+  // Extraction and matching run in a worker, which also owns the fingerprint index
+  const detectionWorker = useRef<DetectionWorkerClient | null>(null);
+  const loading = jobs.length > 0;
 
-  const extractTextFromFile = async (file: File): Promise<{ text: string; pageCount?: number }> => {
-    if (file.type === 'application/pdf') {
-      const result = await PDFExtractor.extractText(file);
-      return { text: result.text, pageCount: result.pageCount };
-    } else if (file.type === 'text/plain') {
-      const text = await PDFExtractor.extractFromTXT(file);
-      return { text };
-    } else {
-      throw new Error('Unsupported file type. Please upload a PDF or TXT file.');
+  const profileSettings = useDetectionProfiles();
+  const { profiles, activeProfile } = profileSettings;
+  const { courses, saveCourses, filing, updateFiling, uploadCourse, submission } = useCourses();
+  const { reviewer, changeReviewer, statusFilter, setStatusFilter, filterResults } = useReview();
+  const ai = useAIAnalysis();
+  const { templates, updateTemplates, addTemplates, deleteTemplate } = useTemplates(corpusRepository, detectionWorker, setError);
+
+  const refreshStorageUsage = useCallback(async () => {
+    try {
+      setStorageUsage(await corpusRepository.getStorageUsage());
+    } catch {
+      setStorageUsage(null);
     }
+  }, []);
+
+  // Reloads the saved documents after a sync or an import changed them
+  const reloadCorpus = useCallback(async () => {
+    const documents = await corpusRepository.list();
+    detectionWorker.current?.loadCorpus(documents);
+    setResults(documents);
+    await refreshStorageUsage();
+  }, [refreshStorageUsage]);
+
+  const sync = useCorpusSync(corpusRepository, reloadCorpus);
+
+  useEffect(() => {
+    // Also run when a crashed worker was replaced, as the new one starts out empty
+    const loadSaved = () => {
+      corpusRepository.list()
+        .then(documents => {
+          worker.loadCorpus(documents);
+          setResults(documents);
+        })
+        .catch(err => setError(err instanceof Error ? err.message : 'Could not load the saved document corpus.'))
+        .finally(refreshStorageUsage);
+      corpusRepository.listTemplates()
+        .then(updateTemplates)
+        .catch(err => setError(err instanceof Error ? err.message : 'Could not load the assignment templates.'));
+    };
+
+    const worker = new DetectionWorkerClient(loadSaved);
+    detectionWorker.current = worker;
+    loadSaved();
+
+    return () => {
+      worker.terminate();
+      detectionWorker.current = null;
+    };
+  }, [refreshStorageUsage, updateTemplates]);
+
+  const updateJob = (jobId: string, progress: DetectionProgress) => {
+    setJobs(prev => prev.map(job => (job.jobId === jobId ? { ...job, progress } : job)));
+  };
+
+  const removeJob = (jobId: string) => {
+    setJobs(prev => prev.filter(job => job.jobId !== jobId));
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleResult = async (newResult: DetectionResult, analyzeWithAI: boolean) => {
+    setResults(prev => [newResult, ...prev]);
+
+    // Single uploads only, so a batch doesn't fire one request per file
+    if (analyzeWithAI && ai.config.enabled) {
+      ai.runAnalysis(newResult);
+    }
+
+    try {
+      await corpusRepository.save(newResult);
+      await refreshStorageUsage();
+      sync.recordSave(newResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the result to the document corpus.');
+    }
+  };
+
+  // A re-run keeps the document's id, so it replaces the earlier result
+  const handleRerunResult = async (updated: DetectionResult) => {
+    setResults(prev => prev.map(result => (result.id === updated.id ? updated : result)));
+    try {
+      await corpusRepository.save(updated);
+      sync.recordSave(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the result to the document corpus.');
+    }
+  };
+
+  // Style comparisons only look at the author's earlier work, so they're redone here without a re-run
+  const updateAuthor = (result: DetectionResult, newAuthor: string) => {
+    const withAuthor = { ...result, author: newAuthor || undefined };
+    const updated = { ...withAuthor, authorConsistency: Stylometry.compareWithAuthor(withAuthor, results) };
+    detectionWorker.current?.updateDocument(updated);
+    handleRerunResult(updated);
+  };
+
+  const rerunResult = (result: DetectionResult, profileId: string) => {
+    const profile = profiles.find(candidate => candidate.id === profileId);
+    if (profile) startRerun(result, profile);
+  };
+
+  const startRerun = (result: DetectionResult, profile: DetectionProfile) => {
+    const worker = detectionWorker.current;
+    if (!worker) return;
 
-    setLoading(true);
     setError(null);
+    const jobId = worker.rerun(result.id, profile, {
+      onProgress: progress => updateJob(jobId, progress),
+      onComplete: updated => {
+        removeJob(jobId);
+        handleRerunResult(updated);
+      },
+      onError: message => {
+        removeJob(jobId);
+        setError(`${result.fileName}: ${message}`);
+      },
+      onCancelled: () => removeJob(jobId)
+    });
+    setJobs(prev => [...prev, { jobId, fileName: result.fileName, progress: { stage: 'queued' } }]);
+  };
 
+  // Every review change is saved right away; dismissing or restoring a match also re-scores the
+  // document with the profile it was produced with, so the score leaves dismissed matches out
+  const reviewResult = (result: DetectionResult, change: (result: DetectionResult) => DetectionResult, rescore = false) => {
+    let updated: DetectionResult;
     try {
-      const { text: content, pageCount } = await extractTextFromFile(file);
-      if (content.length < 50) {
-        throw new Error('File content is too short for meaningful plagiarism detection.');
-      }
-
-      // Call DeepSeek AI
-      let aiResult: string | null = null;
-      try {
-        aiResult = await analyzeTextWithDeepSeek(content);
-        setAiOutput(aiResult);
-      } catch (aiErr) {
-        setAiOutput('AI analysis failed.');
-      }
-
-      const similarity = results.length > 0 
-        ? Math.max(...results.map(result => PlagiarismDetector.calculateSimilarity(content, result.content)))
-        : 0;
-      const matches = PlagiarismDetector.findDetailedMatches(content, results);
-      const wordCount = PlagiarismDetector.getWordCount(content);
-      const newResult: DetectionResult = {
-        id: Date.now().toString(),
-        fileName: file.name,
-        fileType: file.type,
-        content,
-        similarity,
-        matches,
-        timestamp: new Date(),
-        wordCount,
-        pageCount
-      };
-      setResults(prev => [newResult, ...prev]);
+      updated = change(result);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while processing the file.');
-    } finally {
-      setLoading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      setError(err instanceof Error ? err.message : 'Could not record the review.');
+      return;
     }
+    if (updated === result) return;
+    detectionWorker.current?.updateDocument(updated);
+    handleRerunResult(updated);
+    if (rescore) startRerun(updated, updated.profile ?? activeProfile);
   };
 
-  const getSimilarityColor = (similarity: number): string => {
-    if (similarity < 20) return 'text-green-600';
-    if (similarity < 50) return 'text-yellow-600';
-    return 'text-red-600';
+  const saveProfiles = (updatedProfiles: DetectionProfile[], profileId: string) => {
+    profileSettings.saveProfiles(updatedProfiles, profileId);
+    setShowDetectionSettings(false);
   };
 
-  const getSimilarityBg = (similarity: number): string => {
-    if (similarity < 20) return 'bg-green-100 border-green-200';
-    if (similarity < 50) return 'bg-yellow-100 border-yellow-200';
-    return 'bg-red-100 border-red-200';
+  const saveSyncConfig = (settings: SyncSettings) => {
+    sync.saveSettings(settings);
+    setShowSyncSettings(false);
   };
 
-  const getFileIcon = (fileType: string) => {
-    if (fileType === 'application/pdf') {
-      return <File className="w-5 h-5 text-red-500" />;
-    } else if (fileType === 'text/plain') {
-      return <FileText className="w-5 h-5 text-blue-500" />;
-    } else {
-      return <FileX className="w-5 h-5 text-gray-500" />;
+  const saveAIConfig = (config: LLMProviderConfig) => {
+    ai.saveConfig(config);
+    setShowAISettings(false);
+  };
+
+  const showMatrix = async (documentIds: string[]) => {
+    if (!detectionWorker.current || documentIds.length < 2) return;
+    try {
+      setSimilarityMatrix(await detectionWorker.current.computeMatrix(documentIds));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not compare the documents.');
     }
   };
 
-  const deleteResult = (id: string) => {
+  // Once every file of a batch has finished, compare the batch's documents pairwise
+  const finishBatchJob = (batchId: string, jobId: string, resultId?: string) => {
+    const batch = batches.current.get(batchId);
+    if (!batch) return;
+
+    batch.pendingJobIds.delete(jobId);
+    if (resultId) batch.resultIds.push(resultId);
+    if (batch.pendingJobIds.size === 0) {
+      batches.current.delete(batchId);
+      showMatrix(batch.resultIds);
+    }
+  };
+
+  const enqueueFiles = (files: File[]) => {
+    const worker = detectionWorker.current;
+    if (!worker) return;
+    if (files.length === 0) {
+      setError('No supported files found. Please upload PDF, DOCX, TXT or source code files.');
+      return;
+    }
+
+    setError(null);
+    const isBatch = files.length > 1;
+    const batchId = `batch-${Date.now()}`;
+    const batch: UploadBatch = { pendingJobIds: new Set(), resultIds: [] };
+    if (isBatch) batches.current.set(batchId, batch);
+
+    const newJobs = files.map(file => {
+      const jobId = worker.enqueue(file, activeProfile, {
+        onProgress: progress => updateJob(jobId, progress),
+        onComplete: result => {
+          removeJob(jobId);
+          handleResult(result, !isBatch);
+          finishBatchJob(batchId, jobId, result.id);
+        },
+        onError: message => {
+          removeJob(jobId);
+          setError(`${file.name}: ${message}`);
+          finishBatchJob(batchId, jobId);
+        },
+        onCancelled: () => {
+          removeJob(jobId);
+          finishBatchJob(batchId, jobId);
+        }
+      }, submission);
+      batch.pendingJobIds.add(jobId);
+      return { jobId, fileName: file.name, progress: { stage: 'queued' } as DetectionProgress };
+    });
+    setJobs(prev => [...prev, ...newJobs]);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = FileCollector.fromList(event.target.files);
+    event.target.value = '';
+    enqueueFiles(files);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    enqueueFiles(await FileCollector.fromDataTransfer(event.dataTransfer));
+  };
+
+  const cancelJob = (jobId: string) => {
+    detectionWorker.current?.cancel(jobId);
+  };
+
+  const visibleResults = filterResults(results);
+
+  const deleteResult = async (id: string) => {
+    detectionWorker.current?.removeDocument(id);
     setResults(prev => prev.filter(result => result.id !== id));
+    try {
+      await corpusRepository.delete(id);
+      sync.recordDelete(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the document.');
+    }
+    await refreshStorageUsage();
   };
 
-  const clearAll = () => {
+  // Only empties this device; shared documents stay shared
+  const clearAll = async () => {
+    detectionWorker.current?.clearCorpus();
     setResults([]);
+    try {
+      await corpusRepository.clear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not clear the document corpus.');
+    }
+    await refreshStorageUsage();
+  };
+
+  const exportCorpus = async () => {
+    try {
+      const archive = await corpusRepository.exportArchive();
+      ReportGenerator.download(archive, `plagiarism-corpus-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the document corpus.');
+    }
+  };
+
+  const exportResults = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      ReportGenerator.download(ReportGenerator.toJSON(results), `plagiarism-results-${date}.json`, 'application/json');
+    } else {
+      ReportGenerator.download(ReportGenerator.toCSV(results), `plagiarism-results-${date}.csv`, 'text/csv');
+    }
+  };
+
+  const printReport = (result: DetectionResult) => {
+    try {
+      ReportGenerator.printAsPDF(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the report.');
+    }
+  };
+
+  const importCorpus = async (archive: File) => {
+    setError(null);
+    try {
+      await corpusRepository.importArchive(archive);
+      updateTemplates(await corpusRepository.listTemplates());
+      await reloadCorpus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the corpus archive.');
+    }
   };
 
   return (
@@ -111,7 +360,7 @@ function App() {
             Plagiarism Detection Tool
           </h1>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-            Upload your documents (PDF or TXT) to check for plagiarism and content similarity. 
+            Upload your documents (PDF, DOCX, TXT or source code) to check for plagiarism and content similarity. 
             Our advanced detection algorithm compares your content against previously uploaded documents.
           </p>
         </div>
@@ -124,47 +373,239 @@ function App() {
               <div className="text-sm text-blue-700">
                 <p className="font-medium mb-1">Supported Features:</p>
                 <ul className="list-disc list-inside space-y-1">
-                  <li>PDF files up to 20MB (including complex layouts and mini PDFs)</li>
-                  <li>Text files (.txt) up to 20MB</li>
-                  <li>Advanced similarity detection with sentence-level matching</li>
+                  <li>PDF files up to {activeProfile.config.maxFileSizeMB}MB (including complex layouts and mini PDFs), read a page at a time</li>
+                  <li>Scanned PDFs via offline OCR</li>
+                  <li>Word documents (.docx) up to {activeProfile.config.maxFileSizeMB}MB, including headings, footnotes and tables</li>
+                  <li>Text files (.txt) up to {activeProfile.config.maxFileSizeMB}MB</li>
+                  <li>Python, Java, C and JavaScript source code, matched on token structure so renamed variables and reordered functions are still found</li>
+                  <li>Sentence-level matching that also catches paraphrases and synonym swaps</li>
+                  <li>Documents in any language, compared only against documents in the same language</li>
+                  <li>Batch uploads with a pairwise similarity matrix and collusion clusters</li>
+                  <li>Adjustable detection settings, saved as named profiles and recorded with each result</li>
+                  <li>Assignment templates, so prompts and starter material shared by every submission aren't scored</li>
+                  <li>Courses and assignments with due dates, a comparison scope per check and a score dashboard per assignment</li>
+                  <li>Optional shared corpus across graders of an organization or course, which keeps working offline</li>
                   <li>Automatic text cleaning and optimization</li>
                 </ul>
               </div>
             </div>
           </div>
           <div className="text-center">
-            <div className="border-2 border-dashed border-gray-300 rounded-xl p-8 hover:border-blue-400 transition-colors">
+            <div
+              onDragOver={event => {
+                event.preventDefault();
+                setDragActive(true);
+              }}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-xl p-8 transition-colors ${dragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'}`}
+            >
               <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-xl font-semibold text-gray-700 mb-2">Upload Document</h3>
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Upload Documents</h3>
               <p className="text-gray-500 mb-6">
-                Choose a PDF or TXT file to check for plagiarism
+                Choose or drop PDF, DOCX, TXT or source code files, or a whole folder of submissions
               </p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.txt"
+                accept={ACCEPTED_FILES}
+                multiple
                 onChange={handleFileUpload}
                 className="hidden"
-                disabled={loading}
               />
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                disabled={loading}
-                className="bg-blue-600 text-white px-8 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
-              >
-                {loading ? (
-                  <>
-                    <Clock className="w-5 h-5 inline mr-2 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  'Select File'
-                )}
-              </button>
+              <input
+                ref={folderInputRef}
+                type="file"
+                {...({ webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+              <div className="flex flex-wrap justify-center gap-3">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-blue-600 text-white px-8 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+                >
+                  {loading ? 'Add More Files' : 'Select Files'}
+                </button>
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="bg-white text-blue-600 border border-blue-600 px-6 py-3 rounded-lg hover:bg-blue-50 transition-colors font-semibold flex items-center"
+                >
+                  <FolderOpen className="w-5 h-5 mr-2" />
+                  Select Folder
+                </button>
+              </div>
+              <div className="flex flex-wrap justify-center items-center gap-3 mt-4 text-sm text-gray-600">
+                <label className="inline-flex items-center">
+                  Detection profile
+                  <select
+                    value={activeProfile.id}
+                    onChange={event => profileSettings.saveProfiles(profiles, event.target.value)}
+                    className="ml-2 border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    {profiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => setShowDetectionSettings(true)}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+                >
+                  <SlidersHorizontal className="w-4 h-4 mr-1" />
+                  Detection Settings
+                </button>
+                <label className="inline-flex items-center">
+                  Course
+                  <select
+                    value={filing.courseId}
+                    onChange={event => updateFiling({ courseId: event.target.value })}
+                    className="ml-2 border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    <option value="">None</option>
+                    {courses.map(course => (
+                      <option key={course.id} value={course.id}>{Collections.formatCourse(course)}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => setShowCollections(true)}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+                >
+                  <FolderTree className="w-4 h-4 mr-1" />
+                  Courses
+                </button>
+                <label className="inline-flex items-center">
+                  Assignment
+                  <input
+                    list="upload-assignments"
+                    value={filing.assignment}
+                    onChange={event => updateFiling({ assignment: event.target.value })}
+                    placeholder="None"
+                    className="ml-2 w-36 border border-gray-300 rounded-md px-2 py-1"
+                  />
+                  <datalist id="upload-assignments">
+                    {[...new Set([
+                      ...(uploadCourse?.assignments.map(courseAssignment => courseAssignment.name) ?? []),
+                      ...templates.map(template => template.assignment)
+                    ])].map(name => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </label>
+                <button
+                  onClick={() => setShowTemplates(true)}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+                >
+                  <ClipboardList className="w-4 h-4 mr-1" />
+                  Templates{filing.assignment.trim() && ` (${AssignmentTemplates.forAssignment(templates, filing.assignment).length})`}
+                </button>
+                <label className="inline-flex items-center">
+                  Author
+                  <input
+                    value={filing.author}
+                    onChange={event => updateFiling({ author: event.target.value })}
+                    placeholder="Unknown"
+                    className="ml-2 w-36 border border-gray-300 rounded-md px-2 py-1"
+                  />
+                </label>
+                <label className="inline-flex items-center">
+                  Student ID
+                  <input
+                    value={filing.studentId}
+                    onChange={event => updateFiling({ studentId: event.target.value })}
+                    placeholder="None"
+                    className="ml-2 w-28 border border-gray-300 rounded-md px-2 py-1"
+                  />
+                </label>
+                <label className="inline-flex items-center">
+                  Compare with
+                  <select
+                    value={filing.scope}
+                    onChange={event => updateFiling({ scope: event.target.value as ComparisonScope })}
+                    title="Uploads without a course are only compared with others filed the same way"
+                    className="ml-2 border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    {COMPARISON_SCOPES.map(option => (
+                      <option key={option} value={option}>{COMPARISON_SCOPE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </div>
           </div>
+
+          {/* Processing Queue */}
+          {jobs.length > 0 && <UploadQueue jobs={jobs} onCancel={cancelJob} />}
         </div>
 
+
+        {/* Corpus Storage */}
+        <CorpusStatusBar
+          storageUsage={storageUsage}
+          syncStatus={sync.status}
+          canExport={results.length > 0}
+          onSync={sync.runSync}
+          onRetryRejected={sync.retryRejected}
+          onOpenSharing={() => setShowSyncSettings(true)}
+          onOpenAISettings={() => setShowAISettings(true)}
+          onImport={importCorpus}
+          onExport={exportCorpus}
+        />
+
+        {showDetectionSettings && (
+          <DetectionSettingsPanel
+            profiles={profiles}
+            activeProfileId={activeProfile.id}
+            onSave={saveProfiles}
+            onClose={() => setShowDetectionSettings(false)}
+          />
+        )}
+
+        {showAISettings && (
+          <AISettingsPanel config={ai.config} onSave={saveAIConfig} onClose={() => setShowAISettings(false)} />
+        )}
+
+        {showTemplates && (
+          <TemplatesPanel
+            templates={templates}
+            assignment={filing.assignment}
+            onAdd={addTemplates}
+            onDelete={deleteTemplate}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {showCollections && (
+          <CollectionsPanel
+            courses={courses}
+            results={results}
+            onSave={saveCourses}
+            onOpenDashboard={(course, courseAssignment) => setDashboard({ course, assignment: courseAssignment })}
+            onClose={() => setShowCollections(false)}
+          />
+        )}
+
+        {dashboard && (
+          <AssignmentDashboard
+            course={dashboard.course}
+            assignment={dashboard.assignment}
+            courses={courses}
+            results={results}
+            config={activeProfile.config}
+            onClose={() => setDashboard(null)}
+          />
+        )}
+
+        {showSyncSettings && (
+          <SyncSettingsPanel settings={sync.settings} onSave={saveSyncConfig} onClose={() => setShowSyncSettings(false)} />
+        )}
+
+        {/* Pairwise Similarity */}
+        {similarityMatrix && (
+          <SimilarityHeatmap matrix={similarityMatrix} onClose={() => setSimilarityMatrix(null)} />
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -179,114 +620,89 @@ function App() {
         )}
 
         {/* AI Output */}
-        {aiOutput && (
-          <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 mb-6">
-            <div className="flex items-start">
-              <Info className="w-5 h-5 text-indigo-500 mt-0.5 mr-3 flex-shrink-0" />
-              <div>
-                <h3 className="text-indigo-800 font-medium">AI Analysis</h3>
-                <p className="text-indigo-700 whitespace-pre-line">{aiOutput}</p>
-              </div>
-            </div>
-          </div>
+        {ai.analysis && (
+          <AIAnalysisPanel analysis={ai.analysis} config={activeProfile.config} onClose={ai.clearAnalysis} />
         )}
 
         {/* Results Header */}
         {results.length > 0 && (
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold text-gray-900">
-              Detection Results ({results.length})
+              Detection Results ({statusFilter === 'all' ? results.length : `${visibleResults.length} of ${results.length}`})
             </h2>
-            <button
-              onClick={clearAll}
-              className="text-red-600 hover:text-red-700 font-medium flex items-center"
-            >
-              <Trash2 className="w-4 h-4 mr-1" />
-              Clear All
-            </button>
+            <div className="flex items-center space-x-4">
+              <select
+                value={statusFilter}
+                onChange={event => setStatusFilter(event.target.value as ReviewStatus | 'all')}
+                title="Show results by review status"
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700"
+              >
+                <option value="all">All statuses</option>
+                {REVIEW_STATUSES.map(status => (
+                  <option key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => exportResults('json')}
+                className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export JSON
+              </button>
+              <button
+                onClick={() => exportResults('csv')}
+                className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export CSV
+              </button>
+              {results.length > 1 && (
+                <button
+                  onClick={() => showMatrix(results.map(result => result.id))}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+                >
+                  <Grid3x3 className="w-4 h-4 mr-1" />
+                  Similarity Matrix
+                </button>
+              )}
+              <button
+                onClick={clearAll}
+                className="text-red-600 hover:text-red-700 font-medium flex items-center"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear All
+              </button>
+            </div>
           </div>
         )}
 
         {/* Results */}
         <div className="space-y-6">
-          {results.map((result) => (
-            <div key={result.id} className={`bg-white rounded-xl shadow-lg border-2 ${getSimilarityBg(result.similarity)} overflow-hidden`}>
-              <div className="p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center">
-                    {getFileIcon(result.fileType)}
-                    <div className="ml-3">
-                      <h3 className="text-lg font-semibold text-gray-900">{result.fileName}</h3>
-                      <div className="text-sm text-gray-500 space-y-1">
-                        <p>Uploaded {result.timestamp.toLocaleString()}</p>
-                        <p>{result.wordCount.toLocaleString()} words{result.pageCount ? ` • ${result.pageCount} pages` : ''}</p>
-                      </div>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <div className={`text-2xl font-bold ${getSimilarityColor(result.similarity)}`}>
-                      {result.similarity}%
-                    </div>
-                    <button
-                      onClick={() => deleteResult(result.id)}
-                      className="text-gray-400 hover:text-red-500 transition-colors"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </div>
-                </div>
-
-                <div className="flex items-center mb-4">
-                  {result.similarity < 20 ? (
-                    <CheckCircle className="w-5 h-5 text-green-500 mr-2" />
-                  ) : (
-                    <AlertCircle className="w-5 h-5 text-red-500 mr-2" />
-                  )}
-                  <span className={`font-medium ${getSimilarityColor(result.similarity)}`}>
-                    {result.similarity < 20 ? 'Low Similarity' : 
-                     result.similarity < 50 ? 'Medium Similarity' : 'High Similarity'}
-                  </span>
-                </div>
-
-                {result.matches.length > 0 && (
-                  <div className="mb-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">
-                      Potential Matches ({result.matches.length}):
-                    </h4>
-                    <div className="space-y-2">
-                      {result.matches.map((match: any, index: number) => (
-                        <div key={index} className="bg-gray-50 p-3 rounded-lg border-l-4 border-orange-400">
-                          <div className="flex justify-between items-start mb-2">
-                            <span className="text-xs font-medium text-orange-600">
-                              {match.similarity}% similarity with {match.sourceFile}
-                            </span>
-                          </div>
-                          <p className="text-sm text-gray-700">"{match.sentence}"</p>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                <div>
-                  <h4 className="font-semibold text-gray-700 mb-2">Document Content Preview:</h4>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <p className="text-sm text-gray-700 leading-relaxed">
-                      {result.content.substring(0, 300)}
-                      {result.content.length > 300 && '...'}
-                    </p>
-                  </div>
-                  {result.content.length > 300 && (
-                    <p className="text-xs text-gray-500 mt-2">
-                      Showing first 300 characters of {result.content.length.toLocaleString()} total
-                    </p>
-                  )}
-                </div>
-              </div>
-            </div>
+          {visibleResults.map(result => (
+            <ResultCard
+              key={result.id}
+              result={result}
+              profiles={profiles}
+              courses={courses}
+              reviewer={reviewer}
+              defaultConfig={activeProfile.config}
+              onRerun={profileId => rerunResult(result, profileId)}
+              onPrint={() => printReport(result)}
+              onDelete={() => deleteResult(result.id)}
+              onCompare={() => setComparing(result)}
+              onAuthorChange={newAuthor => updateAuthor(result, newAuthor)}
+              onReviewerChange={changeReviewer}
+              onReview={(change, rescore) => reviewResult(result, change, rescore)}
+            />
           ))}
         </div>
 
+        {results.length > 0 && visibleResults.length === 0 && (
+          <p className="text-center py-12 text-gray-400">
+            No results are {REVIEW_STATUS_LABELS[statusFilter as ReviewStatus].toLowerCase()}.
+          </p>
+        )}
+
         {results.length === 0 && !loading && (
           <div className="text-center py-12">
             <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -295,6 +711,10 @@ function App() {
           </div>
         )}
       </div>
+
+      {comparing && (
+        <ComparisonView result={comparing} corpus={results} onClose={() => setComparing(null)} />
+      )}
     </div>
   );
 }
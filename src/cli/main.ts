@@ -0,0 +1,192 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { PlagiarismChecker } from '../util/plagiarismChecker';
+import { NodeFile } from './nodeFile';
+import { readArchive } from '../util/corpusRepository';
+import { BUILT_IN_PROFILES, DetectionProfile, validateDetectionConfig } from '../util/detectionConfig';
+import { ReportGenerator } from '../util/reportGenerator';
+import { ObfuscationAnalyzer } from '../util/obfuscationAnalyzer';
+import { COMPARISON_SCOPES, ComparisonScope } from '../util/collections';
+import type { DetectionResult } from '../util/plagiarismDetector';
+
+// Exit codes: 0 all files checked and under --fail-above, 1 a file scored above it, 2 usage or processing errors
+const EXIT_OK = 0;
+const EXIT_ABOVE_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+// Templates always belong to an assignment, so runs without --assignment get this one
+const DEFAULT_ASSIGNMENT = 'default';
+
+const USAGE = `Usage: plagiarism-check [options] <file or folder>...
+
+Checks each file against the reference corpus and against the files before it.
+
+Options:
+  -c, --corpus <path>       Reference file, folder or corpus archive (.json) exported by the app; repeatable
+  -t, --template <path>     Assignment starter file or folder; text taken from it isn't scored; repeatable
+  -a, --assignment <name>   Assignment recorded with the results (default with templates: ${DEFAULT_ASSIGNMENT})
+      --course <name>       Course recorded with the results; reference files are filed under it too
+      --term <term>         Term of the course offering, e.g. "Fall 2025"
+  -s, --scope <scope>       Compare with: ${COMPARISON_SCOPES.join(', ')} (default: all); archives keep their own filing
+  -u, --author <name>       Author of the checked files; their style is compared with earlier work by them in the corpus
+  -p, --profile <name>      Built-in profile (${BUILT_IN_PROFILES.map(profile => profile.id).join(', ')}) or a JSON settings file
+  -f, --format <format>     Output format: table (default) or json
+      --fail-above <n>      Exit with code 1 if any file's similarity is above n percent
+  -h, --help                Show this help`;
+
+class UsageError extends Error {}
+
+async function loadProfile(value: string | undefined): Promise<DetectionProfile> {
+  if (!value) return BUILT_IN_PROFILES[0];
+
+  const builtIn = BUILT_IN_PROFILES.find(profile => profile.id === value || profile.name.toLowerCase() === value.toLowerCase());
+  if (builtIn) return builtIn;
+
+  if (!value.endsWith('.json')) {
+    throw new UsageError(`Unknown profile "${value}".`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(value, 'utf8'));
+  } catch {
+    throw new UsageError(`Could not read profile settings from ${value}.`);
+  }
+  return { id: value, name: value, config: validateDetectionConfig(parsed) };
+}
+
+async function loadCorpus(checker: PlagiarismChecker, paths: string[]): Promise<void> {
+  for (const path of paths) {
+    if (path.endsWith('.json')) {
+      const archive = new Blob([await readFile(path)], { type: 'application/json' });
+      checker.addReferences(await readArchive(archive));
+      continue;
+    }
+    for (const file of await NodeFile.collect([path])) {
+      try {
+        await checker.addReferenceFile(file);
+      } catch (error) {
+        console.error(`Skipping reference ${file.path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+async function loadTemplates(checker: PlagiarismChecker, paths: string[]): Promise<void> {
+  for (const file of await NodeFile.collect(paths)) {
+    await checker.addTemplateFile(file);
+  }
+}
+
+function formatTable(results: DetectionResult[]): string {
+  const withTemplates = results.some(result => result.templateCoverage !== undefined);
+  const withAuthors = results.some(result => result.authorConsistency !== undefined);
+  const withTampering = results.some(result => result.obfuscation !== undefined);
+  const rows = results.map(result => {
+    const topSource = ReportGenerator.getSourceBreakdown(result)[0];
+    const row = [
+      result.fileName,
+      `${result.similarity}%`,
+      String(result.matches.length),
+      topSource?.sourceFile ?? '—',
+      result.style ? `${result.style.aiLikeness}/100` : '—'
+    ];
+    if (withTemplates) row.push(result.templateCoverage !== undefined ? `${result.templateCoverage}%` : '—');
+    if (withAuthors) row.push(result.authorConsistency ? (result.authorConsistency.shifted ? 'shifted' : 'consistent') : '—');
+    if (withTampering) row.push(result.obfuscation ? ObfuscationAnalyzer.summarize(result.obfuscation) : '—');
+    return row;
+  });
+  const header = [
+    'File', 'Similarity', 'Matches', 'Top source', 'AI-likeness',
+    ...(withTemplates ? ['Template'] : []),
+    ...(withAuthors ? ['Style'] : []),
+    ...(withTampering ? ['Tampering'] : [])
+  ];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [formatRow(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(formatRow)].join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      corpus: { type: 'string', short: 'c', multiple: true },
+      template: { type: 'string', short: 't', multiple: true },
+      assignment: { type: 'string', short: 'a' },
+      author: { type: 'string', short: 'u' },
+      course: { type: 'string' },
+      term: { type: 'string' },
+      scope: { type: 'string', short: 's' },
+      profile: { type: 'string', short: 'p' },
+      format: { type: 'string', short: 'f', default: 'table' },
+      'fail-above': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No files or folders to check.');
+  }
+  if (values.format !== 'table' && values.format !== 'json') {
+    throw new UsageError(`Unknown format "${values.format}". Use table or json.`);
+  }
+  const failAbove = values['fail-above'] !== undefined ? Number(values['fail-above']) : undefined;
+  if (failAbove !== undefined && (!Number.isFinite(failAbove) || failAbove < 0 || failAbove > 100)) {
+    throw new UsageError('--fail-above must be a percentage from 0 to 100.');
+  }
+
+  const scope = values.scope as ComparisonScope | undefined;
+  if (scope !== undefined && !COMPARISON_SCOPES.includes(scope)) {
+    throw new UsageError(`Unknown scope "${values.scope}". Use ${COMPARISON_SCOPES.join(', ')}.`);
+  }
+
+  const assignment = values.assignment ?? (values.template ? DEFAULT_ASSIGNMENT : undefined);
+  const checker = new PlagiarismChecker({
+    profile: await loadProfile(values.profile),
+    course: values.course,
+    term: values.term,
+    assignment,
+    scope
+  });
+  await loadTemplates(checker, values.template ?? []);
+  await loadCorpus(checker, values.corpus ?? []);
+
+  const files = await NodeFile.collect(positionals);
+  if (files.length === 0) {
+    throw new UsageError('No supported files found.');
+  }
+
+  const results: DetectionResult[] = [];
+  let failed = 0;
+  for (const file of files) {
+    try {
+      results.push(await checker.check(file, values.author));
+    } catch (error) {
+      failed++;
+      console.error(`${file.path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(values.format === 'json' ? ReportGenerator.toJSON(results) : formatTable(results));
+
+  if (failed > 0) return EXIT_ERROR;
+  if (failAbove !== undefined && results.some(result => result.similarity > failAbove)) return EXIT_ABOVE_THRESHOLD;
+  return EXIT_OK;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exitCode = EXIT_ERROR;
+  });
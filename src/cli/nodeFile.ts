@@ -0,0 +1,55 @@
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import type { FileLike } from '../util/fileLike';
+import { DOCX_MIME_TYPE } from '../util/docxExtractor';
+import { FileCollector } from '../util/fileCollector';
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': DOCX_MIME_TYPE,
+  '.txt': 'text/plain'
+};
+
+// A file on disk behind the same interface as a browser File; contents are read on demand
+export class NodeFile implements FileLike {
+  readonly name: string;
+  readonly type: string;
+  readonly size: number;
+  readonly path: string;
+
+  private constructor(path: string, size: number) {
+    this.path = path;
+    this.name = basename(path);
+    this.type = MIME_TYPES[extname(path).toLowerCase()] ?? '';
+    this.size = size;
+  }
+
+  static async open(path: string): Promise<NodeFile> {
+    return new NodeFile(path, (await stat(path)).size);
+  }
+
+  // Files are returned as they are; folders are walked recursively for supported files
+  static async collect(paths: string[]): Promise<NodeFile[]> {
+    const files = await Promise.all(paths.map(async path => {
+      if ((await stat(path)).isDirectory()) {
+        const entries = await readdir(path, { recursive: true, withFileTypes: true });
+        const filePaths = entries
+          .filter(entry => entry.isFile() && FileCollector.isSupported(entry))
+          .map(entry => join(entry.parentPath, entry.name))
+          .sort((a, b) => a.localeCompare(b));
+        return Promise.all(filePaths.map(filePath => NodeFile.open(filePath)));
+      }
+      return [await NodeFile.open(path)];
+    }));
+    return files.flat();
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    const buffer = await readFile(this.path);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  }
+
+  async text(): Promise<string> {
+    return readFile(this.path, 'utf8');
+  }
+}
@@ -0,0 +1,6 @@
+import pdfjs from 'pdfjs-dist/build/pdf.js';
+
+// pdf.js is CommonJS, so Node's ESM loader only exposes it as a default export. The Node build
+// aliases 'pdfjs-dist' to this module, which re-exports what the extractor uses. Loaded as
+// CommonJS, pdf.js runs its worker in-process and needs no worker URL.
+export const { OPS, getDocument, GlobalWorkerOptions } = pdfjs;
@@ -0,0 +1,54 @@
+import { Bot, X } from 'lucide-react';
+import { DetectionConfig, getSimilarityBand } from '../util/detectionConfig';
+import type { AIAnalysis } from '../hooks/useAIAnalysis';
+import { SIMILARITY_COLORS } from './similarityStyles';
+
+interface AIAnalysisPanelProps {
+  analysis: AIAnalysis;
+  // Bands the AI score like a similarity score
+  config: DetectionConfig;
+  onClose: () => void;
+}
+
+function AIAnalysisPanel({ analysis, config, onClose }: AIAnalysisPanelProps) {
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 mb-6">
+      <div className="flex items-start">
+        <Bot className="w-5 h-5 text-indigo-500 mt-0.5 mr-3 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <h3 className="text-indigo-800 font-medium">AI Analysis: {analysis.fileName}</h3>
+            <button onClick={onClose} className="text-indigo-300 hover:text-indigo-500 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {analysis.error ? (
+            <p className="text-red-700">{analysis.error}</p>
+          ) : !analysis.verdict ? (
+            <p className="text-indigo-700">{analysis.status}</p>
+          ) : (
+            <>
+              <p className="text-indigo-700 mt-1">
+                Likely AI-written: <span className={`font-bold ${SIMILARITY_COLORS[getSimilarityBand(analysis.verdict.aiScore, config)]}`}>{analysis.verdict.aiScore}%</span>
+                <span className="text-xs text-indigo-400 ml-2">via {analysis.verdict.provider}</span>
+              </p>
+              <p className="text-indigo-700 whitespace-pre-line mt-2">{analysis.verdict.rationale}</p>
+              {analysis.verdict.passages.length > 0 && (
+                <div className="space-y-2 mt-3">
+                  {analysis.verdict.passages.map(passage => (
+                    <div key={passage.start} className="bg-white p-3 rounded-lg border-l-4 border-indigo-400 text-sm">
+                      <p className="text-gray-700 italic">"{passage.text}"</p>
+                      <p className="text-xs text-indigo-600 mt-1">{passage.reason}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AIAnalysisPanel;
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Bot, X } from 'lucide-react';
+import { LLMProviderConfig, LLMProviderType } from '../util/llmProvider';
+
+interface AISettingsPanelProps {
+  config: LLMProviderConfig;
+  onSave: (config: LLMProviderConfig) => void;
+  onClose: () => void;
+}
+
+function AISettingsPanel({ config, onSave, onClose }: AISettingsPanelProps) {
+  const [draft, setDraft] = useState(config);
+  const update = (changes: Partial<LLMProviderConfig>) => setDraft(prev => ({ ...prev, ...changes }));
+  const isMock = draft.type === 'mock';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Bot className="w-5 h-5 text-indigo-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">AI Analysis Settings</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          onSave(draft);
+        }}
+        className="space-y-4 text-sm"
+      >
+        <label className="flex items-center text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={event => update({ enabled: event.target.checked })}
+            className="mr-2"
+          />
+          Analyse single uploads for AI-written text
+        </label>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-gray-600">Provider</span>
+            <select
+              value={draft.type}
+              onChange={event => update({ type: event.target.value as LLMProviderType })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            >
+              <option value="openai-compatible">OpenAI-compatible API</option>
+              <option value="mock">Mock (offline, for testing)</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Model</span>
+            <input
+              value={draft.model}
+              disabled={isMock}
+              onChange={event => update({ model: event.target.value })}
+              placeholder="deepseek-chat"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Endpoint</span>
+            <input
+              type="url"
+              value={draft.endpoint}
+              disabled={isMock}
+              onChange={event => update({ endpoint: event.target.value })}
+              placeholder="https://api.deepseek.com/v1"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">API key</span>
+            <input
+              type="password"
+              autoComplete="off"
+              value={draft.apiKey}
+              disabled={isMock}
+              onChange={event => update({ apiKey: event.target.value })}
+              placeholder="Leave empty for local servers without authentication"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Timeout (seconds)</span>
+            <input
+              type="number"
+              min={5}
+              max={600}
+              value={Math.round(draft.timeoutMs / 1000)}
+              disabled={isMock}
+              onChange={event => update({ timeoutMs: Math.max(5, Number(event.target.value)) * 1000 })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Settings are stored in this browser only; the API key is kept for this browser session and has to be entered again after the browser is closed. Submitted text is sent to the configured endpoint.
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default AISettingsPanel;
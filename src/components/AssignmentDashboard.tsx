@@ -0,0 +1,121 @@
+import { BarChart3, X } from 'lucide-react';
+import { Collections, Course, MIN_OUTLIER_SAMPLE } from '../util/collections';
+import { DetectionConfig, getSimilarityBand } from '../util/detectionConfig';
+import type { DetectionResult } from '../util/plagiarismDetector';
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, ReviewWorkflow } from '../util/reviewWorkflow';
+
+interface AssignmentDashboardProps {
+  course: Course;
+  assignment: string;
+  courses: Course[];
+  results: DetectionResult[];
+  // Bands the bars are coloured by
+  config: DetectionConfig;
+  onClose: () => void;
+}
+
+const BAR_COLORS = { low: 'bg-green-400', medium: 'bg-yellow-400', high: 'bg-red-400' };
+
+// Height of the tallest histogram bar, in pixels
+const CHART_HEIGHT = 96;
+
+const describeSubmission = (result: DetectionResult): string =>
+  [result.author, result.studentId].filter(Boolean).join(' • ');
+
+function AssignmentDashboard({ course, assignment, courses, results, config, onClose }: AssignmentDashboardProps) {
+  const submissions = Collections.forAssignment(results, course, assignment);
+  const distribution = Collections.distribution(submissions, courses);
+  const tallest = Math.max(1, ...distribution.histogram);
+  const statusCounts = REVIEW_STATUSES
+    .map(status => ({ status, count: submissions.filter(result => ReviewWorkflow.get(result).status === status).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <BarChart3 className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">
+            {assignment} – {Collections.formatCourse(course)}
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {submissions.length === 0 ? (
+        <p className="text-sm text-gray-500">No submissions have been filed under this assignment yet.</p>
+      ) : (
+        <div className="space-y-6 text-sm">
+          <div className="flex flex-wrap gap-6 text-gray-600">
+            <p><span className="text-2xl font-bold text-gray-900">{distribution.count}</span> submissions</p>
+            <p><span className="text-2xl font-bold text-gray-900">{distribution.median}%</span> median score</p>
+            <p><span className="text-2xl font-bold text-gray-900">{distribution.mean}%</span> mean score</p>
+            <p><span className="text-2xl font-bold text-gray-900">{distribution.late.length}</span> late</p>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Score distribution</h3>
+            <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+              {distribution.histogram.map((count, band) => (
+                <div key={band} className="flex-1 flex flex-col items-center justify-end h-full">
+                  {count > 0 && <span className="text-xs text-gray-500">{count}</span>}
+                  <div
+                    className={`w-full rounded-t ${BAR_COLORS[getSimilarityBand(band * 10, config)]}`}
+                    style={{ height: `${(count / tallest) * (CHART_HEIGHT - 16)}px` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 text-xs text-gray-400 mt-1">
+              {distribution.histogram.map((_, band) => (
+                <span key={band} className="flex-1 text-center">{band * 10}</span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Outliers</h3>
+            {distribution.outliers.length === 0 ? (
+              <p className="text-gray-500">
+                {distribution.count < MIN_OUTLIER_SAMPLE ? 'Too few submissions to pick out outliers.' : 'No score stands out from the rest.'}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {distribution.outliers.map(result => (
+                  <li key={result.id} className="flex justify-between border-b border-gray-100 py-1">
+                    <span className="text-gray-700 truncate">
+                      {result.fileName}
+                      {describeSubmission(result) && <span className="text-gray-400"> – {describeSubmission(result)}</span>}
+                    </span>
+                    <span className="font-semibold text-red-600 ml-3">{result.similarity}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {distribution.late.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-700 mb-2">Late submissions</h3>
+              <ul className="space-y-1 text-gray-700">
+                {distribution.late.map(result => (
+                  <li key={result.id}>
+                    {result.fileName} <span className="text-gray-400">– {result.timestamp.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-gray-500">
+            Review: {statusCounts.map(({ status, count }) => `${count} ${REVIEW_STATUS_LABELS[status].toLowerCase()}`).join(', ')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AssignmentDashboard;
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { BarChart3, FolderTree, Trash2, X } from 'lucide-react';
+import { Collections, Course } from '../util/collections';
+import type { DetectionResult } from '../util/plagiarismDetector';
+
+interface CollectionsPanelProps {
+  courses: Course[];
+  results: DetectionResult[];
+  onSave: (courses: Course[]) => void;
+  onOpenDashboard: (course: Course, assignment: string) => void;
+  onClose: () => void;
+}
+
+// Due dates are picked as a day and fall due at its end, local time
+const toDueDate = (day: string): Date | undefined => (day ? new Date(`${day}T23:59:59`) : undefined);
+
+function CollectionsPanel({ courses, results, onSave, onOpenDashboard, onClose }: CollectionsPanelProps) {
+  const [courseName, setCourseName] = useState('');
+  const [term, setTerm] = useState('');
+  const [assignmentDrafts, setAssignmentDrafts] = useState<Record<string, { name: string; dueDate: string }>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (change: () => Course[]) => {
+    try {
+      onSave(change());
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update the courses.');
+      return false;
+    }
+  };
+
+  const addCourse = () => {
+    if (run(() => [...courses, Collections.createCourse(courseName, term)])) {
+      setCourseName('');
+      setTerm('');
+    }
+  };
+
+  const addAssignment = (course: Course) => {
+    const draft = assignmentDrafts[course.id] ?? { name: '', dueDate: '' };
+    const added = run(() => courses.map(existing =>
+      existing.id === course.id ? Collections.addAssignment(existing, draft.name, toDueDate(draft.dueDate)) : existing
+    ));
+    if (added) setAssignmentDrafts(prev => ({ ...prev, [course.id]: { name: '', dueDate: '' } }));
+  };
+
+  // Submissions keep their course and assignment names, so removing a collection only forgets its details
+  const removeAssignment = (course: Course, name: string) => {
+    run(() => courses.map(existing =>
+      existing.id === course.id
+        ? { ...existing, assignments: existing.assignments.filter(assignment => assignment.name !== name) }
+        : existing
+    ));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <FolderTree className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Courses &amp; Assignments</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <p className="text-gray-600">
+          File submissions under a course and assignment to compare them only with related work and to see how an
+          assignment's scores are spread. Offerings of a course in different terms share its name.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="block flex-1 min-w-[12rem]">
+            <span className="text-gray-600">Course</span>
+            <input
+              value={courseName}
+              onChange={event => setCourseName(event.target.value)}
+              placeholder="e.g. HIST 101"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <label className="block w-40">
+            <span className="text-gray-600">Term</span>
+            <input
+              value={term}
+              onChange={event => setTerm(event.target.value)}
+              placeholder="e.g. Fall 2025"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <button
+            onClick={addCourse}
+            disabled={!courseName.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            Add Course
+          </button>
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+
+        {courses.length === 0 ? (
+          <p className="text-gray-500">No courses yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {courses.map(course => {
+              const draft = assignmentDrafts[course.id] ?? { name: '', dueDate: '' };
+              const setDraft = (change: Partial<typeof draft>) =>
+                setAssignmentDrafts(prev => ({ ...prev, [course.id]: { ...draft, ...change } }));
+              return (
+                <div key={course.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold text-gray-800">{Collections.formatCourse(course)}</h3>
+                    <button
+                      onClick={() => run(() => courses.filter(existing => existing.id !== course.id))}
+                      title="Remove course"
+                      className="text-gray-400 hover:text-red-500 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {course.assignments.length > 0 && (
+                    <ul className="divide-y divide-gray-100 mb-2">
+                      {course.assignments.map(assignment => (
+                        <li key={assignment.name} className="flex items-center justify-between py-1.5">
+                          <span className="text-gray-700">
+                            {assignment.name}
+                            <span className="text-gray-400">
+                              {assignment.dueDate && ` • due ${assignment.dueDate.toLocaleDateString()}`}
+                              {` • ${Collections.forAssignment(results, course, assignment.name).length} submission(s)`}
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-3">
+                            <button
+                              onClick={() => onOpenDashboard(course, assignment.name)}
+                              className="text-blue-600 hover:text-blue-700 font-medium flex items-center"
+                            >
+                              <BarChart3 className="w-4 h-4 mr-1" />
+                              Dashboard
+                            </button>
+                            <button
+                              onClick={() => removeAssignment(course, assignment.name)}
+                              title="Remove assignment"
+                              className="text-gray-400 hover:text-red-500 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      value={draft.name}
+                      onChange={event => setDraft({ name: event.target.value })}
+                      placeholder="Assignment, e.g. Essay 1"
+                      className="flex-1 min-w-[10rem] border border-gray-300 rounded-md px-2 py-1"
+                    />
+                    <label className="text-gray-500">
+                      Due
+                      <input
+                        type="date"
+                        value={draft.dueDate}
+                        onChange={event => setDraft({ dueDate: event.target.value })}
+                        className="ml-2 border border-gray-300 rounded-md px-2 py-1"
+                      />
+                    </label>
+                    <button
+                      onClick={() => addAssignment(course)}
+                      disabled={!draft.name.trim()}
+                      className="text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Add Assignment
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CollectionsPanel;
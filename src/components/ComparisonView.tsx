@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, ArrowLeftRight } from 'lucide-react';
+import { PlagiarismDetector, DetectionResult, MatchedSentence, MATCH_TYPE_LABELS } from '../util/plagiarismDetector';
+import { TextDiff } from '../util/textDiff';
+
+interface ComparisonViewProps {
+  result: DetectionResult;
+  corpus: DetectionResult[];
+  onClose: () => void;
+}
+
+interface LocatedMatch extends MatchedSentence {
+  index: number;
+  sourceId: string;
+  start: number;
+  end: number;
+  sourceStart: number;
+  sourceEnd: number;
+}
+
+interface Segment {
+  text: string;
+  matchIndex: number | null;
+}
+
+type Side = 'suspect' | 'source';
+
+// Literal class names so Tailwind keeps them in the build
+const SOURCE_COLORS = [
+  { highlight: 'bg-orange-200', selected: 'bg-orange-300 ring-2 ring-orange-500', chip: 'bg-orange-100 text-orange-800 border-orange-300' },
+  { highlight: 'bg-sky-200', selected: 'bg-sky-300 ring-2 ring-sky-500', chip: 'bg-sky-100 text-sky-800 border-sky-300' },
+  { highlight: 'bg-lime-200', selected: 'bg-lime-300 ring-2 ring-lime-500', chip: 'bg-lime-100 text-lime-800 border-lime-300' },
+  { highlight: 'bg-fuchsia-200', selected: 'bg-fuchsia-300 ring-2 ring-fuchsia-500', chip: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-300' },
+  { highlight: 'bg-teal-200', selected: 'bg-teal-300 ring-2 ring-teal-500', chip: 'bg-teal-100 text-teal-800 border-teal-300' }
+];
+
+const isLocated = (match: MatchedSentence): match is Omit<LocatedMatch, 'index'> =>
+  match.sourceId !== undefined && match.start !== undefined && match.end !== undefined &&
+  match.sourceStart !== undefined && match.sourceEnd !== undefined;
+
+// Cuts `text` into plain and highlighted segments; overlapping spans are clipped to the earlier one
+const buildSegments = (text: string, spans: { start: number; end: number; matchIndex: number }[]): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  [...spans]
+    .sort((a, b) => a.start - b.start)
+    .forEach(span => {
+      const start = Math.max(span.start, cursor);
+      if (start >= span.end) return;
+      if (start > cursor) segments.push({ text: text.slice(cursor, start), matchIndex: null });
+      segments.push({ text: text.slice(start, span.end), matchIndex: span.matchIndex });
+      cursor = span.end;
+    });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), matchIndex: null });
+  return segments;
+};
+
+function ComparisonView({ result, corpus, onClose }: ComparisonViewProps) {
+  const matches = useMemo<LocatedMatch[]>(
+    () => result.matches
+      .map((match, index) => ({ ...match, index }))
+      .filter((match): match is LocatedMatch => isLocated(match)),
+    [result.matches]
+  );
+
+  const sourceIds = useMemo(() => [...new Set(matches.map(match => match.sourceId))], [matches]);
+  const [activeSourceId, setActiveSourceId] = useState<string | undefined>(sourceIds[0]);
+  const [selectedMatch, setSelectedMatch] = useState<number | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<Side | null>(null);
+  const spanRefs = useRef(new Map<string, HTMLElement>());
+
+  const source = corpus.find(document => document.id === activeSourceId);
+  const colorFor = (sourceId: string) => SOURCE_COLORS[Math.max(0, sourceIds.indexOf(sourceId)) % SOURCE_COLORS.length];
+  const matchByIndex = useMemo(() => new Map(matches.map(match => [match.index, match])), [matches]);
+
+  useEffect(() => {
+    if (selectedMatch === null || !scrollTarget) return;
+    spanRefs.current.get(`${scrollTarget}-${selectedMatch}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTarget(null);
+  }, [selectedMatch, scrollTarget, activeSourceId]);
+
+  const selectMatch = (match: LocatedMatch, from: Side) => {
+    setActiveSourceId(match.sourceId);
+    setSelectedMatch(match.index);
+    // Scroll the other pane to the counterpart of what was clicked
+    setScrollTarget(from === 'suspect' ? 'source' : 'suspect');
+  };
+
+  const selected = selectedMatch !== null ? matchByIndex.get(selectedMatch) : undefined;
+  const selectedDiff = useMemo(() => {
+    if (!selected || !source) return null;
+    return TextDiff.diffWords(
+      result.content.slice(selected.start, selected.end),
+      source.content.slice(selected.sourceStart, selected.sourceEnd)
+    );
+  }, [selected, source, result.content]);
+
+  const renderPane = (side: Side, text: string, spans: { start: number; end: number; matchIndex: number }[]) => (
+    <p className={`text-sm text-gray-700 leading-relaxed whitespace-pre-wrap ${result.codeLanguage ? 'font-mono' : ''}`}>
+      {buildSegments(text, spans).map((segment, index) => {
+        if (segment.matchIndex === null) return <span key={index}>{segment.text}</span>;
+
+        const match = matchByIndex.get(segment.matchIndex)!;
+        const color = colorFor(match.sourceId);
+        const isSelected = segment.matchIndex === selectedMatch;
+        const diffTokens = isSelected && selectedDiff ? (side === 'suspect' ? selectedDiff.left : selectedDiff.right) : null;
+
+        return (
+          <span
+            key={index}
+            ref={element => {
+              const key = `${side}-${segment.matchIndex}`;
+              if (element) spanRefs.current.set(key, element);
+              else spanRefs.current.delete(key);
+            }}
+            onClick={() => selectMatch(match, side)}
+            title={`${match.matchType ? `${MATCH_TYPE_LABELS[match.matchType]}, ` : ''}${match.similarity}% similarity with ${match.sourceFile} ${PlagiarismDetector.formatPageCitation(match)}`.trim()}
+            className={`cursor-pointer rounded px-0.5 ${isSelected ? color.selected : color.highlight}`}
+          >
+            {diffTokens
+              ? diffTokens.map((token, tokenIndex) => (
+                <span key={tokenIndex} className={token.changed ? 'bg-white/70 text-red-700 underline decoration-red-500 decoration-2' : ''}>
+                  {token.text}
+                </span>
+              ))
+              : segment.text}
+          </span>
+        );
+      })}
+    </p>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <ArrowLeftRight className="w-5 h-5 text-blue-500 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Side-by-side comparison</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-gray-100 text-sm">
+          <span className="text-gray-500 mr-1">Sources:</span>
+          {sourceIds.map(sourceId => {
+            const sourceMatch = matches.find(match => match.sourceId === sourceId)!;
+            return (
+              <button
+                key={sourceId}
+                onClick={() => setActiveSourceId(sourceId)}
+                className={`border rounded-full px-3 py-1 font-medium ${colorFor(sourceId).chip} ${sourceId === activeSourceId ? 'ring-2 ring-offset-1 ring-gray-400' : 'opacity-70'}`}
+              >
+                {sourceMatch.sourceFile} ({matches.filter(match => match.sourceId === sourceId).length})
+              </button>
+            );
+          })}
+          <span className="text-gray-400 ml-auto">Click a highlighted passage to jump to its counterpart</span>
+        </div>
+
+        <div className="grid grid-cols-2 flex-1 min-h-0 divide-x divide-gray-200">
+          <div className="flex flex-col min-h-0">
+            <h3 className="px-6 py-2 text-sm font-semibold text-gray-700 bg-gray-50">{result.fileName}</h3>
+            <div className="overflow-y-auto px-6 py-4">
+              {renderPane('suspect', result.content, matches.map(match => ({ start: match.start, end: match.end, matchIndex: match.index })))}
+            </div>
+          </div>
+          <div className="flex flex-col min-h-0">
+            <h3 className="px-6 py-2 text-sm font-semibold text-gray-700 bg-gray-50">{source?.fileName ?? 'Source'}</h3>
+            <div className="overflow-y-auto px-6 py-4">
+              {source ? (
+                renderPane('source', source.content, matches
+                  .filter(match => match.sourceId === source.id)
+                  .map(match => ({ start: match.sourceStart, end: match.sourceEnd, matchIndex: match.index })))
+              ) : (
+                <p className="text-sm text-gray-500">The source document is no longer in the corpus.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ComparisonView;
@@ -0,0 +1,145 @@
+import { ChangeEvent, useRef } from 'react';
+import { Cloud, CloudOff, Database, Download, RefreshCw, Settings, Upload } from 'lucide-react';
+import type { StorageUsage } from '../util/corpusRepository';
+import type { SyncStatus } from '../hooks/useCorpusSync';
+
+interface CorpusStatusBarProps {
+  storageUsage: StorageUsage | null;
+  syncStatus: SyncStatus | null;
+  canExport: boolean;
+  onSync: () => void;
+  onRetryRejected: () => void;
+  onOpenSharing: () => void;
+  onOpenAISettings: () => void;
+  onImport: (archive: File) => Promise<void>;
+  onExport: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const getSyncSummary = ({ syncing, pendingCount, lastSyncedAt, conflicts, rejected, error }: SyncStatus): string => {
+  if (error) return `${error}${pendingCount > 0 ? ` (${pendingCount} waiting)` : ''}`;
+  if (syncing) return 'Syncing shared corpus…';
+  const parts = [lastSyncedAt ? `Shared corpus synced at ${lastSyncedAt.toLocaleTimeString()}` : 'Shared corpus not synced yet'];
+  if (pendingCount > 0) parts.push(`${pendingCount} waiting`);
+  if (conflicts.length > 0) {
+    parts.push(`kept the shared version of ${conflicts.map(conflict => conflict.fileName).join(', ')}`);
+  }
+  if (rejected.length > 0) {
+    parts.push(`not shared: ${rejected.map(rejection => `${rejection.fileName} (${rejection.error})`).join(', ')}`);
+  }
+  return parts.join(' • ');
+};
+
+// Saved corpus size and sharing state, with the archive, sharing and AI settings actions
+function CorpusStatusBar({
+  storageUsage,
+  syncStatus,
+  canExport,
+  onSync,
+  onRetryRejected,
+  onOpenSharing,
+  onOpenAISettings,
+  onImport,
+  onExport
+}: CorpusStatusBarProps) {
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  const importArchive = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      await onImport(file);
+    } finally {
+      if (archiveInputRef.current) {
+        archiveInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow p-4 mb-8 flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-center text-sm text-gray-600">
+        <Database className="w-5 h-5 text-blue-500 mr-2" />
+        {storageUsage ? (
+          <span>
+            {storageUsage.documentCount} saved document{storageUsage.documentCount === 1 ? '' : 's'}
+            {storageUsage.quotaBytes > 0 && ` • ${formatBytes(storageUsage.usedBytes)} of ${formatBytes(storageUsage.quotaBytes)} used`}
+          </span>
+        ) : (
+          <span>Saved corpus unavailable</span>
+        )}
+        {syncStatus && (
+          <span className={`flex items-center ml-4 ${syncStatus.error || syncStatus.rejected.length > 0 ? 'text-red-600' : ''}`}>
+            {syncStatus.error ? <CloudOff className="w-4 h-4 mr-1" /> : <Cloud className="w-4 h-4 mr-1 text-blue-500" />}
+            {getSyncSummary(syncStatus)}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center space-x-4">
+        <input
+          ref={archiveInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={importArchive}
+          className="hidden"
+        />
+        {syncStatus && (
+          <button
+            onClick={onSync}
+            disabled={syncStatus.syncing}
+            className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${syncStatus.syncing ? 'animate-spin' : ''}`} />
+            Sync Now
+          </button>
+        )}
+        {syncStatus && syncStatus.rejected.length > 0 && (
+          <button
+            onClick={onRetryRejected}
+            disabled={syncStatus.syncing}
+            className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Retry Refused
+          </button>
+        )}
+        <button
+          onClick={onOpenSharing}
+          className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm"
+        >
+          <Cloud className="w-4 h-4 mr-1" />
+          Sharing
+        </button>
+        <button
+          onClick={onOpenAISettings}
+          className="text-indigo-600 hover:text-indigo-700 font-medium flex items-center text-sm"
+        >
+          <Settings className="w-4 h-4 mr-1" />
+          AI Settings
+        </button>
+        <button
+          onClick={() => archiveInputRef.current?.click()}
+          className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Import Archive
+        </button>
+        <button
+          onClick={onExport}
+          disabled={!canExport}
+          className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export Archive
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CorpusStatusBar;
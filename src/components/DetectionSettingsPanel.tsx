@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import {
+  CONFIG_LABELS,
+  DetectionConfig,
+  DetectionProfile,
+  DetectionProfiles,
+  validateDetectionConfig
+} from '../util/detectionConfig';
+
+interface DetectionSettingsPanelProps {
+  profiles: DetectionProfile[];
+  activeProfileId: string;
+  onSave: (profiles: DetectionProfile[], activeProfileId: string) => void;
+  onClose: () => void;
+}
+
+const NUMBER_FIELDS: (keyof DetectionConfig)[] = [
+  'similarityThreshold', 'minSentenceLength', 'minWordLength', 'maxMatches', 'minContentLength', 'lowBand', 'highBand', 'maxFileSizeMB'
+];
+const TOGGLE_FIELDS: (keyof DetectionConfig)[] = [
+  'semanticMatching', 'excludeQuotations', 'excludeCitations', 'excludeBibliography', 'scanHiddenText'
+];
+
+function DetectionSettingsPanel({ profiles, activeProfileId, onSave, onClose }: DetectionSettingsPanelProps) {
+  const [profileList, setProfileList] = useState(profiles);
+  const [selectedId, setSelectedId] = useState(activeProfileId);
+  const selected = profileList.find(profile => profile.id === selectedId) ?? profileList[0];
+  const [draft, setDraft] = useState<DetectionConfig>(selected.config);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selectProfile = (id: string) => {
+    setSelectedId(id);
+    setDraft(profileList.find(profile => profile.id === id)!.config);
+    setError(null);
+  };
+
+  const isModified = (Object.keys(draft) as (keyof DetectionConfig)[]).some(key => draft[key] !== selected.config[key]);
+
+  const save = () => {
+    try {
+      const config = validateDetectionConfig(draft);
+      if (selected.builtIn && isModified) {
+        throw new Error(`"${selected.name}" is built in. Save your changes as a new profile instead.`);
+      }
+      const updated = profileList.map(profile => (profile.id === selected.id ? { ...profile, config } : profile));
+      onSave(updated, selected.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid detection settings.');
+    }
+  };
+
+  const saveAsNew = () => {
+    try {
+      const profile = DetectionProfiles.create(newName, draft);
+      if (profileList.some(existing => existing.name.toLowerCase() === profile.name.toLowerCase())) {
+        throw new Error(`A profile named "${profile.name}" already exists.`);
+      }
+      setProfileList(prev => [...prev, profile]);
+      setSelectedId(profile.id);
+      setDraft(profile.config);
+      setNewName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the profile.');
+    }
+  };
+
+  const deleteSelected = () => {
+    const remaining = profileList.filter(profile => profile.id !== selected.id);
+    setProfileList(remaining);
+    selectProfile(remaining[0].id);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <SlidersHorizontal className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Detection Settings</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          save();
+        }}
+        className="space-y-4 text-sm"
+      >
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="block flex-1 min-w-[12rem]">
+            <span className="text-gray-600">Profile</span>
+            <select
+              value={selected.id}
+              onChange={event => selectProfile(event.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            >
+              {profileList.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.builtIn ? ' (built in)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!selected.builtIn && (
+            <button type="button" onClick={deleteSelected} className="px-4 py-2 rounded-lg text-red-600 hover:bg-red-50">
+              Delete profile
+            </button>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {NUMBER_FIELDS.map(field => (
+            <label key={field} className="block">
+              <span className="text-gray-600">{CONFIG_LABELS[field]}</span>
+              <input
+                type="number"
+                value={draft[field] as number}
+                onChange={event => setDraft(prev => ({ ...prev, [field]: Number(event.target.value) }))}
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-gray-700">
+          {TOGGLE_FIELDS.map(field => (
+            <label key={field} className="inline-flex items-center">
+              <input
+                type="checkbox"
+                checked={draft[field] as boolean}
+                onChange={event => setDraft(prev => ({ ...prev, [field]: event.target.checked }))}
+                className="mr-2"
+              />
+              {CONFIG_LABELS[field]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 border-t border-gray-100 pt-4">
+          <label className="block flex-1 min-w-[12rem]">
+            <span className="text-gray-600">Save these settings as a new profile</span>
+            <input
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              placeholder="e.g. Strict thesis"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={saveAsNew}
+            className="px-4 py-2 rounded-lg text-blue-600 border border-blue-600 hover:bg-blue-50 font-semibold"
+          >
+            Save as New
+          </button>
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+        <p className="text-xs text-gray-400">
+          Each result records the profile it was checked with. Changing a profile doesn't change existing results; re-run them instead.
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 font-semibold">
+            Use This Profile
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default DetectionSettingsPanel;
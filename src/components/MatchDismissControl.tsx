@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { DISMISSAL_REASONS, MatchDismissal } from '../util/reviewWorkflow';
+
+interface MatchDismissControlProps {
+  dismissal?: MatchDismissal;
+  disabled: boolean;
+  onDismiss: (reason: string) => void;
+  onRestore: () => void;
+}
+
+function MatchDismissControl({ dismissal, disabled, onDismiss, onRestore }: MatchDismissControlProps) {
+  const [reason, setReason] = useState<string | null>(null);
+
+  if (dismissal) {
+    return (
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+        <span>
+          Dismissed by {dismissal.dismissedBy}: {dismissal.reason}
+        </span>
+        <button onClick={onRestore} disabled={disabled} className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400">
+          Restore
+        </button>
+      </div>
+    );
+  }
+
+  if (reason === null) {
+    return (
+      <div className="mt-2 text-right">
+        <button
+          onClick={() => setReason('')}
+          disabled={disabled}
+          title={disabled ? 'Enter your name to review' : 'Mark as a false positive'}
+          className="text-xs text-gray-500 hover:text-gray-700 font-medium disabled:text-gray-300"
+        >
+          Dismiss
+        </button>
+      </div>
+    );
+  }
+
+  const submit = () => {
+    if (!reason.trim()) return;
+    onDismiss(reason.trim());
+    setReason(null);
+  };
+
+  return (
+    <div className="mt-2 flex items-center gap-2 text-xs">
+      <input
+        autoFocus
+        value={reason}
+        onChange={event => setReason(event.target.value)}
+        onKeyDown={event => event.key === 'Enter' && submit()}
+        list="dismissal-reasons"
+        placeholder="Reason for dismissing"
+        className="flex-1 border border-gray-200 rounded px-2 py-1 focus:border-blue-400 focus:outline-none"
+      />
+      <datalist id="dismissal-reasons">
+        {DISMISSAL_REASONS.map(option => <option key={option} value={option} />)}
+      </datalist>
+      <button onClick={submit} disabled={!reason.trim()} className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400">
+        Dismiss
+      </button>
+      <button onClick={() => setReason(null)} className="text-gray-500 hover:text-gray-700">
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+export default MatchDismissControl;
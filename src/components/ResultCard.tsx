@@ -0,0 +1,285 @@
+import { AlertCircle, ArrowLeftRight, CheckCircle, File, FileCode, FileDown, FileText, FileType, FileX, Printer, RefreshCw, Trash2 } from 'lucide-react';
+import type { PageConfidence } from '../util/pdfEXtractor';
+import { DOCX_MIME_TYPE } from '../util/docxExtractor';
+import { PlagiarismDetector, DetectionResult, MATCH_TYPE_LABELS } from '../util/plagiarismDetector';
+import { EXCLUSION_LABELS } from '../util/documentStructure';
+import { Language } from '../util/language';
+import { ReportGenerator } from '../util/reportGenerator';
+import { CODE_LANGUAGE_NAMES, CODE_MIME_TYPES } from '../util/codeTokenizer';
+import { DetectionConfig, DetectionProfile, getSimilarityBand } from '../util/detectionConfig';
+import { COMPARISON_SCOPE_LABELS, Collections, Course } from '../util/collections';
+import { ReviewWorkflow } from '../util/reviewWorkflow';
+import WritingStyleSummary from './WritingStyleSummary';
+import TamperingWarning from './TamperingWarning';
+import SourceBreakdownTable from './SourceBreakdownTable';
+import ReviewPanel from './ReviewPanel';
+import MatchDismissControl from './MatchDismissControl';
+import { SIMILARITY_BACKGROUNDS, SIMILARITY_COLORS, SIMILARITY_LABELS } from './similarityStyles';
+
+interface ResultCardProps {
+  result: DetectionResult;
+  profiles: DetectionProfile[];
+  courses: Course[];
+  reviewer: string;
+  // Results are banded by the profile they were checked with, anything else by this config
+  defaultConfig: DetectionConfig;
+  onRerun: (profileId: string) => void;
+  onPrint: () => void;
+  onDelete: () => void;
+  onCompare: () => void;
+  onAuthorChange: (author: string) => void;
+  onReviewerChange: (reviewer: string) => void;
+  // `rescore` re-runs the document afterwards, for changes that affect its score
+  onReview: (change: (result: DetectionResult) => DetectionResult, rescore?: boolean) => void;
+}
+
+const CODE_FILE_TYPES = new Set(Object.values(CODE_MIME_TYPES));
+
+const getFileIcon = (fileType: string) => {
+  if (fileType === 'application/pdf') {
+    return <File className="w-5 h-5 text-red-500" />;
+  } else if (fileType === DOCX_MIME_TYPE) {
+    return <FileType className="w-5 h-5 text-indigo-500" />;
+  } else if (fileType === 'text/plain') {
+    return <FileText className="w-5 h-5 text-blue-500" />;
+  } else if (CODE_FILE_TYPES.has(fileType)) {
+    return <FileCode className="w-5 h-5 text-emerald-500" />;
+  } else {
+    return <FileX className="w-5 h-5 text-gray-500" />;
+  }
+};
+
+// `pages` only lists pages that produced text, so the total comes from the document's page count
+const getOcrSummary = (pages: PageConfidence[], pageCount = pages.length): string => {
+  const ocrPages = pages.filter(page => page.ocr);
+  const averageConfidence = Math.round(ocrPages.reduce((sum, page) => sum + page.confidence, 0) / ocrPages.length);
+  const lowConfidence = ocrPages.filter(page => page.confidence < 60).map(page => page.pageNumber);
+  return `OCR used on ${ocrPages.length} of ${pageCount} pages (avg. confidence ${averageConfidence}%)` +
+    (lowConfidence.length > 0 ? ` • low confidence on p. ${lowConfidence.join(', ')}` : '');
+};
+
+function ResultCard({
+  result,
+  profiles,
+  courses,
+  reviewer,
+  defaultConfig,
+  onRerun,
+  onPrint,
+  onDelete,
+  onCompare,
+  onAuthorChange,
+  onReviewerChange,
+  onReview
+}: ResultCardProps) {
+  const band = getSimilarityBand(result.similarity, result.profile?.config ?? defaultConfig);
+  const reviewerName = reviewer.trim();
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg border-2 ${SIMILARITY_BACKGROUNDS[band]} overflow-hidden`}>
+      <div className="p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center">
+            {getFileIcon(result.fileType)}
+            <div className="ml-3">
+              <h3 className="text-lg font-semibold text-gray-900">{result.fileName}</h3>
+              <div className="text-sm text-gray-500 space-y-1">
+                <p>Uploaded {result.timestamp.toLocaleString()}</p>
+                <p>
+                  {result.codeLanguage ? (
+                    `${result.content.split('\n').length.toLocaleString()} lines • ${CODE_LANGUAGE_NAMES[result.codeLanguage]}`
+                  ) : (
+                    <>
+                      {result.wordCount.toLocaleString()} words{result.pageCount ? ` • ${result.pageCount} ${result.fileType === DOCX_MIME_TYPE ? 'sections' : 'pages'}` : ''}
+                      {result.language && ` • ${Language.getName(result.language)}`}
+                    </>
+                  )}
+                  {result.profile && ` • ${result.profile.name} profile`}
+                  {result.course && ` • ${Collections.formatCourse({ name: result.course, term: result.term })}`}
+                  {result.assignment && ` • ${result.assignment}`}
+                  {result.studentId && ` • ${result.studentId}`}
+                  {result.comparisonScope && result.comparisonScope !== 'all' && ` • compared with ${COMPARISON_SCOPE_LABELS[result.comparisonScope].toLowerCase()}`}
+                </p>
+                {Collections.isLate(courses, result) && (
+                  <p className="text-xs text-amber-600">Submitted after the assignment's due date</p>
+                )}
+                {result.templateCoverage !== undefined && (
+                  <p className="text-xs text-gray-400">
+                    {result.templateCoverage}% of the text comes from the assignment template and isn't scored
+                  </p>
+                )}
+                {result.pages?.some(page => page.ocr) && (
+                  <p className="text-xs text-amber-600">{getOcrSummary(result.pages, result.pageCount)}</p>
+                )}
+                {result.skippedContent && result.skippedContent.length > 0 && (
+                  <p className="text-xs text-gray-400">Not compared: {result.skippedContent.join(', ')}</p>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className={`text-2xl font-bold ${SIMILARITY_COLORS[band]}`}>
+              {result.similarity}%
+            </div>
+            <label className="relative text-gray-400 hover:text-blue-500 transition-colors cursor-pointer" title="Re-run with another profile">
+              <RefreshCw className="w-5 h-5" />
+              <select
+                value=""
+                onChange={event => onRerun(event.target.value)}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              >
+                <option value="" disabled>Re-run with profile…</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => ReportGenerator.download(ReportGenerator.toHTML(result), ReportGenerator.getReportFileName(result, 'html'), 'text/html')}
+              title="Download HTML report"
+              className="text-gray-400 hover:text-blue-500 transition-colors"
+            >
+              <FileDown className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onPrint}
+              title="Print or save report as PDF"
+              className="text-gray-400 hover:text-blue-500 transition-colors"
+            >
+              <Printer className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-gray-400 hover:text-red-500 transition-colors"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {result.obfuscation && <TamperingWarning findings={result.obfuscation} content={result.content} />}
+
+        <WritingStyleSummary result={result} onAuthorChange={onAuthorChange} />
+
+        <div className="flex items-center mb-4">
+          {band === 'low' ? (
+            <CheckCircle className="w-5 h-5 text-green-500 mr-2" />
+          ) : (
+            <AlertCircle className="w-5 h-5 text-red-500 mr-2" />
+          )}
+          <span className={`font-medium ${SIMILARITY_COLORS[band]}`}>
+            {SIMILARITY_LABELS[band]}
+          </span>
+        </div>
+
+        <SourceBreakdownTable result={result} />
+
+        {result.matches.length > 0 && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-gray-700">
+                Potential Matches ({result.matches.length}
+                {result.review?.dismissals.length ? `, ${result.matches.filter(match => ReviewWorkflow.isDismissed(result, match)).length} dismissed` : ''}):
+              </h4>
+              {result.matches.some(match => match.start !== undefined) && (
+                <button
+                  onClick={onCompare}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center text-sm"
+                >
+                  <ArrowLeftRight className="w-4 h-4 mr-1" />
+                  Compare side by side
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {result.matches.map((match, index) => (
+                <div
+                  key={index}
+                  className={`bg-gray-50 p-3 rounded-lg border-l-4 ${ReviewWorkflow.isDismissed(result, match) ? 'border-gray-300 opacity-70' : 'border-orange-400'}`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <span className="text-xs font-medium text-orange-600">
+                      {match.similarity}% similarity with {match.sourceFile}
+                      {match.matchType && (
+                        <span className="ml-2 text-gray-500 bg-white border border-gray-200 rounded px-1.5 py-0.5">
+                          {MATCH_TYPE_LABELS[match.matchType]}
+                        </span>
+                      )}
+                    </span>
+                    {PlagiarismDetector.formatPageCitation(match) && (
+                      <span className="text-xs font-medium text-gray-500 bg-white border border-gray-200 rounded px-1.5 py-0.5">
+                        {PlagiarismDetector.formatPageCitation(match)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700">"{match.sentence}"</p>
+                  <MatchDismissControl
+                    dismissal={ReviewWorkflow.findDismissal(result, match)}
+                    disabled={!reviewerName}
+                    onDismiss={reason => onReview(current => ReviewWorkflow.dismissMatch(current, match, reason, reviewerName), true)}
+                    onRestore={() => onReview(current => ReviewWorkflow.restoreMatch(current, match, reviewerName), true)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result.excludedMatches && result.excludedMatches.length > 0 && (
+          <details className="mb-4">
+            <summary className="font-semibold text-gray-500 cursor-pointer">
+              Excluded Matches ({result.excludedMatches.length}): quoted, cited, bibliography or template text, not scored
+            </summary>
+            <div className="space-y-2 mt-2">
+              {result.excludedMatches.map((match, index) => (
+                <div key={index} className="bg-gray-50 p-3 rounded-lg border-l-4 border-gray-300">
+                  <div className="flex justify-between items-start mb-2">
+                    <span className="text-xs font-medium text-gray-500">
+                      {match.similarity}% similarity with {match.sourceFile}
+                      {match.exclusion && (
+                        <span className="ml-2 bg-white border border-gray-200 rounded px-1.5 py-0.5">
+                          {EXCLUSION_LABELS[match.exclusion]}
+                        </span>
+                      )}
+                    </span>
+                    {PlagiarismDetector.formatPageCitation(match) && (
+                      <span className="text-xs font-medium text-gray-500 bg-white border border-gray-200 rounded px-1.5 py-0.5">
+                        {PlagiarismDetector.formatPageCitation(match)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">"{match.sentence}"</p>
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+
+        <ReviewPanel
+          result={result}
+          reviewer={reviewer}
+          onReviewerChange={onReviewerChange}
+          onStatusChange={status => onReview(current => ReviewWorkflow.setStatus(current, status, reviewerName))}
+          onNotesChange={notes => onReview(current => ReviewWorkflow.setNotes(current, notes, reviewerName))}
+        />
+
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">Document Content Preview:</h4>
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <p className={`text-sm text-gray-700 leading-relaxed ${result.codeLanguage ? 'font-mono whitespace-pre-wrap' : ''}`}>
+              {result.content.substring(0, 300)}
+              {result.content.length > 300 && '...'}
+            </p>
+          </div>
+          {result.content.length > 300 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing first 300 characters of {result.content.length.toLocaleString()} total
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ResultCard;
@@ -0,0 +1,85 @@
+import { ClipboardCheck } from 'lucide-react';
+import type { DetectionResult } from '../util/plagiarismDetector';
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, ReviewStatus, ReviewWorkflow } from '../util/reviewWorkflow';
+
+interface ReviewPanelProps {
+  result: DetectionResult;
+  reviewer: string;
+  onReviewerChange: (reviewer: string) => void;
+  onStatusChange: (status: ReviewStatus) => void;
+  onNotesChange: (notes: string) => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 border-gray-300',
+  cleared: 'bg-green-50 text-green-700 border-green-300',
+  escalated: 'bg-amber-50 text-amber-700 border-amber-300',
+  confirmed: 'bg-red-50 text-red-700 border-red-300'
+};
+
+function ReviewPanel({ result, reviewer, onReviewerChange, onStatusChange, onNotesChange }: ReviewPanelProps) {
+  const review = ReviewWorkflow.get(result);
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg p-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="font-semibold text-gray-700 flex items-center">
+          <ClipboardCheck className="w-4 h-4 mr-1" />
+          Review
+        </p>
+        <label className="text-gray-500">
+          Reviewing as
+          <input
+            value={reviewer}
+            onChange={event => onReviewerChange(event.target.value)}
+            placeholder="Your name"
+            className="ml-2 w-40 border-b border-gray-200 focus:border-blue-400 focus:outline-none"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        {REVIEW_STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => onStatusChange(status)}
+            disabled={!reviewer.trim()}
+            title={reviewer.trim() ? undefined : 'Enter your name to review'}
+            className={`px-2 py-1 rounded border text-xs font-medium disabled:cursor-not-allowed ${
+              review.status === status ? STATUS_STYLES[status] : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'
+            }`}
+          >
+            {REVIEW_STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        // Keyed on the notes so a change saved elsewhere (e.g. by sync) shows up
+        key={review.notes}
+        defaultValue={review.notes}
+        onBlur={event => event.target.value.trim() !== review.notes && onNotesChange(event.target.value.trim())}
+        disabled={!reviewer.trim()}
+        placeholder="Reviewer notes"
+        rows={2}
+        className="w-full border border-gray-200 rounded p-2 focus:border-blue-400 focus:outline-none disabled:bg-gray-50"
+      />
+
+      {review.audit.length > 0 && (
+        <details className="mt-2 text-gray-600">
+          <summary className="cursor-pointer">Audit trail ({review.audit.length})</summary>
+          <ol className="mt-1 pl-4 space-y-1 text-xs break-words">
+            {review.audit.map((entry, index) => (
+              <li key={index}>
+                <span className="text-gray-400">{entry.at.toLocaleString()}</span>{' '}
+                <span className="font-medium">{entry.by}</span>: {entry.detail}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default ReviewPanel;
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Grid3x3, Users, X } from 'lucide-react';
+import { SimilarityMatrix, SimilarityMatrixResult } from '../util/similarityMatrix';
+
+interface SimilarityHeatmapProps {
+  matrix: SimilarityMatrixResult;
+  onClose: () => void;
+}
+
+type SortMode = 'name' | 'max' | 'cluster' | { column: number };
+
+// Clusters are recomputed once the slider has rested this long, not on every step while dragging
+const THRESHOLD_DEBOUNCE_MS = 250;
+
+const getCellColor = (similarity: number): string => {
+  if (similarity === 0) return 'bg-gray-50 text-gray-300';
+  if (similarity < 20) return 'bg-green-100 text-green-800';
+  if (similarity < 35) return 'bg-yellow-100 text-yellow-800';
+  if (similarity < 50) return 'bg-yellow-300 text-yellow-900';
+  if (similarity < 75) return 'bg-orange-400 text-white';
+  return 'bg-red-600 text-white';
+};
+
+function SimilarityHeatmap({ matrix, onClose }: SimilarityHeatmapProps) {
+  const [threshold, setThreshold] = useState(50);
+  const [clusterThreshold, setClusterThreshold] = useState(threshold);
+  const [sortMode, setSortMode] = useState<SortMode>('cluster');
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setClusterThreshold(threshold), THRESHOLD_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [threshold]);
+
+  const size = matrix.documentIds.length;
+  const clusters = useMemo(() => SimilarityMatrix.findClusters(matrix, clusterThreshold), [matrix, clusterThreshold]);
+
+  // Document position -> cluster number (1-based), for labelling and grouping rows
+  const clusterOf = useMemo(() => {
+    const positions = new Map(matrix.documentIds.map((id, i) => [id, i]));
+    const lookup = new Map<number, number>();
+    clusters.forEach((cluster, clusterIndex) => {
+      cluster.documentIds.forEach(id => lookup.set(positions.get(id)!, clusterIndex + 1));
+    });
+    return lookup;
+  }, [clusters, matrix.documentIds]);
+
+  const maxSimilarity = useMemo(
+    () => matrix.values.map((row, i) => Math.max(0, ...row.filter((_, j) => j !== i))),
+    [matrix]
+  );
+
+  const order = useMemo(() => {
+    const positions = matrix.documentIds.map((_, i) => i);
+    if (sortMode === 'name') {
+      return positions.sort((a, b) => matrix.fileNames[a].localeCompare(matrix.fileNames[b]));
+    }
+    if (sortMode === 'max') {
+      return positions.sort((a, b) => maxSimilarity[b] - maxSimilarity[a]);
+    }
+    if (sortMode === 'cluster') {
+      return positions.sort((a, b) =>
+        (clusterOf.get(a) ?? Infinity) - (clusterOf.get(b) ?? Infinity) || maxSimilarity[b] - maxSimilarity[a]
+      );
+    }
+    const column = sortMode.column;
+    return positions.sort((a, b) => (b === column ? 1 : a === column ? -1 : matrix.values[b][column] - matrix.values[a][column]));
+  }, [sortMode, matrix, clusterOf, maxSimilarity]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Grid3x3 className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Pairwise Similarity ({size} documents)</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 mb-4 text-sm text-gray-600">
+        <label className="flex items-center">
+          Cluster threshold
+          <input
+            type="range"
+            min={10}
+            max={100}
+            step={5}
+            value={threshold}
+            onChange={event => setThreshold(Number(event.target.value))}
+            className="mx-3"
+          />
+          <span className="font-semibold text-gray-800 w-10">{threshold}%</span>
+        </label>
+        <label className="flex items-center">
+          Sort by
+          <select
+            value={typeof sortMode === 'string' ? sortMode : 'column'}
+            onChange={event => setSortMode(event.target.value as 'name' | 'max' | 'cluster')}
+            className="ml-2 border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="cluster">Cluster</option>
+            <option value="max">Highest similarity</option>
+            <option value="name">File name</option>
+            {typeof sortMode !== 'string' && <option value="column">Similarity to #{sortMode.column + 1}</option>}
+          </select>
+        </label>
+        <span className="text-gray-400">Click a column number to sort by similarity to that document</span>
+      </div>
+
+      <div className="overflow-auto max-h-[70vh] border border-gray-200 rounded-lg">
+        <table className="text-xs border-collapse">
+          <thead className="sticky top-0 bg-white z-10">
+            <tr>
+              <th className="sticky left-0 bg-white p-2 text-left font-medium text-gray-500">Document</th>
+              {order.map(column => (
+                <th key={column} className="p-1 font-medium text-gray-500">
+                  <button
+                    onClick={() => setSortMode({ column })}
+                    title={matrix.fileNames[column]}
+                    className={`w-8 hover:text-blue-600 ${typeof sortMode !== 'string' && sortMode.column === column ? 'text-blue-600' : ''}`}
+                  >
+                    {column + 1}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map(row => (
+              <tr key={row}>
+                <th className="sticky left-0 bg-white p-2 text-left font-normal text-gray-700 whitespace-nowrap max-w-[16rem] truncate" title={matrix.fileNames[row]}>
+                  <span className="text-gray-400 mr-1">{row + 1}.</span>
+                  {matrix.fileNames[row]}
+                  {clusterOf.has(row) && (
+                    <span className="ml-2 text-[10px] font-semibold text-red-700 bg-red-50 border border-red-200 rounded px-1">C{clusterOf.get(row)}</span>
+                  )}
+                </th>
+                {order.map(column => {
+                  const similarity = matrix.values[row][column];
+                  const inSameCluster = row !== column && clusterOf.has(row) && clusterOf.get(row) === clusterOf.get(column);
+                  return (
+                    <td
+                      key={column}
+                      title={`${matrix.fileNames[row]} ↔ ${matrix.fileNames[column]}: ${similarity}%`}
+                      className={`w-8 h-8 text-center border border-white ${row === column ? 'bg-gray-200 text-gray-400' : getCellColor(similarity)} ${inSameCluster ? 'ring-2 ring-inset ring-red-800' : ''}`}
+                    >
+                      {row === column ? '—' : similarity}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="font-semibold text-gray-700 mb-2 flex items-center">
+          <Users className="w-4 h-4 mr-2 text-red-500" />
+          Collusion clusters at ≥ {clusterThreshold}% ({clusters.length})
+        </h3>
+        {clusters.length === 0 ? (
+          <p className="text-sm text-gray-500">No group of submissions is mutually similar above this threshold.</p>
+        ) : (
+          <div className="space-y-2">
+            {clusters.map((cluster, clusterIndex) => (
+              <div key={cluster.documentIds.join()} className="bg-red-50 border-l-4 border-red-400 p-3 rounded-lg text-sm">
+                <span className="font-semibold text-red-700 mr-2">C{clusterIndex + 1}</span>
+                <span className="text-gray-500 mr-2">{cluster.documentIds.length} submissions, every pair ≥ {cluster.minSimilarity}%:</span>
+                <span className="text-gray-800">
+                  {cluster.documentIds.map(id => matrix.fileNames[matrix.documentIds.indexOf(id)]).join(', ')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SimilarityHeatmap;
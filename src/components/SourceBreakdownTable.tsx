@@ -0,0 +1,43 @@
+import type { DetectionResult } from '../util/plagiarismDetector';
+import { ReportGenerator } from '../util/reportGenerator';
+
+interface SourceBreakdownTableProps {
+  result: DetectionResult;
+}
+
+function SourceBreakdownTable({ result }: SourceBreakdownTableProps) {
+  const closestSource = ReportGenerator.formatClosestSource(result);
+  // Results saved before coverage scoring have no shares to show
+  const breakdown = result.sources ? ReportGenerator.getSourceBreakdown(result) : [];
+  if (!closestSource && breakdown.length === 0) return null;
+
+  return (
+    <div className="mb-4 text-sm">
+      {closestSource && <p className="text-gray-500 mb-2">Secondary: {closestSource}</p>}
+      {breakdown.length > 0 && (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-3 font-medium">Source</th>
+              <th className="py-1 pr-3 font-medium">Share of text</th>
+              <th className="py-1 pr-3 font-medium">Longest run</th>
+              <th className="py-1 font-medium">Passages</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map(source => (
+              <tr key={source.sourceFile} className="border-b border-gray-100 text-gray-700">
+                <td className="py-1 pr-3 truncate max-w-xs">{source.sourceFile}</td>
+                <td className="py-1 pr-3">{source.share !== undefined ? `${source.share}%` : '—'}</td>
+                <td className="py-1 pr-3">{source.longestRun !== undefined ? `${source.longestRun} words` : '—'}</td>
+                <td className="py-1">{source.matchCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default SourceBreakdownTable;
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Cloud, X } from 'lucide-react';
+import { DEFAULT_SYNC_SETTINGS, SyncAdapterType, SyncSettings, createSyncAdapter } from '../util/corpusSync';
+
+interface SyncSettingsPanelProps {
+  settings: SyncSettings;
+  onSave: (settings: SyncSettings) => void;
+  onClose: () => void;
+}
+
+function SyncSettingsPanel({ settings, onSave, onClose }: SyncSettingsPanelProps) {
+  const [draft, setDraft] = useState(settings);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [user, setUser] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<SyncSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const { type, url, anonKey } = draft;
+  const isMemory = type === 'memory';
+
+  // Sessions belong to the backend, so they're looked up again when it changes
+  useEffect(() => {
+    let cancelled = false;
+    setUser(null);
+    try {
+      createSyncAdapter({ ...DEFAULT_SYNC_SETTINGS, type, url, anonKey })
+        .getUser()
+        .then(current => !cancelled && setUser(current))
+        .catch(() => undefined);
+    } catch {
+      // Incomplete settings; there's no backend to ask yet
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [type, url, anonKey]);
+
+  const signIn = async () => {
+    setError(null);
+    try {
+      const adapter = createSyncAdapter(draft);
+      await adapter.signIn(email, password);
+      setUser(await adapter.getUser());
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+    }
+  };
+
+  const signOut = async () => {
+    setError(null);
+    try {
+      await createSyncAdapter(draft).signOut();
+      setUser(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-out failed.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Cloud className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Shared Corpus Settings</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          if (draft.enabled && !draft.organizationId.trim()) {
+            setError('Enter the organization to share the corpus with.');
+            return;
+          }
+          onSave(draft);
+        }}
+        className="space-y-4 text-sm"
+      >
+        <label className="flex items-center text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={event => update({ enabled: event.target.checked })}
+            className="mr-2"
+          />
+          Share checked documents with other graders and compare against theirs
+        </label>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-gray-600">Backend</span>
+            <select
+              value={draft.type}
+              onChange={event => update({ type: event.target.value as SyncAdapterType })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            >
+              <option value="supabase">Supabase</option>
+              <option value="memory">In memory (offline, for testing)</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Project URL</span>
+            <input
+              type="url"
+              value={draft.url}
+              disabled={isMemory}
+              onChange={event => update({ url: event.target.value })}
+              placeholder="http://127.0.0.1:54321"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-gray-600">Anon key</span>
+            <input
+              autoComplete="off"
+              value={draft.anonKey}
+              disabled={isMemory}
+              onChange={event => update({ anonKey: event.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Organization</span>
+            <input
+              value={draft.organizationId}
+              onChange={event => update({ organizationId: event.target.value })}
+              placeholder="e.g. demo-university"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-600">Course</span>
+            <input
+              value={draft.courseId}
+              onChange={event => update({ courseId: event.target.value })}
+              placeholder="Leave empty to share across the organization"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          {user ? (
+            <div className="flex items-center justify-between text-gray-700">
+              <span>Signed in as <span className="font-medium">{user}</span></span>
+              <button type="button" onClick={signOut} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100">
+                Sign Out
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block flex-1 min-w-[12rem]">
+                <span className="text-gray-600">Email</span>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={event => setEmail(event.target.value)}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </label>
+              <label className="block flex-1 min-w-[12rem]">
+                <span className="text-gray-600">Password</span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={event => setPassword(event.target.value)}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={signIn}
+                className="px-4 py-2 rounded-lg text-blue-600 border border-blue-600 hover:bg-blue-50 font-semibold"
+              >
+                Sign In
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+        <p className="text-xs text-gray-400">
+          The password isn't stored; the backend keeps you signed in. Documents checked while offline are shared once the connection is back.
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 font-semibold">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default SyncSettingsPanel;
@@ -0,0 +1,49 @@
+import { ShieldAlert } from 'lucide-react';
+import { OBFUSCATION_LABELS, ObfuscationAnalyzer, ObfuscationFinding } from '../util/obfuscationAnalyzer';
+
+interface TamperingWarningProps {
+  findings: ObfuscationFinding[];
+  content: string;
+}
+
+// Findings listed before the rest are folded away
+const SHOWN_FINDINGS = 5;
+
+function TamperingWarning({ findings, content }: TamperingWarningProps) {
+  const renderFinding = (finding: ObfuscationFinding, index: number) => {
+    const repaired = content.slice(finding.start, finding.end);
+    return (
+      <li key={index}>
+        <span className="font-medium">{OBFUSCATION_LABELS[finding.kind]}</span>
+        {finding.pageNumber !== undefined && ` (p. ${finding.pageNumber})`}: “{finding.original}”
+        {finding.kind !== 'hidden-text' && repaired !== finding.original && ` read as “${repaired}”`}
+        <span className="text-red-500"> – {finding.detail}</span>
+      </li>
+    );
+  };
+
+  return (
+    <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+      <p className="font-semibold flex items-center">
+        <ShieldAlert className="w-4 h-4 mr-1" />
+        Tampering detected: {ObfuscationAnalyzer.summarize(findings)}
+      </p>
+      <p className="text-xs text-red-600 mt-1">
+        The text was compared as a reader sees it: look-alike letters and spacing were undone and invisible characters removed.
+      </p>
+      <ul className="mt-2 list-disc pl-5 space-y-1 break-words">
+        {findings.slice(0, SHOWN_FINDINGS).map(renderFinding)}
+      </ul>
+      {findings.length > SHOWN_FINDINGS && (
+        <details className="mt-1">
+          <summary className="cursor-pointer text-red-600">{findings.length - SHOWN_FINDINGS} more</summary>
+          <ul className="mt-1 list-disc pl-5 space-y-1 break-words">
+            {findings.slice(SHOWN_FINDINGS).map((finding, index) => renderFinding(finding, index + SHOWN_FINDINGS))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default TamperingWarning;
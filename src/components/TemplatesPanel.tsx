@@ -0,0 +1,122 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { ClipboardList, Trash2, Upload, X } from 'lucide-react';
+import { AssignmentTemplate, AssignmentTemplates } from '../util/assignmentTemplates';
+import { ACCEPTED_FILES } from '../util/fileCollector';
+
+interface TemplatesPanelProps {
+  templates: AssignmentTemplate[];
+  assignment: string;
+  onAdd: (files: File[], assignment: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function TemplatesPanel({ templates, assignment, onAdd, onDelete, onClose }: TemplatesPanelProps) {
+  const [selected, setSelected] = useState(assignment);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const assignments = [...new Set(templates.map(template => template.assignment))].sort();
+  const shown = AssignmentTemplates.forAssignment(templates, selected);
+
+  const addFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setAdding(true);
+    setError(null);
+    try {
+      await onAdd(files, selected.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the template.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <ClipboardList className="w-5 h-5 text-blue-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Assignment Templates</h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <p className="text-gray-600">
+          Register the prompt, headings or starter code handed out with an assignment. Text that submissions for the
+          assignment share with its templates is listed separately and not scored.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="block flex-1 min-w-[12rem]">
+            <span className="text-gray-600">Assignment</span>
+            <input
+              list="template-assignments"
+              value={selected}
+              onChange={event => setSelected(event.target.value)}
+              placeholder="e.g. Essay 1"
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+            <datalist id="template-assignments">
+              {assignments.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FILES}
+            multiple
+            onChange={addFiles}
+            className="hidden"
+          />
+          <button
+            type="button"
+            disabled={!selected.trim() || adding}
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 rounded-lg text-blue-600 border border-blue-600 hover:bg-blue-50 font-semibold flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            {adding ? 'Adding…' : 'Add Template'}
+          </button>
+        </div>
+
+        {shown.length > 0 ? (
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {shown.map(template => (
+              <li key={template.id} className="flex items-center justify-between px-3 py-2">
+                <span className="text-gray-700 truncate">{template.fileName}</span>
+                <span className="flex items-center text-gray-400 ml-3 flex-shrink-0">
+                  {template.content.length.toLocaleString()} characters
+                  <button
+                    onClick={() => onDelete(template.id)}
+                    className="ml-3 hover:text-red-500 transition-colors"
+                    title="Remove template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-400">
+            {selected.trim() ? 'No templates for this assignment yet.' : 'Enter an assignment to see or add its templates.'}
+          </p>
+        )}
+
+        {error && <p className="text-red-600">{error}</p>}
+        <p className="text-xs text-gray-400">
+          Templates apply to documents checked for the same assignment from now on; re-run earlier results to apply them there.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default TemplatesPanel;
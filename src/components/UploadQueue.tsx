@@ -0,0 +1,63 @@
+import { Clock, X } from 'lucide-react';
+import type { DetectionProgress } from '../util/detectionPipeline';
+
+export interface UploadJob {
+  jobId: string;
+  fileName: string;
+  progress: DetectionProgress;
+}
+
+interface UploadQueueProps {
+  jobs: UploadJob[];
+  onCancel: (jobId: string) => void;
+}
+
+const getJobStatus = ({ stage, page, pageCount }: DetectionProgress): string => {
+  switch (stage) {
+    case 'queued': return 'Waiting in queue';
+    case 'extracting': return page && pageCount ? `Extracting text (page ${page} of ${pageCount})` : 'Extracting text';
+    case 'ocr': return `Running OCR (page ${page} of ${pageCount})`;
+    case 'matching': return 'Comparing against corpus';
+    case 'complete': return 'Finishing';
+  }
+};
+
+const getJobPercent = ({ stage, page, pageCount }: DetectionProgress): number => {
+  if (stage === 'queued') return 0;
+  if (stage === 'matching') return 90;
+  if (stage === 'complete') return 100;
+  return page && pageCount ? Math.round((page / pageCount) * 85) : 5;
+};
+
+function UploadQueue({ jobs, onCancel }: UploadQueueProps) {
+  return (
+    <div className="mt-6 space-y-3">
+      {jobs.map(job => (
+        <div key={job.jobId} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center text-sm min-w-0">
+              <Clock className={`w-4 h-4 mr-2 flex-shrink-0 ${job.progress.stage === 'queued' ? 'text-gray-400' : 'text-blue-500 animate-spin'}`} />
+              <span className="font-medium text-gray-700 truncate">{job.fileName}</span>
+              <span className="text-gray-500 ml-2 flex-shrink-0">{getJobStatus(job.progress)}</span>
+            </div>
+            <button
+              onClick={() => onCancel(job.jobId)}
+              className="text-gray-400 hover:text-red-500 transition-colors ml-3"
+              title="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${getJobPercent(job.progress)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default UploadQueue;
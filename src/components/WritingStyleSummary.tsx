@@ -0,0 +1,82 @@
+import { AlertTriangle, PenLine } from 'lucide-react';
+import type { DetectionResult } from '../util/plagiarismDetector';
+
+interface WritingStyleSummaryProps {
+  result: DetectionResult;
+  onAuthorChange: (author: string) => void;
+}
+
+const getIndicatorLabel = (aiLikeness: number): string => {
+  if (aiLikeness >= 60) return 'many traits of generated text';
+  if (aiLikeness >= 30) return 'some traits of generated text';
+  return 'few traits of generated text';
+};
+
+function WritingStyleSummary({ result, onAuthorChange }: WritingStyleSummaryProps) {
+  const { style, authorConsistency } = result;
+
+  return (
+    <div className="mb-4 text-sm space-y-2">
+      <label className="inline-flex items-center text-gray-600">
+        <PenLine className="w-4 h-4 mr-1 text-gray-400" />
+        Author
+        <input
+          // Keyed on the author so a change saved elsewhere (e.g. by sync) shows up
+          key={result.author ?? ''}
+          defaultValue={result.author ?? ''}
+          onBlur={event => event.target.value.trim() !== (result.author ?? '') && onAuthorChange(event.target.value.trim())}
+          onKeyDown={event => event.key === 'Enter' && event.currentTarget.blur()}
+          placeholder="Unknown"
+          className="ml-2 w-40 border-b border-gray-200 focus:border-blue-400 focus:outline-none"
+        />
+      </label>
+
+      {style && (
+        <details className="text-gray-600">
+          <summary className="cursor-pointer">
+            Writing style: AI-likeness indicator <span className="font-semibold">{style.aiLikeness}/100</span>
+            <span className="text-gray-400"> ({getIndicatorLabel(style.aiLikeness)})</span>
+          </summary>
+          <div className="mt-2 pl-4 space-y-1">
+            {style.signals.length > 0 ? (
+              <ul className="list-disc pl-4">
+                {style.signals.map(signal => (
+                  <li key={signal.description}>
+                    {signal.description}{' '}
+                    <span className="text-gray-400">({signal.points > 0 ? '+' : ''}{signal.points})</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p>No distinctive style traits.</p>
+            )}
+            <p className="text-xs text-gray-400">
+              Estimated offline from sentence rhythm, vocabulary and punctuation. A prompt for a closer look, not proof.
+            </p>
+          </div>
+        </details>
+      )}
+
+      {authorConsistency && (authorConsistency.shifted ? (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800">
+          <p className="font-medium flex items-center">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            Style differs from {authorConsistency.comparedWith} earlier submission{authorConsistency.comparedWith === 1 ? '' : 's'} by {authorConsistency.author}
+          </p>
+          <ul className="mt-1 list-disc pl-6">
+            {authorConsistency.shifts.map(shift => (
+              <li key={shift.label}>{shift.label}: {shift.value} (usually {shift.baseline})</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">
+          Style consistent with {authorConsistency.comparedWith} earlier submission{authorConsistency.comparedWith === 1 ? '' : 's'} by {authorConsistency.author}
+          {authorConsistency.shifts.length > 0 && ` apart from ${authorConsistency.shifts.map(shift => shift.label.toLowerCase()).join(', ')}`}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default WritingStyleSummary;
@@ -0,0 +1,10 @@
+import type { SimilarityBand } from '../util/detectionConfig';
+
+// Colours and labels of the similarity bands, shared by the result list and the AI output
+export const SIMILARITY_COLORS: Record<SimilarityBand, string> = { low: 'text-green-600', medium: 'text-yellow-600', high: 'text-red-600' };
+export const SIMILARITY_BACKGROUNDS: Record<SimilarityBand, string> = {
+  low: 'bg-green-100 border-green-200',
+  medium: 'bg-yellow-100 border-yellow-200',
+  high: 'bg-red-100 border-red-200'
+};
+export const SIMILARITY_LABELS: Record<SimilarityBand, string> = { low: 'Low Similarity', medium: 'Medium Similarity', high: 'High Similarity' };
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { LLMProviderConfig, createProvider, loadProviderConfig, saveProviderConfig } from '../util/llmProvider';
+import { AIAnalyzer, AIVerdict } from '../util/aiAnalyzer';
+import type { DetectionResult } from '../util/plagiarismDetector';
+
+export interface AIAnalysis {
+  fileName: string;
+  status: string;
+  verdict?: AIVerdict;
+  error?: string;
+}
+
+// AI provider settings and the analysis of the document last sent to it
+export function useAIAnalysis() {
+  const [config, setConfig] = useState<LLMProviderConfig>(loadProviderConfig);
+  const [analysis, setAnalysis] = useState<AIAnalysis | null>(null);
+
+  const saveConfig = (updated: LLMProviderConfig) => {
+    saveProviderConfig(updated);
+    setConfig(updated);
+  };
+
+  const runAnalysis = async (result: DetectionResult) => {
+    const fileName = result.fileName;
+    setAnalysis({ fileName, status: 'Analysing…' });
+    try {
+      const verdict = await AIAnalyzer.analyze(result.content, createProvider(config), {
+        onProgress: (chunk, chunkCount) =>
+          setAnalysis({ fileName, status: chunkCount > 1 ? `Analysing part ${chunk} of ${chunkCount}…` : 'Analysing…' })
+      });
+      setAnalysis({ fileName, status: 'complete', verdict });
+    } catch (err) {
+      setAnalysis({ fileName, status: 'failed', error: err instanceof Error ? err.message : 'AI analysis failed.' });
+    }
+  };
+
+  return { config, saveConfig, analysis, runAnalysis, clearAnalysis: () => setAnalysis(null) };
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CorpusSync,
+  SyncConflict,
+  SyncRejection,
+  SyncSettings,
+  createSyncAdapter,
+  getSyncScope,
+  loadSyncSettings,
+  saveSyncSettings
+} from '../util/corpusSync';
+import type { CorpusRepository } from '../util/corpusRepository';
+import type { DetectionResult } from '../util/plagiarismDetector';
+
+export interface SyncStatus {
+  syncing: boolean;
+  pendingCount: number;
+  lastSyncedAt?: Date;
+  conflicts: SyncConflict[];
+  rejected: SyncRejection[];
+  error?: string;
+}
+
+// Picks up documents other graders shared in the meantime
+const SYNC_INTERVAL_MS = 60_000;
+
+// Shares the local corpus while sharing is on; the local corpus keeps working without it.
+// `onCorpusChanged` is called after a sync changed local documents, and should be stable.
+export function useCorpusSync(repository: CorpusRepository, onCorpusChanged: () => Promise<void>) {
+  const [settings, setSettings] = useState<SyncSettings>(loadSyncSettings);
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const corpusSync = useRef<CorpusSync | null>(null);
+
+  const runSync = useCallback(async () => {
+    const sync = corpusSync.current;
+    if (!sync) return;
+    const idle = { syncing: false, pendingCount: sync.pendingCount, lastSyncedAt: sync.lastSyncedAt, conflicts: [], rejected: sync.rejectedChanges };
+    if (!navigator.onLine) {
+      setStatus({ ...idle, error: 'Offline. Changes are shared once the connection is back.' });
+      return;
+    }
+
+    setStatus(prev => ({ ...(prev ?? idle), syncing: true }));
+    try {
+      const report = await sync.sync();
+      if (report.changed) await onCorpusChanged();
+      setStatus({
+        ...idle,
+        pendingCount: sync.pendingCount,
+        lastSyncedAt: sync.lastSyncedAt,
+        conflicts: report.conflicts,
+        rejected: sync.rejectedChanges
+      });
+    } catch (err) {
+      setStatus({
+        ...idle,
+        pendingCount: sync.pendingCount,
+        error: err instanceof Error ? err.message : 'Could not sync the shared corpus.'
+      });
+    }
+  }, [onCorpusChanged]);
+
+  useEffect(() => {
+    corpusSync.current = null;
+    setStatus(null);
+    if (!settings.enabled) return;
+
+    try {
+      corpusSync.current = new CorpusSync(repository, createSyncAdapter(settings), getSyncScope(settings));
+    } catch (err) {
+      setStatus({ syncing: false, pendingCount: 0, conflicts: [], rejected: [], error: err instanceof Error ? err.message : 'Could not share the corpus.' });
+      return;
+    }
+
+    runSync();
+    const interval = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', runSync);
+    };
+  }, [repository, settings, runSync]);
+
+  const saveSettings = (updated: SyncSettings) => {
+    saveSyncSettings(updated);
+    setSettings(updated);
+  };
+
+  const retryRejected = () => {
+    corpusSync.current?.retryRejected();
+    runSync();
+  };
+
+  // Local changes are queued and shared right away; without sharing they stay local
+  const recordSave = (document: DetectionResult) => {
+    corpusSync.current?.recordSave(document);
+    runSync();
+  };
+
+  // Deleting a shared document deletes it for every grader in the scope
+  const recordDelete = (id: string) => {
+    corpusSync.current?.recordDelete(id);
+    runSync();
+  };
+
+  return { settings, saveSettings, status, runSync, retryRejected, recordSave, recordDelete };
+}
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Collections, ComparisonScope, Course } from '../util/collections';
+import type { SubmissionDetails } from '../util/detectionPipeline';
+
+// Course offering, assignment and student new uploads are filed under, and what they're compared with
+export interface UploadFiling {
+  courseId: string;
+  assignment: string;
+  studentId: string;
+  // Student new uploads are from; their earlier submissions are the baseline for style shifts
+  author: string;
+  scope: ComparisonScope;
+}
+
+const NO_FILING: UploadFiling = { courseId: '', assignment: '', studentId: '', author: '', scope: 'all' };
+
+export function useCourses() {
+  const [courses, setCourses] = useState<Course[]>(Collections.load);
+  const [filing, setFiling] = useState<UploadFiling>(NO_FILING);
+  const uploadCourse = courses.find(course => course.id === filing.courseId);
+
+  const updateFiling = (change: Partial<UploadFiling>) => setFiling(prev => ({ ...prev, ...change }));
+
+  const saveCourses = (updated: Course[]) => {
+    Collections.save(updated);
+    setCourses(updated);
+    if (!updated.some(course => course.id === filing.courseId)) updateFiling({ courseId: '' });
+  };
+
+  const submission: SubmissionDetails = {
+    course: uploadCourse?.name,
+    term: uploadCourse?.term,
+    assignment: filing.assignment,
+    studentId: filing.studentId,
+    author: filing.author,
+    scope: filing.scope
+  };
+
+  return { courses, saveCourses, filing, updateFiling, uploadCourse, submission };
+}
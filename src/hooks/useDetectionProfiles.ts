@@ -0,0 +1,15 @@
+import { useState } from 'react';
+import { DetectionProfile, DetectionProfiles } from '../util/detectionConfig';
+
+// Named detection profiles and the one new uploads are checked with, kept in local storage
+export function useDetectionProfiles() {
+  const [{ profiles, activeProfileId }, setProfileState] = useState(DetectionProfiles.load);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+
+  const saveProfiles = (updatedProfiles: DetectionProfile[], profileId: string) => {
+    DetectionProfiles.save(updatedProfiles, profileId);
+    setProfileState({ profiles: updatedProfiles, activeProfileId: profileId });
+  };
+
+  return { profiles, activeProfile, saveProfiles };
+}
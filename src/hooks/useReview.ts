@@ -0,0 +1,20 @@
+import { useState } from 'react';
+import type { DetectionResult } from '../util/plagiarismDetector';
+import { ReviewStatus, ReviewWorkflow, loadReviewerName, saveReviewerName } from '../util/reviewWorkflow';
+
+// Who is reviewing, remembered across sessions, and which review status the result list shows
+export function useReview() {
+  const [reviewer, setReviewer] = useState(loadReviewerName);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('all');
+
+  const changeReviewer = (name: string) => {
+    setReviewer(name);
+    saveReviewerName(name);
+  };
+
+  const filterResults = (results: DetectionResult[]) => statusFilter === 'all'
+    ? results
+    : results.filter(result => ReviewWorkflow.get(result).status === statusFilter);
+
+  return { reviewer, changeReviewer, statusFilter, setStatusFilter, filterResults };
+}
@@ -0,0 +1,59 @@
+import { RefObject, useCallback, useState } from 'react';
+import type { AssignmentTemplate } from '../util/assignmentTemplates';
+import type { CorpusRepository } from '../util/corpusRepository';
+import type { DetectionWorkerClient } from '../workers/detectionWorkerClient';
+
+// Assignment templates, saved in the repository and mirrored to the detection worker
+export function useTemplates(
+  repository: CorpusRepository,
+  detectionWorker: RefObject<DetectionWorkerClient | null>,
+  onError: (message: string) => void
+) {
+  const [templates, setTemplates] = useState<AssignmentTemplate[]>([]);
+
+  const updateTemplates = useCallback((updated: AssignmentTemplate[]) => {
+    detectionWorker.current?.loadTemplates(updated);
+    setTemplates(updated);
+  }, [detectionWorker]);
+
+  const addTemplates = async (files: File[], assignment: string) => {
+    const worker = detectionWorker.current;
+    if (!worker) return;
+
+    // Every file is read before any is saved, so a file that can't be read adds nothing
+    const added: AssignmentTemplate[] = [];
+    for (const file of files) {
+      const { text, codeLanguage } = await worker.extractTemplate(file);
+      added.push({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        assignment,
+        fileName: file.name,
+        content: text,
+        codeLanguage,
+        addedAt: new Date()
+      });
+    }
+
+    // Templates saved before a failed save still reach the detector
+    const saved: AssignmentTemplate[] = [];
+    try {
+      for (const template of added) {
+        await repository.saveTemplate(template);
+        saved.push(template);
+      }
+    } finally {
+      if (saved.length > 0) updateTemplates([...templates, ...saved]);
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    updateTemplates(templates.filter(template => template.id !== id));
+    try {
+      await repository.deleteTemplate(id);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Could not remove the template.');
+    }
+  };
+
+  return { templates, updateTemplates, addTemplates, deleteTemplate };
+}
@@ -0,0 +1,43 @@
+// Library entry point: the detection core without the React app, usable from Node and bundlers
+export { PlagiarismChecker } from './util/plagiarismChecker';
+export type { CheckerOptions } from './util/plagiarismChecker';
+export { DetectionPipeline } from './util/detectionPipeline';
+export type { DetectionProgress, DetectionStage, ExtractedDocument, SubmissionDetails } from './util/detectionPipeline';
+export { PDFExtractor } from './util/pdfEXtractor';
+export type { PageChunk } from './util/pdfEXtractor';
+export { PlagiarismDetector, MATCH_TYPE_LABELS } from './util/plagiarismDetector';
+export type { DetectionResult, MatchedSentence, MatchType } from './util/plagiarismDetector';
+export { SimilarityScore } from './util/similarityScore';
+export type { SimilarityScoreResult, SourceCoverage } from './util/similarityScore';
+export { FingerprintIndex } from './util/fingerprintIndex';
+export { SimilarityMatrix } from './util/similarityMatrix';
+export type { SimilarityMatrixResult, CollusionCluster } from './util/similarityMatrix';
+export {
+  BUILT_IN_PROFILES,
+  DEFAULT_DETECTION_CONFIG,
+  getSimilarityBand,
+  validateDetectionConfig
+} from './util/detectionConfig';
+export type { DetectionConfig, DetectionProfile, SimilarityBand } from './util/detectionConfig';
+export { ReportGenerator } from './util/reportGenerator';
+export type { SourceBreakdown } from './util/reportGenerator';
+export { readArchive, readArchiveContents, createArchive } from './util/corpusRepository';
+export { FileCollector } from './util/fileCollector';
+export type { FileLike } from './util/fileLike';
+export type { CodeLanguage } from './util/codeTokenizer';
+export { CorpusSync } from './util/corpusSync';
+export type { SyncConflict, SyncReport } from './util/corpusSync';
+export { MemorySyncAdapter, SyncRequestError } from './util/syncAdapter';
+export type { PushResult, RemoteDocument, SyncAdapter, SyncChange, SyncScope } from './util/syncAdapter';
+export { SupabaseSyncAdapter } from './util/supabaseSyncAdapter';
+export type { CorpusRepository } from './util/corpusRepository';
+export { AssignmentTemplates } from './util/assignmentTemplates';
+export type { AssignmentTemplate } from './util/assignmentTemplates';
+export { Stylometry } from './util/stylometry';
+export type { AuthorConsistency, StyleAnalysis, StyleFeatures, StyleShift, StyleSignal } from './util/stylometry';
+export { ObfuscationAnalyzer, OBFUSCATION_LABELS } from './util/obfuscationAnalyzer';
+export type { ObfuscationFinding, ObfuscationKind } from './util/obfuscationAnalyzer';
+export { ReviewWorkflow, REVIEW_STATUSES, REVIEW_STATUS_LABELS } from './util/reviewWorkflow';
+export type { AuditEntry, MatchDismissal, Review, ReviewStatus } from './util/reviewWorkflow';
+export { Collections, COMPARISON_SCOPES, COMPARISON_SCOPE_LABELS } from './util/collections';
+export type { ComparisonScope, Course, CourseAssignment, ScoreDistribution } from './util/collections';
@@ -0,0 +1,196 @@
+import { ChatMessage, LLMProvider, LLMRequestError } from './llmProvider';
+
+export interface SuspiciousPassage {
+  // Character offsets into the analysed text
+  start: number;
+  end: number;
+  text: string;
+  reason: string;
+}
+
+export interface AIVerdict {
+  // Likelihood (0-100) that the text was written by an AI model
+  aiScore: number;
+  passages: SuspiciousPassage[];
+  rationale: string;
+  provider: string;
+  chunkCount: number;
+  analyzedAt: Date;
+}
+
+interface ChunkVerdict {
+  aiScore: number;
+  passages: { quote: string; reason: string }[];
+  rationale: string;
+}
+
+interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (chunk: number, chunkCount: number) => void;
+}
+
+const SYSTEM_PROMPT = `You are an academic integrity assistant. You assess whether a student submission was written by an AI language model rather than by a student.
+
+Judge the text on signals such as uniform sentence rhythm, generic hedging, formulaic transitions, lack of personal voice or specific detail, and unusually polished but shallow argument. Do not judge plagiarism, factual accuracy or quality.
+
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "aiScore": <integer 0-100, likelihood the text is AI-written>,
+  "passages": [{ "quote": "<exact, verbatim excerpt from the text>", "reason": "<why this excerpt looks AI-written>" }],
+  "rationale": "<two or three sentences explaining the score>"
+}
+
+Quote passages exactly as they appear, without changing whitespace or punctuation. List at most 5 passages, and none if nothing stands out.`;
+
+export class AIAnalyzer {
+  // Roughly 2-3k tokens of text per request, leaving room for the prompt and response
+  private static readonly CHUNK_SIZE = 8000;
+  private static readonly MAX_ATTEMPTS = 3;
+  private static readonly RETRY_DELAY_MS = 1000;
+
+  static async analyze(text: string, provider: LLMProvider, options: AnalyzeOptions = {}): Promise<AIVerdict> {
+    const { signal, onProgress } = options;
+    const chunks = this.splitIntoChunks(text);
+    if (chunks.length === 0) {
+      throw new Error('There is no text to analyse.');
+    }
+
+    const verdicts: { start: number; length: number; verdict: ChunkVerdict }[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.(i + 1, chunks.length);
+      const verdict = await this.analyzeChunk(chunks[i].text, provider, i, chunks.length, signal);
+      verdicts.push({ start: chunks[i].start, length: chunks[i].text.length, verdict });
+    }
+
+    // Longer chunks weigh more in the overall score
+    const totalLength = verdicts.reduce((sum, { length }) => sum + length, 0);
+    const aiScore = Math.round(verdicts.reduce((sum, { length, verdict }) => sum + verdict.aiScore * length, 0) / totalLength);
+
+    const passages = verdicts.flatMap(({ start, verdict }, i) =>
+      verdict.passages
+        .map(passage => this.locatePassage(chunks[i].text, passage, start))
+        .filter((passage): passage is SuspiciousPassage => passage !== null)
+    );
+
+    const rationale = verdicts.length === 1
+      ? verdicts[0].verdict.rationale
+      : verdicts.map(({ verdict }, i) => `Part ${i + 1} (${verdict.aiScore}%): ${verdict.rationale}`).join('\n');
+
+    return { aiScore, passages, rationale, provider: provider.name, chunkCount: chunks.length, analyzedAt: new Date() };
+  }
+
+  private static async analyzeChunk(
+    text: string,
+    provider: LLMProvider,
+    chunkIndex: number,
+    chunkCount: number,
+    signal?: AbortSignal
+  ): Promise<ChunkVerdict> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: chunkCount > 1
+          ? `This is part ${chunkIndex + 1} of ${chunkCount} of the submission.\n\n${text}`
+          : text
+      }
+    ];
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        return this.parseVerdict(await provider.complete(messages, { signal, json: true }));
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (error instanceof LLMRequestError && !error.retryable) throw error;
+        lastError = error;
+        if (attempt < this.MAX_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY_MS * 2 ** (attempt - 1)));
+        }
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error('AI analysis failed.');
+  }
+
+  // Validates the model's answer against the verdict schema, tolerating a Markdown code fence around it
+  static parseVerdict(response: string): ChunkVerdict {
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch {
+      throw new Error('The AI provider did not return valid JSON.');
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      throw new Error('The AI verdict must be a JSON object.');
+    }
+    const { aiScore, passages, rationale } = value as Record<string, unknown>;
+
+    if (typeof aiScore !== 'number' || !Number.isFinite(aiScore) || aiScore < 0 || aiScore > 100) {
+      throw new Error('The AI verdict needs an "aiScore" between 0 and 100.');
+    }
+    if (typeof rationale !== 'string') {
+      throw new Error('The AI verdict needs a "rationale" string.');
+    }
+    if (!Array.isArray(passages)) {
+      throw new Error('The AI verdict needs a "passages" array.');
+    }
+    const validPassages = passages.map(passage => {
+      const { quote, reason } = (passage ?? {}) as Record<string, unknown>;
+      if (typeof quote !== 'string' || typeof reason !== 'string') {
+        throw new Error('Every AI verdict passage needs a "quote" and a "reason" string.');
+      }
+      return { quote, reason };
+    });
+
+    return { aiScore: Math.round(aiScore), passages: validPassages, rationale: rationale.trim() };
+  }
+
+  // Models quote rather than count characters, so offsets are recovered by searching the chunk.
+  // Falls back to a whitespace-insensitive search; quotes that can't be found are dropped.
+  private static locatePassage(
+    chunk: string,
+    passage: { quote: string; reason: string },
+    chunkStart: number
+  ): SuspiciousPassage | null {
+    const quote = passage.quote.trim();
+    if (!quote) return null;
+
+    let start = chunk.indexOf(quote);
+    let end = start + quote.length;
+    if (start === -1) {
+      const escaped = quote.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      const match = new RegExp(escaped.join('\\s+'), 'i').exec(chunk);
+      if (!match) return null;
+      start = match.index;
+      end = start + match[0].length;
+    }
+
+    return { start: chunkStart + start, end: chunkStart + end, text: chunk.slice(start, end), reason: passage.reason };
+  }
+
+  // Splits on paragraph or sentence boundaries close to CHUNK_SIZE, keeping each chunk's offset
+  private static splitIntoChunks(text: string): { text: string; start: number }[] {
+    const chunks: { text: string; start: number }[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + this.CHUNK_SIZE, text.length);
+      if (end < text.length) {
+        const window = text.slice(start, end);
+        const paragraphBreak = window.lastIndexOf('\n\n');
+        const sentenceBreak = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+        const breakAt = paragraphBreak > this.CHUNK_SIZE / 2 ? paragraphBreak + 2 : sentenceBreak > this.CHUNK_SIZE / 2 ? sentenceBreak + 2 : -1;
+        if (breakAt > 0) end = start + breakAt;
+      }
+
+      const chunk = text.slice(start, end);
+      if (chunk.trim()) chunks.push({ text: chunk, start });
+      start = end;
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AssignmentTemplates, AssignmentTemplate } from './assignmentTemplates';
+import { DetectionPipeline } from './detectionPipeline';
+import type { FileLike } from './fileLike';
+
+function textFile(name: string, content: string): FileLike {
+  return {
+    name,
+    type: 'text/plain',
+    size: content.length,
+    arrayBuffer: async () => new TextEncoder().encode(content).buffer,
+    text: async () => content
+  };
+}
+
+// Both go through the TXT extractor, which collapses line breaks like the PDF and DOCX ones do
+async function extract(name: string, lines: string[]): Promise<string> {
+  return (await DetectionPipeline.extract(textFile(name, lines.join('\n')))).text;
+}
+
+describe('AssignmentTemplates prose templates', () => {
+  it('excludes short template headings from extracted text', async () => {
+    const template: AssignmentTemplate = {
+      id: 'template',
+      assignment: 'Lab 2',
+      fileName: 'lab-2.txt',
+      content: await extract('lab-2.txt', [
+        'Part A: Hypothesis.',
+        'State what you expect to happen to the temperature of the water over twenty minutes and why.',
+        'Part B: Observations.',
+        'Record the temperature every two minutes in a table.'
+      ]),
+      addedAt: new Date('2026-10-01T12:00:00Z')
+    };
+    const submission = await extract('submission.txt', [
+      'Part A: Hypothesis.',
+      'I expected the beaker to lose heat quickly at first and then slowly as it neared room temperature.',
+      'Part B: Observations.',
+      'The water dropped from eighty degrees to fifty one degrees, with the biggest fall in the first four minutes.'
+    ]);
+
+    const excluded = AssignmentTemplates.findSpans(submission, [template]).map(span => submission.slice(span.start, span.end));
+    expect(excluded).toEqual(['Part A: Hypothesis', 'Part B: Observations']);
+  });
+});
@@ -0,0 +1,102 @@
+import { FingerprintIndex } from './fingerprintIndex';
+import { Tokenizer } from './tokenizer';
+import type { ExcludedSpan } from './documentStructure';
+import type { CodeLanguage } from './codeTokenizer';
+
+// Starter material handed out with an assignment: the prompt, headings, skeleton code. Text a
+// submission shares with one of its assignment's templates is left out of scoring.
+export interface AssignmentTemplate {
+  id: string;
+  assignment: string;
+  fileName: string;
+  content: string;
+  codeLanguage?: CodeLanguage;
+  addedAt: Date;
+}
+
+export class AssignmentTemplates {
+  // Short template lines and sentences (list markers, "a)", ...) are too common to attribute to the template
+  private static readonly MIN_SEGMENT_LENGTH = 8;
+
+  // Assignment names are compared without surrounding whitespace or case
+  static key(assignment: string | undefined): string {
+    return (assignment ?? '').trim().toLowerCase();
+  }
+
+  static forAssignment(templates: AssignmentTemplate[], assignment: string | undefined): AssignmentTemplate[] {
+    const key = this.key(assignment);
+    return key ? templates.filter(template => this.key(template.assignment) === key) : [];
+  }
+
+  // Parts of `text` taken from the templates: runs of shared fingerprints, plus whole template
+  // lines (code) or sentences (prose), which catches headings too short to share a fingerprint
+  static findSpans(text: string, templates: AssignmentTemplate[], codeLanguage?: CodeLanguage): ExcludedSpan[] {
+    const relevant = templates.filter(template => template.codeLanguage === codeLanguage);
+    if (relevant.length === 0) return [];
+
+    const index = FingerprintIndex.fromDocuments(relevant);
+    const spans: ExcludedSpan[] = index.query(text, undefined, codeLanguage).flatMap(candidate =>
+      candidate.regions.map(region => ({ kind: 'template' as const, start: region.queryStart, end: region.queryEnd }))
+    );
+    spans.push(...(codeLanguage ? this.findLines(text, relevant) : this.findSentences(text, relevant)));
+
+    return this.merge(spans);
+  }
+
+  // Share of the text's non-whitespace characters covered by the spans (0-100)
+  static coverage(text: string, spans: ExcludedSpan[]): number {
+    const total = text.replace(/\s/g, '').length;
+    if (total === 0) return 0;
+    const covered = spans.reduce((sum, span) => sum + text.slice(span.start, span.end).replace(/\s/g, '').length, 0);
+    return Math.round((covered / total) * 100);
+  }
+
+  // Code keeps its line breaks, so a template line only counts where it is a whole line of the text
+  private static findLines(text: string, templates: AssignmentTemplate[]): ExcludedSpan[] {
+    const templateLines = new Set(templates.flatMap(template => template.content.split('\n').map(line => this.normalizeLine(line))));
+    const spans: ExcludedSpan[] = [];
+    let offset = 0;
+    text.split('\n').forEach(line => {
+      const normalized = this.normalizeLine(line);
+      if (normalized.length >= this.MIN_SEGMENT_LENGTH && templateLines.has(normalized)) {
+        const start = offset + line.search(/\S/);
+        spans.push({ kind: 'template', start, end: start + line.trimEnd().length - line.search(/\S/) });
+      }
+      offset += line.length + 1;
+    });
+    return spans;
+  }
+
+  // Extracted prose has its line breaks collapsed, so headings and prompts are found by searching
+  // for each template sentence as a run of whole words
+  private static findSentences(text: string, templates: AssignmentTemplate[]): ExcludedSpan[] {
+    const sentences = new Set(templates.flatMap(template =>
+      Tokenizer.sentences(template.content)
+        .map(sentence => this.normalizeLine(sentence.text))
+        .filter(sentence => sentence.length >= this.MIN_SEGMENT_LENGTH)
+    ));
+
+    return [...sentences].flatMap(sentence => {
+      const words = sentence.split(' ').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+      return [...text.matchAll(pattern)].map(match => ({ kind: 'template' as const, start: match.index!, end: match.index! + match[0].length }));
+    });
+  }
+
+  private static normalizeLine(line: string): string {
+    return line.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private static merge(spans: ExcludedSpan[]): ExcludedSpan[] {
+    const merged: ExcludedSpan[] = [];
+    [...spans].sort((a, b) => a.start - b.start).forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+    return merged;
+  }
+}
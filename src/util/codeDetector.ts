@@ -0,0 +1,138 @@
+import { PlagiarismDetector, DetectionResult, MatchedSentence } from './plagiarismDetector';
+import { DEFAULT_DETECTION_CONFIG, DetectionConfig } from './detectionConfig';
+import type { Token, FingerprintIndex } from './fingerprintIndex';
+import { CodeTokenizer, CodeLanguage } from './codeTokenizer';
+import { checkFileSize, FileLike } from './fileLike';
+import { DocumentStructure, ExcludedSpan } from './documentStructure';
+import { SimilarityScore } from './similarityScore';
+
+interface AnalyzedSource {
+  tokens: Token[];
+  lineStarts: number[];
+}
+
+export class CodeDetector {
+  // Longer regions are compared on their first tokens only, which keeps the LCS table small
+  private static readonly MAX_COMPARED_TOKENS = 2000;
+
+  private static readonly sourceCache = new WeakMap<DetectionResult, AnalyzedSource>();
+
+  static async readSource(file: FileLike, maxFileSizeMB = DEFAULT_DETECTION_CONFIG.maxFileSizeMB): Promise<string> {
+    checkFileSize(file, maxFileSizeMB);
+    // Symbols and layout matter in code, so the text isn't cleaned like prose
+    return (await file.text()).replace(/\r\n?/g, '\n');
+  }
+
+  // Share of the submission's fingerprints found in the closest source in the same language; secondary to coverage.
+  // Fingerprints don't depend on where code sits in the file, so moving functions around doesn't lower it.
+  static calculateCorpusSimilarity(
+    text: string,
+    codeLanguage: CodeLanguage,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex
+  ): number {
+    const sameLanguage = new Set(existingResults.filter(result => result.codeLanguage === codeLanguage).map(result => result.id));
+    const scores = index.query(text, undefined, codeLanguage)
+      .filter(candidate => sameLanguage.has(candidate.documentId))
+      .map(candidate => candidate.score);
+    return SimilarityScore.closestSource(scores);
+  }
+
+  // Like prose, up to `maxMatches` scored matches come first, then those inside `excludedSpans`
+  static findMatches(
+    text: string,
+    codeLanguage: CodeLanguage,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex,
+    config: DetectionConfig,
+    excludedSpans: ExcludedSpan[] = []
+  ): MatchedSentence[] {
+    return PlagiarismDetector.limitMatches(this.findAllMatches(text, codeLanguage, existingResults, index, config, excludedSpans), config);
+  }
+
+  // Each region of shared fingerprints becomes one match, reported as line ranges in both files
+  static findAllMatches(
+    text: string,
+    codeLanguage: CodeLanguage,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex,
+    config: DetectionConfig,
+    excludedSpans: ExcludedSpan[]
+  ): MatchedSentence[] {
+    const resultsById = new Map(existingResults
+      .filter(result => result.codeLanguage === codeLanguage)
+      .map(result => [result.id, result]));
+    const tokens = CodeTokenizer.tokenize(text, codeLanguage);
+    const lineStarts = CodeTokenizer.lineStarts(text);
+    const matches: MatchedSentence[] = [];
+
+    index.query(text, undefined, codeLanguage).forEach(candidate => {
+      const result = resultsById.get(candidate.documentId);
+      if (!result) return;
+      const source = this.getCachedSource(result, codeLanguage);
+
+      candidate.regions.forEach(region => {
+        const suspectTokens = this.tokensIn(tokens, region.queryStart, region.queryEnd);
+        const sourceTokens = this.tokensIn(source.tokens, region.sourceStart, region.sourceEnd);
+        const similarity = this.tokenSimilarity(suspectTokens, sourceTokens);
+        if (similarity < config.similarityThreshold) return;
+
+        const startLine = CodeTokenizer.lineAt(lineStarts, region.queryStart);
+        const endLine = CodeTokenizer.lineAt(lineStarts, region.queryEnd - 1);
+        const snippet = text.slice(lineStarts[startLine - 1], lineStarts[endLine] ?? text.length).trim();
+        const verbatim = CodeTokenizer.raw(text, suspectTokens) === CodeTokenizer.raw(result.content, sourceTokens);
+
+        matches.push({
+          sentence: snippet.substring(0, 200) + (snippet.length > 200 ? '...' : ''),
+          similarity,
+          sourceFile: result.fileName,
+          // Identical apart from comments and layout, or the same structure with renamed identifiers or changed literals
+          matchType: verbatim ? 'verbatim' : 'near-verbatim',
+          sourceId: result.id,
+          start: region.queryStart,
+          end: region.queryEnd,
+          sourceStart: region.sourceStart,
+          sourceEnd: region.sourceEnd,
+          startLine,
+          endLine,
+          sourceStartLine: CodeTokenizer.lineAt(source.lineStarts, region.sourceStart),
+          sourceEndLine: CodeTokenizer.lineAt(source.lineStarts, region.sourceEnd - 1),
+          exclusion: DocumentStructure.classify(excludedSpans, region.queryStart, region.queryEnd)
+        });
+      });
+    });
+
+    return matches.sort((a, b) => b.similarity - a.similarity || (b.end! - b.start!) - (a.end! - a.start!));
+  }
+
+  private static getCachedSource(result: DetectionResult, codeLanguage: CodeLanguage): AnalyzedSource {
+    let source = this.sourceCache.get(result);
+    if (!source) {
+      source = { tokens: CodeTokenizer.tokenize(result.content, codeLanguage), lineStarts: CodeTokenizer.lineStarts(result.content) };
+      this.sourceCache.set(result, source);
+    }
+    return source;
+  }
+
+  private static tokensIn(tokens: Token[], start: number, end: number): Token[] {
+    return tokens.filter(token => token.start >= start && token.end <= end);
+  }
+
+  // Longest common subsequence of normalized tokens relative to both lengths (0-100), so
+  // inserted or deleted statements lower the score without hiding the match
+  private static tokenSimilarity(tokens1: Token[], tokens2: Token[]): number {
+    const a = tokens1.slice(0, this.MAX_COMPARED_TOKENS).map(token => token.value);
+    const b = tokens2.slice(0, this.MAX_COMPARED_TOKENS).map(token => token.value);
+    if (a.length === 0 || b.length === 0) return 0;
+
+    let previous = new Uint16Array(b.length + 1);
+    let current = new Uint16Array(b.length + 1);
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+      }
+      [previous, current] = [current, previous];
+    }
+    return Math.round((2 * previous[b.length] / (a.length + b.length)) * 100);
+  }
+}
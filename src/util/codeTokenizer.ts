@@ -0,0 +1,152 @@
+import type { Token } from './fingerprintIndex';
+
+export type CodeLanguage = 'python' | 'java' | 'c' | 'javascript';
+
+export const CODE_LANGUAGE_NAMES: Record<CodeLanguage, string> = {
+  python: 'Python',
+  java: 'Java',
+  c: 'C',
+  javascript: 'JavaScript'
+};
+
+export const CODE_MIME_TYPES: Record<CodeLanguage, string> = {
+  python: 'text/x-python',
+  java: 'text/x-java',
+  c: 'text/x-c',
+  javascript: 'text/javascript'
+};
+
+export const CODE_EXTENSIONS: Record<string, CodeLanguage> = {
+  '.py': 'python',
+  '.java': 'java',
+  '.c': 'c',
+  '.h': 'c',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascript'
+};
+
+const KEYWORDS: Record<CodeLanguage, string[]> = {
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+    'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not',
+    'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
+  ],
+  java: [
+    'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do', 'double',
+    'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements', 'import',
+    'instanceof', 'int', 'interface', 'long', 'new', 'null', 'private', 'protected', 'public', 'return', 'short',
+    'static', 'super', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'var', 'void', 'while'
+  ],
+  c: [
+    'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+    'float', 'for', 'goto', 'if', 'int', 'long', 'register', 'return', 'short', 'signed', 'sizeof', 'static',
+    'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while', 'NULL'
+  ],
+  javascript: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'in', 'instanceof', 'let', 'new', 'null',
+    'of', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void',
+    'while', 'yield'
+  ]
+};
+
+const KEYWORD_SETS = Object.fromEntries(
+  Object.entries(KEYWORDS).map(([language, keywords]) => [language, new Set(keywords)])
+) as Record<CodeLanguage, Set<string>>;
+
+// Import lines, include directives and the like are the same in every submission, so they're skipped
+const BOILERPLATE: Record<CodeLanguage, string> = {
+  python: String.raw`^[ \t]*(?:import|from)[ \t][^\n]*`,
+  java: String.raw`^[ \t]*(?:import|package)[ \t][^\n]*`,
+  c: String.raw`^[ \t]*#[ \t]*include[^\n]*`,
+  javascript: String.raw`^[ \t]*import[ \t][^\n]*`
+};
+
+const COMMENTS: Record<CodeLanguage, string> = {
+  // A triple-quoted string on its own line is a docstring
+  python: String.raw`#[^\n]*|^[ \t]*(?:"""[\s\S]*?"""|'''[\s\S]*?''')[ \t]*$`,
+  java: String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`,
+  c: String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`,
+  javascript: String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`
+};
+
+const STRINGS: Record<CodeLanguage, string> = {
+  python: String.raw`[rRbBfFuU]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')`,
+  java: String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])+'`,
+  c: String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])+'`,
+  javascript: String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\x60(?:\\.|[^\x60\\])*\x60`
+};
+
+const NUMBER = String.raw`\b(?:0[xX][0-9a-fA-F_]+|\d[\d_]*(?:\.\d*)?(?:[eE][+-]?\d+)?)[fFlLuUjJ]*`;
+const IDENTIFIER = String.raw`[A-Za-z_$][\w$]*`;
+const OPERATOR = String.raw`===|!==|\*\*=|>>>|<<=|>>=|\/\/=|==|!=|<=|>=|&&|\|\||\+\+|--|\+=|-=|\*=|\/=|%=|&=|\|=|\^=|->|=>|::|\*\*|\/\/|<<|>>|[^\s\w]`;
+
+// Comments and boilerplate are listed first so they win over operators and identifiers
+const PATTERNS = Object.fromEntries(
+  (Object.keys(KEYWORDS) as CodeLanguage[]).map(language => [
+    language,
+    new RegExp(
+      `(?<skip>${BOILERPLATE[language]}|${COMMENTS[language]})|(?<string>${STRINGS[language]})|(?<number>${NUMBER})|(?<identifier>${IDENTIFIER})|(?<operator>${OPERATOR})`,
+      'gm'
+    )
+  ])
+) as Record<CodeLanguage, RegExp>;
+
+export class CodeTokenizer {
+  static getLanguage(fileName: string): CodeLanguage | undefined {
+    const name = fileName.toLowerCase();
+    const extension = Object.keys(CODE_EXTENSIONS).find(candidate => name.endsWith(candidate));
+    return extension ? CODE_EXTENSIONS[extension] : undefined;
+  }
+
+  // Identifiers become ID and literals STR or NUM, so renaming variables or changing constants
+  // leaves the token sequence unchanged; keywords, operators and punctuation are kept as they are
+  static tokenize(source: string, language: CodeLanguage): Token[] {
+    const tokens: Token[] = [];
+    for (const match of source.matchAll(PATTERNS[language])) {
+      const groups = match.groups!;
+      if (groups.skip !== undefined) continue;
+
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (groups.string !== undefined) {
+        tokens.push({ value: 'STR', start, end });
+      } else if (groups.number !== undefined) {
+        tokens.push({ value: 'NUM', start, end });
+      } else if (groups.identifier !== undefined) {
+        tokens.push({ value: KEYWORD_SETS[language].has(match[0]) ? match[0] : 'ID', start, end });
+      } else {
+        tokens.push({ value: match[0], start, end });
+      }
+    }
+    return tokens;
+  }
+
+  // Source text of the tokens with comments and whitespace removed, for telling exact copies apart
+  static raw(source: string, tokens: Token[]): string {
+    return tokens.map(token => source.slice(token.start, token.end)).join(' ');
+  }
+
+  // Offsets at which each line starts, for turning character offsets into line numbers
+  static lineStarts(source: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+  }
+
+  // 1-based line number of `offset`
+  static lineAt(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+}
@@ -0,0 +1,155 @@
+import type { DetectionResult } from './plagiarismDetector';
+import { reviveDates } from './corpusRepository';
+
+export interface CourseAssignment {
+  name: string;
+  // Submissions uploaded after this are flagged as late
+  dueDate?: Date;
+}
+
+// One offering of a course; submissions are filed under it by name and term
+export interface Course {
+  id: string;
+  name: string;
+  // e.g. "Fall 2025"; offerings of the same course in other terms share the name
+  term?: string;
+  assignments: CourseAssignment[];
+}
+
+// Which part of the corpus a submission is compared against
+export type ComparisonScope = 'assignment' | 'course' | 'course-all-terms' | 'all';
+
+export const COMPARISON_SCOPES: ComparisonScope[] = ['assignment', 'course', 'course-all-terms', 'all'];
+
+export const COMPARISON_SCOPE_LABELS: Record<ComparisonScope, string> = {
+  assignment: 'Same assignment',
+  course: 'Same course',
+  'course-all-terms': 'Same course, all terms',
+  all: 'Everything'
+};
+
+export interface ScoreDistribution {
+  count: number;
+  mean: number;
+  median: number;
+  // Submissions per 10-point band of the score, 0-9 to 90-100
+  histogram: number[];
+  // Scores far above the rest of the assignment (beyond the upper quartile plus 1.5 interquartile ranges)
+  outliers: DetectionResult[];
+  late: DetectionResult[];
+}
+
+const COURSES_STORAGE_KEY = 'plagiarism-checker.courses';
+
+// Quartiles aren't meaningful for fewer submissions, so no outliers are picked out
+export const MIN_OUTLIER_SAMPLE = 4;
+
+export class Collections {
+  static load(): Course[] {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(COURSES_STORAGE_KEY) : null;
+      return stored ? reviveDates(JSON.parse(stored) as Course[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static save(courses: Course[]): void {
+    localStorage.setItem(COURSES_STORAGE_KEY, JSON.stringify(courses));
+  }
+
+  static createCourse(name: string, term: string): Course {
+    if (!name.trim()) {
+      throw new Error('Please give the course a name.');
+    }
+    return { id: `course-${Date.now()}`, name: name.trim(), term: term.trim() || undefined, assignments: [] };
+  }
+
+  static addAssignment(course: Course, name: string, dueDate?: Date): Course {
+    if (!name.trim()) {
+      throw new Error('Please give the assignment a name.');
+    }
+    if (course.assignments.some(assignment => this.key(assignment.name) === this.key(name))) {
+      throw new Error(`${course.name} already has an assignment called ${name.trim()}.`);
+    }
+    return { ...course, assignments: [...course.assignments, { name: name.trim(), dueDate }] };
+  }
+
+  // Names are compared without surrounding whitespace or case
+  static key(name: string | undefined): string {
+    return (name ?? '').trim().toLowerCase();
+  }
+
+  static formatCourse(course: Pick<Course, 'name' | 'term'>): string {
+    return course.term ? `${course.name} (${course.term})` : course.name;
+  }
+
+  static findCourse(courses: Course[], result: Pick<DetectionResult, 'course' | 'term'>): Course | undefined {
+    if (!result.course) return undefined;
+    return courses.find(course => this.key(course.name) === this.key(result.course) && this.key(course.term) === this.key(result.term));
+  }
+
+  static findAssignment(courses: Course[], result: DetectionResult): CourseAssignment | undefined {
+    return this.findCourse(courses, result)?.assignments.find(assignment => this.key(assignment.name) === this.key(result.assignment));
+  }
+
+  static isLate(courses: Course[], result: DetectionResult): boolean {
+    const dueDate = this.findAssignment(courses, result)?.dueDate;
+    return dueDate !== undefined && result.timestamp > dueDate;
+  }
+
+  // Submissions filed under the assignment of the given course offering
+  static forAssignment(results: DetectionResult[], course: Course, assignment: string): DetectionResult[] {
+    return results.filter(result =>
+      this.key(result.course) === this.key(course.name) &&
+      this.key(result.term) === this.key(course.term) &&
+      this.key(result.assignment) === this.key(assignment)
+    );
+  }
+
+  // Documents without a course or assignment are compared with others filed the same way, so
+  // unfiled uploads checked with a narrow scope only meet other unfiled uploads
+  static inScope(document: DetectionResult, candidate: DetectionResult, scope: ComparisonScope = 'all'): boolean {
+    if (scope === 'all') return true;
+    if (this.key(candidate.course) !== this.key(document.course)) return false;
+    if (scope === 'course-all-terms') return true;
+    if (this.key(candidate.term) !== this.key(document.term)) return false;
+    return scope === 'course' || this.key(candidate.assignment) === this.key(document.assignment);
+  }
+
+  static scopeCorpus(document: DetectionResult, corpus: DetectionResult[]): DetectionResult[] {
+    const scope = document.comparisonScope ?? 'all';
+    return scope === 'all' ? corpus : corpus.filter(candidate => this.inScope(document, candidate, scope));
+  }
+
+  static distribution(results: DetectionResult[], courses: Course[]): ScoreDistribution {
+    const scores = results.map(result => result.similarity).sort((a, b) => a - b);
+    const histogram = new Array(10).fill(0);
+    scores.forEach(score => histogram[Math.min(9, Math.floor(score / 10))]++);
+
+    let outliers: DetectionResult[] = [];
+    if (scores.length >= MIN_OUTLIER_SAMPLE) {
+      const q1 = this.quantile(scores, 0.25);
+      const q3 = this.quantile(scores, 0.75);
+      const fence = q3 + 1.5 * (q3 - q1);
+      outliers = results.filter(result => result.similarity > fence).sort((a, b) => b.similarity - a.similarity);
+    }
+
+    return {
+      count: scores.length,
+      mean: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+      median: scores.length > 0 ? Math.round(this.quantile(scores, 0.5)) : 0,
+      histogram,
+      outliers,
+      late: results.filter(result => this.isLate(courses, result))
+    };
+  }
+
+  // Linear interpolation between the closest ranks of sorted values
+  private static quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+}
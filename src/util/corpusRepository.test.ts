@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CORPUS_ARCHIVE_FORMAT, CORPUS_ARCHIVE_VERSION, createArchive, readArchive, readArchiveContents } from './corpusRepository';
+import type { AssignmentTemplate } from './assignmentTemplates';
+import type { DetectionResult } from './plagiarismDetector';
+
+const DOCUMENT: DetectionResult = {
+  id: 'a',
+  fileName: 'a.txt',
+  fileType: 'text/plain',
+  content: 'Essay about the causes of the industrial revolution in Britain.',
+  similarity: 0,
+  matches: [],
+  timestamp: new Date('2026-10-01T12:00:00Z'),
+  wordCount: 10,
+  language: 'en'
+};
+
+const TEMPLATE: AssignmentTemplate = {
+  id: 'template',
+  assignment: 'Essay 1',
+  fileName: 'prompt.txt',
+  content: 'Discuss the causes of the industrial revolution.',
+  addedAt: new Date('2026-09-01T08:00:00Z')
+};
+
+describe('corpus archives', () => {
+  it('carry the assignment templates along with the documents', async () => {
+    const contents = await readArchiveContents(createArchive([DOCUMENT], [TEMPLATE]));
+    expect(contents.documents).toEqual([DOCUMENT]);
+    expect(contents.templates).toEqual([TEMPLATE]);
+  });
+
+  it('still read archives from before templates were included', async () => {
+    const archive = new Blob([JSON.stringify({ format: CORPUS_ARCHIVE_FORMAT, schemaVersion: 3, exportedAt: '', documents: [DOCUMENT] })]);
+    expect(await readArchiveContents(archive)).toMatchObject({ documents: [{ id: 'a' }], templates: [] });
+    expect(await readArchive(archive)).toHaveLength(1);
+  });
+
+  it('refuse archives in a newer format', async () => {
+    const archive = new Blob([JSON.stringify({
+      format: CORPUS_ARCHIVE_FORMAT,
+      formatVersion: CORPUS_ARCHIVE_VERSION + 1,
+      schemaVersion: 3,
+      exportedAt: '',
+      documents: []
+    })]);
+    await expect(readArchiveContents(archive)).rejects.toThrow('Please update the app first.');
+  });
+});
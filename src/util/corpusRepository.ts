@@ -0,0 +1,128 @@
+import type { DetectionResult } from './plagiarismDetector';
+import type { AssignmentTemplate } from './assignmentTemplates';
+import { Language } from './language';
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  documentCount: number;
+}
+
+export interface CorpusArchive {
+  format: typeof CORPUS_ARCHIVE_FORMAT;
+  // Absent in archives from before assignment templates were included
+  formatVersion?: number;
+  schemaVersion: number;
+  exportedAt: string;
+  documents: DetectionResult[];
+  templates?: AssignmentTemplate[];
+}
+
+export interface ArchiveContents {
+  documents: DetectionResult[];
+  templates: AssignmentTemplate[];
+}
+
+export interface CorpusRepository {
+  list(): Promise<DetectionResult[]>;
+  get(id: string): Promise<DetectionResult | undefined>;
+  save(result: DetectionResult): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+  getStorageUsage(): Promise<StorageUsage>;
+  exportArchive(): Promise<Blob>;
+  importArchive(archive: Blob): Promise<number>;
+  // Assignment templates are kept apart from the documents and survive clearing the corpus
+  listTemplates(): Promise<AssignmentTemplate[]>;
+  saveTemplate(template: AssignmentTemplate): Promise<void>;
+  deleteTemplate(id: string): Promise<void>;
+}
+
+export const CORPUS_ARCHIVE_FORMAT = 'plagiarism-corpus';
+
+// 2: archives carry the assignment templates too
+export const CORPUS_ARCHIVE_VERSION = 2;
+
+// Bump together with a new entry in CORPUS_MIGRATIONS whenever the stored document shape changes
+export const CORPUS_SCHEMA_VERSION = 3;
+
+type StoredDocument = Record<string, unknown>;
+
+// Record-level migrations, keyed by the version they upgrade *to*. Used for both the
+// IndexedDB upgrade path and for archives exported by older versions of the app.
+export const CORPUS_MIGRATIONS: Record<number, (document: StoredDocument) => StoredDocument> = {
+  1: document => document,
+  // Documents are only compared against documents in a compatible language
+  2: document => ({
+    ...document,
+    language: document.language ?? Language.detect(typeof document.content === 'string' ? document.content : '')
+  }),
+  // Adds the assignment template store; documents gain optional fields only
+  3: document => document
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export function reviveDates<T>(value: T): T {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, reviveDates(item)])
+    ) as T;
+  }
+  return value;
+}
+
+export function migrateDocument(document: StoredDocument, fromVersion: number): DetectionResult {
+  let migrated = document;
+  for (let version = fromVersion + 1; version <= CORPUS_SCHEMA_VERSION; version++) {
+    migrated = CORPUS_MIGRATIONS[version](migrated);
+  }
+  return reviveDates(migrated) as unknown as DetectionResult;
+}
+
+export function createArchive(documents: DetectionResult[], templates: AssignmentTemplate[] = []): Blob {
+  const archive: CorpusArchive = {
+    format: CORPUS_ARCHIVE_FORMAT,
+    formatVersion: CORPUS_ARCHIVE_VERSION,
+    schemaVersion: CORPUS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    documents,
+    templates
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+}
+
+export async function readArchive(archive: Blob): Promise<DetectionResult[]> {
+  return (await readArchiveContents(archive)).documents;
+}
+
+export async function readArchiveContents(archive: Blob): Promise<ArchiveContents> {
+  let parsed: Partial<CorpusArchive>;
+  try {
+    parsed = JSON.parse(await archive.text());
+  } catch {
+    throw new Error('Invalid corpus archive. The file is not valid JSON.');
+  }
+
+  if (parsed.format !== CORPUS_ARCHIVE_FORMAT || !Array.isArray(parsed.documents)) {
+    throw new Error('Invalid corpus archive. The file was not exported by this tool.');
+  }
+
+  const schemaVersion = parsed.schemaVersion ?? 0;
+  if (schemaVersion > CORPUS_SCHEMA_VERSION || (parsed.formatVersion ?? 1) > CORPUS_ARCHIVE_VERSION) {
+    throw new Error(`This archive was created by a newer version (schema ${schemaVersion}). Please update the app first.`);
+  }
+
+  return {
+    documents: parsed.documents.map(document =>
+      migrateDocument(document as unknown as StoredDocument, schemaVersion)
+    ),
+    templates: Array.isArray(parsed.templates) ? parsed.templates.map(template => reviveDates(template)) : []
+  };
+}
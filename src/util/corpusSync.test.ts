@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { CorpusSync } from './corpusSync';
+import type { CorpusRepository } from './corpusRepository';
+import type { DetectionResult } from './plagiarismDetector';
+import { MemorySyncAdapter } from './syncAdapter';
+
+// The documents part of a corpus repository, kept in memory
+class MemoryRepository {
+  readonly documents = new Map<string, DetectionResult>();
+
+  async list() { return [...this.documents.values()]; }
+  async get(id: string) { return this.documents.get(id); }
+  async save(document: DetectionResult) { this.documents.set(document.id, document); }
+  async delete(id: string) { this.documents.delete(id); }
+}
+
+const SCOPE = { organizationId: 'demo-university' };
+
+function grader(adapter: MemorySyncAdapter, scope = SCOPE) {
+  const repository = new MemoryRepository();
+  return { repository, sync: new CorpusSync(repository as unknown as CorpusRepository, adapter, scope) };
+}
+
+function document(id: string, content = `Essay ${id} about the causes of the industrial revolution in Britain.`): DetectionResult {
+  return {
+    id,
+    fileName: `${id}.txt`,
+    fileType: 'text/plain',
+    content,
+    similarity: 0,
+    matches: [],
+    timestamp: new Date('2026-10-01T12:00:00Z'),
+    wordCount: content.split(' ').length
+  };
+}
+
+describe('CorpusSync with the in-memory backend', () => {
+  it('shares saved documents with other graders', async () => {
+    const adapter = new MemorySyncAdapter();
+    const first = grader(adapter);
+    const second = grader(adapter);
+
+    await first.sync.sync();
+    await first.repository.save(document('a'));
+    first.sync.recordSave(document('a'));
+    expect(await first.sync.sync()).toMatchObject({ pushed: 1 });
+
+    expect(await second.sync.sync()).toMatchObject({ pulled: 1, changed: true });
+    expect(second.repository.documents.get('a')?.timestamp).toEqual(new Date('2026-10-01T12:00:00Z'));
+  });
+
+  it('shares the documents checked before sharing was turned on', async () => {
+    const adapter = new MemorySyncAdapter();
+    const first = grader(adapter);
+    await first.repository.save(document('a'));
+    await first.repository.save(document('b'));
+
+    expect(await first.sync.sync()).toMatchObject({ pushed: 2 });
+    expect(first.sync.pendingCount).toBe(0);
+    expect((await grader(adapter).sync.sync()).pulled).toBe(2);
+  });
+
+  it('passes deletions on', async () => {
+    const adapter = new MemorySyncAdapter();
+    const first = grader(adapter);
+    const second = grader(adapter);
+    await first.repository.save(document('a'));
+    await first.sync.sync();
+    await second.sync.sync();
+
+    await first.repository.delete('a');
+    first.sync.recordDelete('a');
+    await first.sync.sync();
+    await second.sync.sync();
+    expect(second.repository.documents.has('a')).toBe(false);
+  });
+
+  it('keeps graders in other organizations apart', async () => {
+    const adapter = new MemorySyncAdapter();
+    const first = grader(adapter);
+    await first.repository.save(document('a'));
+    await first.sync.sync();
+
+    expect((await grader(adapter, { organizationId: 'other-university' }).sync.sync()).pulled).toBe(0);
+  });
+
+  it('keeps the version the shared corpus took first when both graders edit a document', async () => {
+    const adapter = new MemorySyncAdapter();
+    const first = grader(adapter);
+    const second = grader(adapter);
+    await first.repository.save(document('a'));
+    await first.sync.sync();
+    await second.sync.sync();
+
+    await second.repository.save(document('a', 'Shared first.'));
+    second.sync.recordSave(document('a', 'Shared first.'));
+    await second.sync.sync();
+    await first.repository.save(document('a', 'Edited later on this machine.'));
+    first.sync.recordSave(document('a', 'Edited later on this machine.'));
+
+    expect((await first.sync.sync()).conflicts).toEqual([{ id: 'a', fileName: 'a.txt' }]);
+    expect(first.repository.documents.get('a')?.content).toBe('Shared first.');
+    expect(first.sync.pendingCount).toBe(0);
+  });
+
+  it('sets refused changes aside instead of retrying them on every sync', async () => {
+    const adapter = new MemorySyncAdapter();
+    const other = grader(adapter, { organizationId: 'other-university' });
+    await other.repository.save(document('a'));
+    await other.sync.sync();
+
+    const first = grader(adapter);
+    await first.repository.save(document('a'));
+    const report = await first.sync.sync();
+    expect(report.rejected).toMatchObject([{ id: 'a', fileName: 'a.txt' }]);
+    expect(first.sync.pendingCount).toBe(0);
+    expect(first.sync.rejectedChanges).toHaveLength(1);
+    expect((await first.sync.sync()).rejected).toEqual([]);
+
+    first.sync.retryRejected();
+    expect(first.sync.pendingCount).toBe(1);
+    expect(first.sync.rejectedChanges).toEqual([]);
+  });
+});
@@ -0,0 +1,329 @@
+import type { DetectionResult } from './plagiarismDetector';
+import type { CorpusRepository } from './corpusRepository';
+import { CORPUS_SCHEMA_VERSION, migrateDocument } from './corpusRepository';
+import { FingerprintIndex } from './fingerprintIndex';
+import { MemorySyncAdapter, RemoteDocument, SyncAdapter, SyncChange, SyncRequestError, SyncScope } from './syncAdapter';
+import { SupabaseSyncAdapter } from './supabaseSyncAdapter';
+import { ReviewWorkflow } from './reviewWorkflow';
+
+// Both sides changed a document. The change the shared corpus took first wins, as the server's
+// revisions order changes reliably where graders' clocks may not; the local change is dropped.
+export interface SyncConflict {
+  id: string;
+  fileName: string;
+}
+
+// A local change the shared corpus refused; it's set aside rather than sent again on every sync
+export interface SyncRejection {
+  id: string;
+  fileName: string;
+  error: string;
+}
+
+export interface SyncReport {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+  rejected: SyncRejection[];
+  // Whether the local corpus changed, i.e. whether it needs to be reloaded
+  changed: boolean;
+}
+
+export type SyncAdapterType = 'supabase' | 'memory';
+
+export interface SyncSettings {
+  enabled: boolean;
+  type: SyncAdapterType;
+  // Project URL and public anon key; for the local stand-in, as printed by `npx supabase start`
+  url: string;
+  anonKey: string;
+  organizationId: string;
+  courseId: string;
+}
+
+interface OutboxEntry {
+  deleted: boolean;
+  changedAt: string;
+}
+
+interface RejectedEntry extends OutboxEntry {
+  fileName: string;
+  error: string;
+}
+
+interface SyncState {
+  // Scope the state belongs to; switching scope starts over
+  scopeKey: string;
+  // Highest remote revision pulled so far
+  cursor: number;
+  // Remote revision each local document is based on
+  revisions: Record<string, number>;
+  // Local changes not yet pushed, kept across reloads so edits made offline aren't lost
+  outbox: Record<string, OutboxEntry>;
+  // Changes the shared corpus refused, kept until they're retried or the document changes again
+  rejected?: Record<string, RejectedEntry>;
+  // Whether the documents already in the local corpus were queued when sharing was turned on
+  seeded?: boolean;
+  lastSyncedAt?: string;
+}
+
+const SETTINGS_STORAGE_KEY = 'plagiarism-checker.sync-settings';
+const STATE_STORAGE_KEY = 'plagiarism-checker.sync-state';
+const PULL_PAGE_SIZE = 200;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  type: 'supabase',
+  url: import.meta.env.VITE_SUPABASE_URL ?? 'http://127.0.0.1:54321',
+  anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY ?? '',
+  organizationId: '',
+  courseId: ''
+};
+
+export function getSyncScope(settings: SyncSettings): SyncScope {
+  if (!settings.organizationId.trim()) {
+    throw new Error('Sharing the corpus needs an organization. Check the sync settings.');
+  }
+  return { organizationId: settings.organizationId.trim(), courseId: settings.courseId.trim() || undefined };
+}
+
+// Keeps the local corpus and the shared corpus in step. The local repository stays the source of
+// truth for the app: changes are recorded in an outbox and pushed whenever a sync succeeds, so
+// checking documents works the same with or without a connection.
+export class CorpusSync {
+  private state: SyncState;
+  private running: Promise<SyncReport> | null = null;
+
+  constructor(
+    private readonly repository: CorpusRepository,
+    private readonly adapter: SyncAdapter,
+    private readonly scope: SyncScope
+  ) {
+    const scopeKey = `${scope.organizationId}/${scope.courseId ?? ''}`;
+    const stored = CorpusSync.loadState();
+    this.state = stored?.scopeKey === scopeKey ? stored : { scopeKey, cursor: 0, revisions: {}, outbox: {} };
+  }
+
+  get pendingCount(): number {
+    return Object.keys(this.state.outbox).length;
+  }
+
+  get rejectedChanges(): SyncRejection[] {
+    return Object.entries(this.state.rejected ?? {}).map(([id, { fileName, error }]) => ({ id, fileName, error }));
+  }
+
+  get lastSyncedAt(): Date | undefined {
+    return this.state.lastSyncedAt ? new Date(this.state.lastSyncedAt) : undefined;
+  }
+
+  recordSave(document: DetectionResult): void {
+    this.queue(document.id, { deleted: false, changedAt: new Date().toISOString() });
+  }
+
+  recordDelete(id: string): void {
+    this.queue(id, { deleted: true, changedAt: new Date().toISOString() });
+  }
+
+  // Sends refused changes again on the next sync, e.g. once the grader has been given access
+  retryRejected(): void {
+    Object.entries(this.state.rejected ?? {}).forEach(([id, { deleted, changedAt }]) => {
+      this.state.outbox[id] = { deleted, changedAt };
+    });
+    this.state.rejected = {};
+    this.saveState();
+  }
+
+  private queue(id: string, entry: OutboxEntry): void {
+    this.state.outbox[id] = entry;
+    if (this.state.rejected) delete this.state.rejected[id];
+    this.saveState();
+  }
+
+  // Pushes the outbox, then pulls what others changed. Calls made while a sync is running share it.
+  sync(): Promise<SyncReport> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run(): Promise<SyncReport> {
+    const report: SyncReport = { pushed: 0, pulled: 0, conflicts: [], rejected: [], changed: false };
+    try {
+      if (!this.state.seeded) await this.seedOutbox();
+      // Audit entries carried over in a conflict go out again on top of the remote revision
+      for (let attempt = 0; attempt < 2 && this.pendingCount > 0; attempt++) {
+        await this.push(report);
+      }
+      await this.pull(report);
+      this.state.lastSyncedAt = new Date().toISOString();
+    } finally {
+      this.saveState();
+    }
+    return report;
+  }
+
+  // Only later saves are recorded, so the corpus checked before sharing was turned on is queued once
+  private async seedOutbox(): Promise<void> {
+    for (const document of await this.repository.list()) {
+      if (this.state.outbox[document.id] || this.state.revisions[document.id] !== undefined) continue;
+      this.state.outbox[document.id] = { deleted: false, changedAt: document.timestamp.toISOString() };
+    }
+    this.state.seeded = true;
+  }
+
+  private async push(report: SyncReport): Promise<void> {
+    const changes: SyncChange[] = [];
+    for (const [id, entry] of Object.entries(this.state.outbox)) {
+      const baseRevision = this.state.revisions[id] ?? 0;
+      if (entry.deleted) {
+        // Never shared, so there's nothing to delete remotely
+        if (baseRevision === 0) {
+          delete this.state.outbox[id];
+        } else {
+          changes.push({ id, deleted: true, baseRevision, changedAt: entry.changedAt });
+        }
+        continue;
+      }
+
+      const document = await this.repository.get(id);
+      if (!document) {
+        delete this.state.outbox[id];
+        continue;
+      }
+      const fingerprints = FingerprintIndex.hashes(document.content, document.codeLanguage);
+      changes.push({ id, document, fingerprints, deleted: false, baseRevision, changedAt: entry.changedAt });
+    }
+    if (changes.length === 0) return;
+
+    const results = await this.adapter.push(this.scope, changes);
+    for (const result of results) {
+      const change = changes.find(candidate => candidate.id === result.id)!;
+      if (result.status === 'applied') {
+        this.state.revisions[result.id] = result.revision;
+        // Left in the outbox if it was changed again while the push was in flight
+        if (this.state.outbox[result.id]?.changedAt === change.changedAt) {
+          delete this.state.outbox[result.id];
+        }
+        report.pushed++;
+      } else if (result.status === 'rejected') {
+        const fileName = change.document?.fileName ?? result.id;
+        this.state.rejected = {
+          ...this.state.rejected,
+          [result.id]: { deleted: change.deleted, changedAt: change.changedAt, fileName, error: result.error }
+        };
+        delete this.state.outbox[result.id];
+        report.rejected.push({ id: result.id, fileName, error: result.error });
+      } else {
+        await this.resolveConflict(result.remote, change.document?.fileName, report);
+      }
+    }
+  }
+
+  private async pull(report: SyncReport): Promise<void> {
+    let page: RemoteDocument[];
+    do {
+      page = await this.adapter.pull(this.scope, this.state.cursor, PULL_PAGE_SIZE);
+      for (const remote of page) {
+        this.state.cursor = Math.max(this.state.cursor, remote.revision);
+        // Our own pushes come back on the next pull
+        if ((this.state.revisions[remote.id] ?? 0) >= remote.revision) continue;
+
+        if (this.state.outbox[remote.id]) {
+          const local = await this.repository.get(remote.id);
+          await this.resolveConflict(remote, local?.fileName, report);
+        } else {
+          await this.apply(remote);
+          this.state.revisions[remote.id] = remote.revision;
+          report.pulled++;
+          report.changed = true;
+        }
+      }
+    } while (page.length === PULL_PAGE_SIZE);
+  }
+
+  // Both sides changed the same document: the remote change, which the shared corpus took first,
+  // is kept and the local one dropped, except for review audit entries, which are append-only and
+  // carried over into the kept document
+  private async resolveConflict(remote: RemoteDocument, localFileName: string | undefined, report: SyncReport): Promise<void> {
+    const fileName = remote.document?.fileName ?? localFileName ?? remote.id;
+    const localDocument = await this.repository.get(remote.id);
+    const remoteDocument = remote.document && !remote.deleted && remote.schemaVersion <= CORPUS_SCHEMA_VERSION
+      ? migrateDocument(remote.document as unknown as Record<string, unknown>, remote.schemaVersion)
+      : undefined;
+
+    this.state.revisions[remote.id] = remote.revision;
+    delete this.state.outbox[remote.id];
+    await this.apply(remote);
+    report.conflicts.push({ id: remote.id, fileName });
+    report.changed = true;
+    if (localDocument && remoteDocument && (await this.saveMergedAudit(remoteDocument, localDocument))) {
+      this.recordSave(remoteDocument);
+    }
+  }
+
+  private async saveMergedAudit(kept: DetectionResult, other: DetectionResult): Promise<boolean> {
+    const merged = ReviewWorkflow.mergeAudit(kept, other);
+    if (merged === kept) return false;
+    await this.repository.save(merged);
+    return true;
+  }
+
+  private async apply(remote: RemoteDocument): Promise<void> {
+    if (remote.deleted || !remote.document) {
+      await this.repository.delete(remote.id);
+      return;
+    }
+    if (remote.schemaVersion > CORPUS_SCHEMA_VERSION) {
+      throw new SyncRequestError(
+        `The shared corpus holds documents from a newer version (schema ${remote.schemaVersion}). Please update the app first.`,
+        false
+      );
+    }
+    await this.repository.save(
+      migrateDocument(remote.document as unknown as Record<string, unknown>, remote.schemaVersion)
+    );
+  }
+
+  private saveState(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(this.state));
+    } catch {
+      // The outbox only holds ids, so this is only hit when storage is completely full
+      console.warn('Could not save the corpus sync state.');
+    }
+  }
+
+  private static loadState(): SyncState | undefined {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STATE_STORAGE_KEY) : null;
+      return stored ? JSON.parse(stored) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export function createSyncAdapter(settings: SyncSettings): SyncAdapter {
+  if (settings.type === 'memory') return new MemorySyncAdapter();
+  if (!settings.url || !settings.anonKey) {
+    throw new Error('Sharing the corpus needs the project URL and anon key. Check the sync settings.');
+  }
+  return new SupabaseSyncAdapter(settings.url, settings.anonKey);
+}
+
+export function loadSyncSettings(): SyncSettings {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return stored ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SYNC_SETTINGS;
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+export function saveSyncSettings(settings: SyncSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
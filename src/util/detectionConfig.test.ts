@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PROFILES, DEFAULT_DETECTION_CONFIG, DetectionProfiles, getSimilarityBand, validateDetectionConfig } from './detectionConfig';
+
+describe('validateDetectionConfig', () => {
+  it('fills in defaults for missing fields', () => {
+    expect(validateDetectionConfig({})).toEqual(DEFAULT_DETECTION_CONFIG);
+    expect(validateDetectionConfig({ maxMatches: 12 })).toEqual({ ...DEFAULT_DETECTION_CONFIG, maxMatches: 12 });
+  });
+
+  it('accepts every built-in profile', () => {
+    BUILT_IN_PROFILES.forEach(profile => expect(validateDetectionConfig(profile.config)).toEqual(profile.config));
+  });
+
+  it('rejects numbers outside their range or with fractions', () => {
+    expect(() => validateDetectionConfig({ similarityThreshold: 0 })).toThrow('Sentence match threshold (%) must be a whole number from 1 to 100.');
+    expect(() => validateDetectionConfig({ maxMatches: 2.5 })).toThrow('must be a whole number');
+    expect(() => validateDetectionConfig({ minWordLength: '3' })).toThrow('must be a whole number');
+  });
+
+  it('rejects toggles that are not booleans', () => {
+    expect(() => validateDetectionConfig({ semanticMatching: 'yes' })).toThrow('Detect paraphrases must be on or off.');
+  });
+
+  it('rejects overlapping similarity bands', () => {
+    expect(() => validateDetectionConfig({ lowBand: 50, highBand: 50 })).toThrow('low similarity band');
+  });
+
+  it('drops fields it does not know', () => {
+    expect(validateDetectionConfig({ unknown: true })).not.toHaveProperty('unknown');
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => validateDetectionConfig(null)).toThrow('Detection settings must be an object.');
+  });
+});
+
+describe('getSimilarityBand', () => {
+  it('bands scores by the configured thresholds', () => {
+    const config = { lowBand: 10, highBand: 25 };
+    expect(getSimilarityBand(9, config)).toBe('low');
+    expect(getSimilarityBand(10, config)).toBe('medium');
+    expect(getSimilarityBand(25, config)).toBe('high');
+  });
+});
+
+describe('DetectionProfiles.create', () => {
+  it('validates the settings of a new profile', () => {
+    expect(DetectionProfiles.create(' Strict ', DEFAULT_DETECTION_CONFIG).name).toBe('Strict');
+    expect(() => DetectionProfiles.create(' ', DEFAULT_DETECTION_CONFIG)).toThrow('Please give the profile a name.');
+  });
+});
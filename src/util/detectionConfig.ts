@@ -0,0 +1,194 @@
+export interface DetectionConfig {
+  // Sentences shorter than this many characters are not compared
+  minSentenceLength: number;
+  // Shorter words are ignored when comparing sentences and documents
+  minWordLength: number;
+  // Sentence similarity (0-100) needed to report a match
+  similarityThreshold: number;
+  // Most matches listed per document (and again for excluded matches)
+  maxMatches: number;
+  // Documents with less extracted text than this many characters are rejected
+  minContentLength: number;
+  // Overall similarity below `lowBand` is low, at or above `highBand` is high, medium in between
+  lowBand: number;
+  highBand: number;
+  // Also compare sentence embeddings, which finds paraphrases outside fingerprint-matched regions
+  semanticMatching: boolean;
+  excludeQuotations: boolean;
+  excludeCitations: boolean;
+  excludeBibliography: boolean;
+  // Larger uploads are rejected
+  maxFileSizeMB: number;
+  // Look for white and invisible text on every PDF page. Off, only pages with little text or with tiny
+  // text are checked, as reading a page's drawing operators decodes all of its images.
+  scanHiddenText: boolean;
+}
+
+export interface DetectionProfile {
+  id: string;
+  name: string;
+  config: DetectionConfig;
+  // Built-in profiles can be copied but not changed or deleted
+  builtIn?: boolean;
+}
+
+export type SimilarityBand = 'low' | 'medium' | 'high';
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  minSentenceLength: 15,
+  minWordLength: 3,
+  similarityThreshold: 75,
+  maxMatches: 5,
+  minContentLength: 50,
+  lowBand: 20,
+  highBand: 50,
+  semanticMatching: true,
+  excludeQuotations: true,
+  excludeCitations: true,
+  excludeBibliography: true,
+  maxFileSizeMB: 100,
+  scanHiddenText: false
+};
+
+export const BUILT_IN_PROFILES: DetectionProfile[] = [
+  { id: 'default', name: 'Default', builtIn: true, config: DEFAULT_DETECTION_CONFIG },
+  {
+    id: 'strict-thesis',
+    name: 'Strict thesis',
+    builtIn: true,
+    config: {
+      ...DEFAULT_DETECTION_CONFIG,
+      minSentenceLength: 10,
+      similarityThreshold: 60,
+      maxMatches: 25,
+      lowBand: 10,
+      highBand: 25
+    }
+  },
+  {
+    id: 'lenient-homework',
+    name: 'Lenient homework',
+    builtIn: true,
+    config: {
+      ...DEFAULT_DETECTION_CONFIG,
+      minSentenceLength: 25,
+      similarityThreshold: 85,
+      semanticMatching: false,
+      lowBand: 30,
+      highBand: 60
+    }
+  }
+];
+
+// Allowed range of every numeric setting
+const NUMERIC_RANGES: Record<keyof DetectionConfig, [number, number] | null> = {
+  minSentenceLength: [1, 500],
+  minWordLength: [1, 20],
+  similarityThreshold: [1, 100],
+  maxMatches: [1, 100],
+  minContentLength: [1, 10000],
+  lowBand: [0, 100],
+  highBand: [0, 100],
+  semanticMatching: null,
+  excludeQuotations: null,
+  excludeCitations: null,
+  excludeBibliography: null,
+  maxFileSizeMB: [1, 1000],
+  scanHiddenText: null
+};
+
+export const CONFIG_LABELS: Record<keyof DetectionConfig, string> = {
+  minSentenceLength: 'Minimum sentence length (characters)',
+  minWordLength: 'Minimum word length',
+  similarityThreshold: 'Sentence match threshold (%)',
+  maxMatches: 'Matches listed per document',
+  minContentLength: 'Minimum document length (characters)',
+  lowBand: 'Low similarity below (%)',
+  highBand: 'High similarity from (%)',
+  semanticMatching: 'Detect paraphrases',
+  excludeQuotations: 'Exclude quotations',
+  excludeCitations: 'Exclude citations',
+  excludeBibliography: 'Exclude bibliography',
+  maxFileSizeMB: 'Largest file accepted (MB)',
+  scanHiddenText: 'Scan every PDF page for hidden text (slower)'
+};
+
+const PROFILES_STORAGE_KEY = 'plagiarism-checker.detection-profiles';
+
+// Checks every field and returns a clean copy; missing fields take their default
+export function validateDetectionConfig(value: unknown): DetectionConfig {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Detection settings must be an object.');
+  }
+  const input = value as Record<string, unknown>;
+  const config = { ...DEFAULT_DETECTION_CONFIG };
+
+  (Object.keys(NUMERIC_RANGES) as (keyof DetectionConfig)[]).forEach(key => {
+    const field = input[key];
+    if (field === undefined) return;
+
+    const range = NUMERIC_RANGES[key];
+    if (range) {
+      if (typeof field !== 'number' || !Number.isInteger(field) || field < range[0] || field > range[1]) {
+        throw new Error(`${CONFIG_LABELS[key]} must be a whole number from ${range[0]} to ${range[1]}.`);
+      }
+    } else if (typeof field !== 'boolean') {
+      throw new Error(`${CONFIG_LABELS[key]} must be on or off.`);
+    }
+    (config as Record<string, unknown>)[key] = field;
+  });
+
+  if (config.lowBand >= config.highBand) {
+    throw new Error('The low similarity band must end below where the high band starts.');
+  }
+  return config;
+}
+
+export function getSimilarityBand(similarity: number, config: Pick<DetectionConfig, 'lowBand' | 'highBand'> = DEFAULT_DETECTION_CONFIG): SimilarityBand {
+  if (similarity < config.lowBand) return 'low';
+  if (similarity < config.highBand) return 'medium';
+  return 'high';
+}
+
+export class DetectionProfiles {
+  static load(): { profiles: DetectionProfile[]; activeProfileId: string } {
+    const fallback = { profiles: BUILT_IN_PROFILES, activeProfileId: BUILT_IN_PROFILES[0].id };
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(PROFILES_STORAGE_KEY) : null;
+      if (!stored) return fallback;
+
+      const parsed = JSON.parse(stored) as { profiles?: unknown[]; activeProfileId?: string };
+      // Skip saved profiles that no longer validate rather than losing all of them
+      const custom = (parsed.profiles ?? []).flatMap(profile => {
+        try {
+          const { id, name, config } = profile as Partial<DetectionProfile>;
+          if (typeof id !== 'string' || typeof name !== 'string') return [];
+          return [{ id, name, config: validateDetectionConfig(config) }];
+        } catch {
+          return [];
+        }
+      });
+      const profiles = [...BUILT_IN_PROFILES, ...custom];
+      const activeProfileId = profiles.some(profile => profile.id === parsed.activeProfileId)
+        ? parsed.activeProfileId!
+        : fallback.activeProfileId;
+      return { profiles, activeProfileId };
+    } catch {
+      return fallback;
+    }
+  }
+
+  // Only custom profiles are stored; built-ins always come from the code
+  static save(profiles: DetectionProfile[], activeProfileId: string): void {
+    const custom = profiles.filter(profile => !profile.builtIn);
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ profiles: custom, activeProfileId }));
+  }
+
+  static create(name: string, config: DetectionConfig): DetectionProfile {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Please give the profile a name.');
+    }
+    return { id: `profile-${Date.now()}`, name: trimmed, config: validateDetectionConfig(config) };
+  }
+}
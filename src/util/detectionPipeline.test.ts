@@ -0,0 +1,168 @@
+import { createHash } from 'node:crypto';
+import { deflateSync } from 'node:zlib';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as pdfjsLib from 'pdfjs-dist';
+import { DetectionPipeline } from './detectionPipeline';
+import { DEFAULT_DETECTION_CONFIG } from './detectionConfig';
+import type { FileLike } from './fileLike';
+
+// Every page of the benchmark carries a page of text and an incompressible 900x900 scan-sized image
+// (about 2.4MB), so 24 pages make a file well beyond the old 20MB limit
+const BENCHMARK_PAGES = 24;
+const BENCHMARK_BUDGET_MS = 30_000;
+const IMAGE_SIDE = 900;
+const WORDS = 'the of analysis thesis method results data model study evidence chapter figure'.split(' ');
+
+interface SyntheticPage {
+  // Content stream operators; the image, if any, is available as /Im0 and the font as /F1
+  content: string;
+  image?: boolean;
+}
+
+// Seeded xorshift, so runs are comparable and the image data doesn't compress
+function createRandom(seed = 2463534242) {
+  return () => {
+    seed ^= seed << 13;
+    seed >>>= 0;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    seed >>>= 0;
+    return seed / 4294967296;
+  };
+}
+
+function buildPDF(pages: SyntheticPage[], random = createRandom()): Uint8Array {
+  // The catalog and page tree are filled in last, as objects 1 and 2
+  const objects: Buffer[] = [Buffer.alloc(0), Buffer.alloc(0)];
+  const add = (body: Buffer) => objects.push(body);
+  const stream = (dictionary: string, data: Buffer) =>
+    add(Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`), data, Buffer.from('\nendstream')]));
+  const font = add(Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'));
+
+  const kids = pages.map(page => {
+    let xObjects = '';
+    if (page.image) {
+      const pixels = Buffer.alloc(IMAGE_SIDE * IMAGE_SIDE * 3);
+      for (let i = 0; i < pixels.length; i++) pixels[i] = (random() * 256) | 0;
+      const image = stream(
+        `/Type /XObject /Subtype /Image /Width ${IMAGE_SIDE} /Height ${IMAGE_SIDE} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode`,
+        deflateSync(pixels, { level: 1 })
+      );
+      xObjects = `/XObject << /Im0 ${image} 0 R >>`;
+    }
+    const contents = stream('', Buffer.from(page.content));
+    return add(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${contents} 0 R /Resources << /Font << /F1 ${font} 0 R >> ${xObjects} >> >>`
+    ));
+  });
+
+  objects[0] = Buffer.from('<< /Type /Catalog /Pages 2 0 R >>');
+  objects[1] = Buffer.from(`<< /Type /Pages /Kids [${kids.map(kid => `${kid} 0 R`).join(' ')}] /Count ${kids.length} >>`);
+
+  const parts = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    parts.push(object);
+    length += object.length;
+  });
+  const xref = offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  parts.push(Buffer.from(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`
+  ));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+const textLines = (lines: string[], fontSize = 10) =>
+  lines.map((line, i) => `BT /F1 ${fontSize} Tf 50 ${760 - i * 12} Td (${line}) Tj ET`).join('\n');
+
+function randomTextPage(random: () => number): string {
+  const lines = Array.from({ length: 40 }, () =>
+    `${Array.from({ length: 12 }, () => WORDS[(random() * WORDS.length) | 0]).join(' ')}.`
+  );
+  return `q 200 0 0 200 300 50 cm /Im0 Do Q\n${textLines(lines)}`;
+}
+
+// Counts reads, so tests can tell how often the upload was loaded
+function pdfFile(bytes: Uint8Array): FileLike & { reads: number } {
+  return {
+    name: 'thesis.pdf',
+    type: 'application/pdf',
+    size: bytes.length,
+    reads: 0,
+    async arrayBuffer() {
+      this.reads++;
+      return bytes.slice().buffer;
+    },
+    async text() {
+      return Buffer.from(bytes).toString('latin1');
+    }
+  };
+}
+
+// Spies on pdf.js pages by way of a page of a throwaway document, as the page class isn't exported
+async function spyOnOperatorLists() {
+  const pdf = await pdfjsLib.getDocument({ data: buildPDF([{ content: '' }]), verbosity: 0 }).promise;
+  const spy = vi.spyOn(Object.getPrototypeOf(await pdf.getPage(1)), 'getOperatorList');
+  await pdf.destroy();
+  return spy;
+}
+
+const PROSE = 'Rivers carry sediment from the mountains to the sea, where it settles and slowly builds wide deltas.';
+
+describe('DetectionPipeline PDF extraction', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it(`extracts a PDF of more than 20MB within ${BENCHMARK_BUDGET_MS / 1000}s`, async () => {
+    const random = createRandom();
+    const bytes = buildPDF(Array.from({ length: BENCHMARK_PAGES }, () => ({ content: randomTextPage(random), image: true })), random);
+    expect(bytes.length).toBeGreaterThan(20 * 1024 * 1024);
+
+    const started = performance.now();
+    const document = await DetectionPipeline.extract(pdfFile(bytes));
+    const elapsed = performance.now() - started;
+
+    console.info(`Extracted ${(bytes.length / 1024 / 1024).toFixed(1)}MB in ${(elapsed / 1000).toFixed(2)}s`);
+    expect(document.pageCount).toBe(BENCHMARK_PAGES);
+    expect(document.pageMap).toHaveLength(BENCHMARK_PAGES);
+    expect(elapsed).toBeLessThan(BENCHMARK_BUDGET_MS);
+  }, BENCHMARK_BUDGET_MS * 2);
+
+  it('rejects files above the profile size limit before reading them', async () => {
+    const file = pdfFile(buildPDF([{ content: textLines([PROSE]) }]));
+    const profile = { id: 'tiny', name: 'Tiny', config: { ...DEFAULT_DETECTION_CONFIG, maxFileSizeMB: 1 } };
+    Object.defineProperty(file, 'size', { value: 2 * 1024 * 1024 });
+
+    await expect(DetectionPipeline.load(file, { profile })).rejects.toThrow('File size exceeds 1MB limit. Current size: 2.0MB');
+    expect(file.reads).toBe(0);
+  });
+
+  it('reads the upload once and hashes what it read', async () => {
+    const bytes = buildPDF([{ content: textLines([PROSE]) }]);
+    const file = pdfFile(bytes);
+
+    const document = await DetectionPipeline.load(file);
+    expect(file.reads).toBe(1);
+    expect(document.fileHash).toBe(createHash('sha256').update(bytes).digest('hex'));
+    expect(document.content).toBe(PROSE);
+  });
+
+  it('only reads the drawing operators of pages whose text looks suspect', async () => {
+    const getOperatorList = await spyOnOperatorLists();
+    const bytes = buildPDF([
+      { content: textLines([PROSE]) },
+      { content: `${textLines([PROSE])}\nBT /F1 1 Tf 50 100 Td (tiny filler text inserted here) Tj ET\n1 1 1 rg BT /F1 10 Tf 50 80 Td (white padding nobody can see) Tj ET` }
+    ]);
+
+    const document = await DetectionPipeline.extract(pdfFile(bytes));
+    expect(getOperatorList).toHaveBeenCalledTimes(1);
+    expect(document.obfuscation?.map(finding => [finding.pageNumber, finding.detail])).toEqual([
+      [2, '1.0 pt text'],
+      [2, 'white text']
+    ]);
+  });
+});
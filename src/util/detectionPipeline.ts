@@ -0,0 +1,292 @@
+import { PageAssembler, PDFExtractor, PageConfidence, PageRange } from './pdfEXtractor';
+import { DOCXExtractor, DOCX_MIME_TYPE } from './docxExtractor';
+import { PlagiarismDetector, DetectionResult, MatchedSentence } from './plagiarismDetector';
+import { FingerprintIndex } from './fingerprintIndex';
+import { DocumentStructure } from './documentStructure';
+import { Language, UNDETERMINED_LANGUAGE } from './language';
+import { BUILT_IN_PROFILES, DetectionProfile } from './detectionConfig';
+import { CodeDetector } from './codeDetector';
+import { CODE_MIME_TYPES, CodeLanguage, CodeTokenizer } from './codeTokenizer';
+import { checkFileSize, FileLike } from './fileLike';
+import { AssignmentTemplate, AssignmentTemplates } from './assignmentTemplates';
+import { Stylometry } from './stylometry';
+import { SimilarityScore } from './similarityScore';
+import { ReviewWorkflow } from './reviewWorkflow';
+import { Collections, ComparisonScope } from './collections';
+import type { ObfuscationFinding } from './obfuscationAnalyzer';
+
+export type DetectionStage = 'queued' | 'extracting' | 'ocr' | 'matching' | 'complete';
+
+export interface DetectionProgress {
+  stage: DetectionStage;
+  page?: number;
+  pageCount?: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  fileType: string;
+  pageCount?: number;
+  skipped?: string[];
+  pages?: PageConfidence[];
+  pageMap?: PageRange[];
+  codeLanguage?: CodeLanguage;
+  obfuscation?: ObfuscationFinding[];
+}
+
+// Who a new upload is from, where it's filed and what it's compared against
+export interface SubmissionDetails {
+  course?: string;
+  term?: string;
+  assignment?: string;
+  studentId?: string;
+  // Student who wrote the upload
+  author?: string;
+  // Defaults to the whole corpus
+  scope?: ComparisonScope;
+}
+
+interface PipelineOptions extends SubmissionDetails {
+  signal?: AbortSignal;
+  onProgress?: (progress: DetectionProgress) => void;
+  // Defaults to the built-in default profile
+  profile?: DetectionProfile;
+  // OCR needs a canvas, so it is only available in browsers
+  enableOCR?: boolean;
+  // Templates of all assignments; those of the document's assignment are left out of scoring
+  templates?: AssignmentTemplate[];
+}
+
+// An upload whose contents have already been read, so the extractors don't read it again
+function readFile(file: FileLike, bytes: ArrayBuffer): FileLike {
+  return {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    arrayBuffer: async () => bytes,
+    text: async () => new TextDecoder().decode(bytes)
+  };
+}
+
+export class DetectionPipeline {
+  static async extract(file: FileLike, options: PipelineOptions = {}): Promise<ExtractedDocument> {
+    const { signal, onProgress, enableOCR, profile = BUILT_IN_PROFILES[0] } = options;
+    const { maxFileSizeMB, scanHiddenText } = profile.config;
+    onProgress?.({ stage: 'extracting' });
+
+    // Checked by extension first, as browsers report code files with all sorts of MIME types
+    const codeLanguage = CodeTokenizer.getLanguage(file.name);
+    if (codeLanguage) {
+      return { text: await CodeDetector.readSource(file, maxFileSizeMB), fileType: CODE_MIME_TYPES[codeLanguage], codeLanguage };
+    } else if (file.type === 'application/pdf') {
+      // Pages are taken as pdf.js reads them; only their cleaned text is kept
+      const assembler = new PageAssembler();
+      const pageStream = PDFExtractor.streamPages(file, {
+        signal,
+        enableOCR,
+        scanHiddenText,
+        maxFileSizeMB,
+        onProgress: ({ page, pageCount, ocr }) => onProgress?.({ stage: ocr ? 'ocr' : 'extracting', page, pageCount })
+      });
+      for await (const chunk of pageStream) {
+        assembler.add(chunk);
+      }
+      const result = assembler.finish(enableOCR);
+      return {
+        text: result.text,
+        fileType: file.type,
+        pageCount: result.pageCount,
+        pages: result.pages,
+        pageMap: result.pageMap,
+        obfuscation: result.obfuscation
+      };
+    } else if (DOCXExtractor.isDocx(file)) {
+      const result = await DOCXExtractor.extractText(file, { maxFileSizeMB });
+      return {
+        text: result.text,
+        fileType: DOCX_MIME_TYPE,
+        pageCount: result.pageCount,
+        skipped: result.skipped,
+        obfuscation: result.obfuscation
+      };
+    } else if (file.type === 'text/plain') {
+      const { text, findings } = await PDFExtractor.extractFromTXT(file, maxFileSizeMB);
+      return { text, fileType: file.type, obfuscation: findings };
+    } else {
+      throw new Error('Unsupported file type. Please upload a PDF, DOCX, TXT or source code file.');
+    }
+  }
+
+  static async run(
+    file: FileLike,
+    corpus: DetectionResult[],
+    index: FingerprintIndex,
+    options: PipelineOptions = {}
+  ): Promise<DetectionResult> {
+    return this.match(await this.load(file, options), corpus, index, options);
+  }
+
+  // Extracts a document without scoring it, e.g. to add it to a reference corpus
+  static async load(file: FileLike, options: PipelineOptions = {}): Promise<DetectionResult> {
+    const { signal, profile = BUILT_IN_PROFILES[0], course, term, assignment, studentId, author, scope } = options;
+
+    // The upload is read once, and hashed before extraction as pdf.js may take over its buffer
+    checkFileSize(file, profile.config.maxFileSizeMB);
+    const bytes = await file.arrayBuffer();
+    const fileHash = await this.hashBytes(bytes);
+
+    let extracted: ExtractedDocument;
+    try {
+      extracted = await this.extract(readFile(file, bytes), options);
+    } catch (error) {
+      // Aborting tears down pdf.js mid-load, which surfaces as its own error type
+      signal?.throwIfAborted();
+      throw error;
+    }
+
+    const { text: content, fileType, pageCount, skipped, pages, pageMap, codeLanguage, obfuscation } = extracted;
+    if (content.length < profile.config.minContentLength) {
+      throw new Error('File content is too short for meaningful plagiarism detection.');
+    }
+
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      fileName: file.name,
+      fileType,
+      content,
+      similarity: 0,
+      matches: [],
+      // Comments aside, code isn't written in a natural language
+      language: codeLanguage ? UNDETERMINED_LANGUAGE : Language.detect(content),
+      codeLanguage,
+      timestamp: new Date(),
+      wordCount: PlagiarismDetector.getWordCount(content),
+      pageCount,
+      skippedContent: skipped,
+      pages,
+      pageMap,
+      fileHash,
+      fileSize: file.size,
+      obfuscation: obfuscation?.length ? obfuscation : undefined,
+      course: course?.trim() || undefined,
+      term: course?.trim() ? term?.trim() || undefined : undefined,
+      assignment: assignment?.trim() || undefined,
+      studentId: studentId?.trim() || undefined,
+      author: author?.trim() || undefined,
+      comparisonScope: scope
+    };
+  }
+
+  // Scores an already extracted document again, e.g. under a different profile. The document
+  // itself is left out of the corpus it's compared against.
+  static async rerun(
+    document: DetectionResult,
+    corpus: DetectionResult[],
+    index: FingerprintIndex,
+    options: PipelineOptions = {}
+  ): Promise<DetectionResult> {
+    return this.match(document, corpus.filter(result => result.id !== document.id), index, options);
+  }
+
+  private static async match(
+    document: DetectionResult,
+    corpus: DetectionResult[],
+    index: FingerprintIndex,
+    options: PipelineOptions
+  ): Promise<DetectionResult> {
+    const { signal, onProgress, profile = BUILT_IN_PROFILES[0], templates = [] } = options;
+    const { content, pageMap, codeLanguage, assignment } = document;
+    // A copy, so later edits to the profile don't rewrite how this result was produced
+    const profileSnapshot = { id: profile.id, name: profile.name, config: { ...profile.config } };
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'matching' });
+
+    // The author's earlier work is their style baseline whichever course it was written for, so
+    // only matching is limited to the comparison scope
+    const scopedCorpus = Collections.scopeCorpus(document, corpus);
+    const assignmentTemplates = AssignmentTemplates.forAssignment(templates, assignment);
+    const templateSpans = AssignmentTemplates.findSpans(content, assignmentTemplates, codeLanguage);
+    const templateCoverage = assignmentTemplates.length > 0 ? AssignmentTemplates.coverage(content, templateSpans) : undefined;
+
+    if (codeLanguage) {
+      // Starter code is blanked out for the closest-source figure, the same way excluded prose is
+      const closestSourceSimilarity = CodeDetector.calculateCorpusSimilarity(
+        DocumentStructure.mask(content, templateSpans),
+        codeLanguage,
+        scopedCorpus,
+        index
+      );
+      const allMatches = CodeDetector.findAllMatches(content, codeLanguage, scopedCorpus, index, profile.config, templateSpans);
+      const { scored, dismissed } = this.splitDismissed(document, allMatches);
+      const score = SimilarityScore.compute(content, scored, templateSpans);
+      const listed = [...PlagiarismDetector.limitMatches(scored, profile.config), ...dismissed];
+      onProgress?.({ stage: 'complete' });
+      return {
+        ...document,
+        similarity: score.coverage,
+        closestSourceSimilarity,
+        sources: score.sources,
+        matches: listed.filter(match => !match.exclusion),
+        excludedMatches: listed.filter(match => match.exclusion),
+        excludedSpans: templateSpans,
+        templateCoverage,
+        profile: profileSnapshot
+      };
+    }
+
+    // Quoted, cited, bibliography and template text is left out of the score
+    const excludedSpans = [
+      ...DocumentStructure.select(DocumentStructure.analyze(content), profile.config),
+      ...templateSpans
+    ].sort((a, b) => a.start - b.start);
+    const closestSourceSimilarity = PlagiarismDetector.calculateCorpusSimilarity(
+      DocumentStructure.mask(content, excludedSpans),
+      scopedCorpus,
+      index,
+      profile.config
+    );
+    const allMatches = PlagiarismDetector.locatePages(
+      PlagiarismDetector.findAllMatches(content, scopedCorpus, index, profile.config, excludedSpans),
+      pageMap,
+      scopedCorpus
+    );
+    const { scored, dismissed } = this.splitDismissed(document, allMatches);
+    const score = SimilarityScore.compute(content, scored, excludedSpans);
+    const listed = [...PlagiarismDetector.limitMatches(scored, profile.config), ...dismissed];
+
+    // Quotations and template text weren't written by the student, so they'd blur their style
+    const style = Stylometry.analyze(DocumentStructure.mask(content, excludedSpans), document.language);
+    const authorConsistency = Stylometry.compareWithAuthor({ ...document, style }, corpus);
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'complete' });
+
+    return {
+      ...document,
+      similarity: score.coverage,
+      closestSourceSimilarity,
+      sources: score.sources,
+      matches: listed.filter(match => !match.exclusion),
+      excludedMatches: listed.filter(match => match.exclusion),
+      excludedSpans,
+      templateCoverage,
+      style,
+      authorConsistency,
+      profile: profileSnapshot
+    };
+  }
+
+  // Matches a reviewer dismissed stay listed, after the rest, so they can be restored, but aren't scored
+  private static splitDismissed(document: DetectionResult, matches: MatchedSentence[]) {
+    const scored: MatchedSentence[] = [];
+    const dismissed: MatchedSentence[] = [];
+    matches.forEach(match => (ReviewWorkflow.isDismissed(document, match) ? dismissed : scored).push(match));
+    return { scored, dismissed };
+  }
+
+  private static async hashBytes(bytes: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
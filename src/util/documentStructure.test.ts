@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentStructure } from './documentStructure';
+
+// Extracted text has its line breaks collapsed, as it comes out of the PDF and DOCX extractors
+const PROSE = [
+  'Coral reefs cover a small fraction of the ocean floor but shelter a quarter of all marine species.',
+  'Warmer water makes the corals expel the algae they live with, which leaves them pale and starving.',
+  'Reefs that bleach every few years have no time to recover before the next heat wave arrives.',
+  'Local fishing communities lose both their income and the protection the reefs give their coastline.',
+  'Restoration projects grow coral fragments in nurseries and plant them back on damaged reefs.'
+].join(' ');
+
+const BIBLIOGRAPHY = 'References Hughes, T. P. (2018). Spatial and temporal patterns of mass bleaching of corals. Science, 359, 80-83. ' +
+  'Smith, J., & Lee, K. (2020). Reef restoration in practice. Marine Policy, 112, 103-117.';
+
+const bibliography = (text: string) => DocumentStructure.analyze(text).filter(span => span.kind === 'bibliography');
+
+describe('DocumentStructure bibliography detection', () => {
+  it('excludes a reference list at the end of the text', () => {
+    const text = `${PROSE} ${PROSE} ${BIBLIOGRAPHY}`;
+    expect(bibliography(text)).toEqual([{ kind: 'bibliography', start: text.indexOf('References'), end: text.length }]);
+  });
+
+  it('keeps scoring the text after a sentence that starts with "References"', () => {
+    const text = `${PROSE} ${PROSE}. References to Smith (2019) show that reefs can recover within a decade. ${PROSE} ${PROSE}`;
+    expect(bibliography(text)).toEqual([]);
+  });
+
+  it('starts the reference list at its own heading rather than an earlier mention', () => {
+    const text = `${PROSE} ${PROSE}. References to Smith (2019) show that reefs can recover within a decade. ${PROSE} ${BIBLIOGRAPHY}`;
+    expect(bibliography(text)).toEqual([{ kind: 'bibliography', start: text.lastIndexOf('References'), end: text.length }]);
+  });
+});
@@ -0,0 +1,125 @@
+// Template spans come from the assignment's templates rather than from the text's own structure
+export type ExclusionKind = 'quotation' | 'citation' | 'bibliography' | 'template';
+
+export interface ExcludedSpan {
+  kind: ExclusionKind;
+  start: number;
+  end: number;
+}
+
+// Per-run toggles; each defaults to excluding
+export interface ExclusionOptions {
+  excludeQuotations?: boolean;
+  excludeCitations?: boolean;
+  excludeBibliography?: boolean;
+}
+
+export const EXCLUSION_LABELS: Record<ExclusionKind, string> = {
+  quotation: 'Quotation',
+  citation: 'Citation',
+  bibliography: 'Bibliography',
+  template: 'Assignment template'
+};
+
+const YEAR = '(?:1[5-9]|20)\\d{2}[a-z]?';
+const SURNAME = "[A-Z][A-Za-z'’-]+";
+const AUTHORS = `${SURNAME}(?:(?:,? (?:and|&) ${SURNAME})| et al\\.)?`;
+
+// "(Smith, 2020)", "(Smith & Lee, 2020, p. 4)", "(see Smith, 2020; Lee, n.d.)"
+const APA_PARENTHETICAL = new RegExp(`\\((?=[^()]*[A-Z])[^()]{0,150}?(?:\\b${YEAR}\\b|\\bn\\.d\\.)[^()]{0,60}\\)`, 'g');
+// "Smith (2020)", "Smith and Lee (2020, p. 4)", "Smith et al. (2020)"
+const APA_NARRATIVE = new RegExp(`\\b${AUTHORS} \\(${YEAR}(?:, pp?\\. ?\\d+(?:[-–]\\d+)?)?\\)`, 'g');
+// "(Smith 23)", "(Smith and Lee 45-47)", "(Smith et al. 12)"
+const MLA_PARENTHETICAL = new RegExp(`\\(${AUTHORS} \\d+(?:[-–]\\d+)?\\)`, 'g');
+// "[1]", "[1, 3]", "[2-5]", "[2]–[5]"
+const IEEE_REFERENCE = /\[\d+(?:\s*[-–,]\s*\d+)*\](?:\s*[-–]\s*\[\d+\])?/g;
+
+const QUOTATION_PATTERNS = [/"([^"]{3,1500})"/g, /“([^”]{3,1500})”/g, /«([^»]{3,1500})»/g, /„([^“”]{3,1500})[“”]/g];
+
+// "References", "Bibliography", "Works Cited" headings
+const BIBLIOGRAPHY_HEADING = /(?:^|[\s.])(References|REFERENCES|Reference List|Bibliography|BIBLIOGRAPHY|Works Cited|WORKS CITED|Literature Cited|Sources Cited)\b:?/g;
+// Years, "n.d." and "Smith, J." author names, of which every reference entry carries at least one
+const REFERENCE_MARKER = new RegExp(`\\b${YEAR}\\b|\\bn\\.d\\.|\\b${SURNAME}, [A-Z]\\.`, 'g');
+
+export class DocumentStructure {
+  // Quotes shorter than this many words are left alone, as they are usually terms rather than borrowed text
+  private static readonly MIN_QUOTATION_WORDS = 3;
+  // A bibliography heading only counts in the later part of the document, so a
+  // "References" mentioned in the introduction doesn't swallow the whole text
+  private static readonly MIN_BIBLIOGRAPHY_POSITION = 0.4;
+  // Reference entries run to a few dozen words at most, each with a year or author name, so
+  // text with fewer markers than this is prose that merely starts with "References"
+  private static readonly MAX_WORDS_PER_REFERENCE_MARKER = 20;
+
+  static analyze(text: string): ExcludedSpan[] {
+    return [
+      ...this.findQuotations(text),
+      ...this.findCitations(text),
+      ...this.findBibliography(text)
+    ].sort((a, b) => a.start - b.start);
+  }
+
+  static select(spans: ExcludedSpan[], options: ExclusionOptions = {}): ExcludedSpan[] {
+    const { excludeQuotations = true, excludeCitations = true, excludeBibliography = true } = options;
+    return spans.filter(span =>
+      (span.kind === 'quotation' && excludeQuotations) ||
+      (span.kind === 'citation' && excludeCitations) ||
+      (span.kind === 'bibliography' && excludeBibliography)
+    );
+  }
+
+  // Blanks out excluded spans with spaces, so offsets into the text stay valid
+  static mask(text: string, spans: ExcludedSpan[]): string {
+    if (spans.length === 0) return text;
+    const chars = text.split('');
+    spans.forEach(span => chars.fill(' ', span.start, span.end));
+    return chars.join('');
+  }
+
+  // The kind of exclusion covering most of [start, end), if excluded spans cover at least half of it
+  static classify(spans: ExcludedSpan[], start: number, end: number): ExclusionKind | undefined {
+    const covered = new Map<ExclusionKind, number>();
+    const coveredOffsets = new Set<number>();
+    spans.forEach(span => {
+      const from = Math.max(span.start, start);
+      const to = Math.min(span.end, end);
+      if (from >= to) return;
+      covered.set(span.kind, (covered.get(span.kind) ?? 0) + to - from);
+      for (let i = from; i < to; i++) coveredOffsets.add(i);
+    });
+
+    if (coveredOffsets.size * 2 < end - start) return undefined;
+    return [...covered.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  private static findQuotations(text: string): ExcludedSpan[] {
+    return QUOTATION_PATTERNS.flatMap(pattern =>
+      [...text.matchAll(pattern)]
+        .filter(match => match[1].trim().split(/\s+/).length >= this.MIN_QUOTATION_WORDS)
+        .map(match => ({ kind: 'quotation' as const, start: match.index!, end: match.index! + match[0].length }))
+    );
+  }
+
+  private static findCitations(text: string): ExcludedSpan[] {
+    return [APA_PARENTHETICAL, APA_NARRATIVE, MLA_PARENTHETICAL, IEEE_REFERENCE].flatMap(pattern =>
+      [...text.matchAll(pattern)].map(match => ({ kind: 'citation' as const, start: match.index!, end: match.index! + match[0].length }))
+    );
+  }
+
+  // Everything from the last heading to the end of the text, if what follows reads like a
+  // reference list. Extracted text has no line breaks, so a sentence starting with "References"
+  // looks just like a heading and must not take the rest of the submission with it.
+  private static findBibliography(text: string): ExcludedSpan[] {
+    const start = [...text.matchAll(BIBLIOGRAPHY_HEADING)]
+      .map(match => match.index! + match[0].indexOf(match[1]))
+      .filter(index => index >= text.length * this.MIN_BIBLIOGRAPHY_POSITION)
+      .pop();
+    if (start === undefined) return [];
+
+    const entries = text.slice(start);
+    const wordCount = entries.split(/\s+/).filter(Boolean).length;
+    const markerCount = [...entries.matchAll(REFERENCE_MARKER)].length;
+    if (markerCount === 0 || wordCount > markerCount * this.MAX_WORDS_PER_REFERENCE_MARKER) return [];
+    return [{ kind: 'bibliography', start, end: text.length }];
+  }
+}
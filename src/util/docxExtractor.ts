@@ -0,0 +1,178 @@
+import mammoth from 'mammoth';
+import { ExtractedContent, PDFExtractor } from './pdfEXtractor';
+import { checkFileSize, FileLike } from './fileLike';
+import { DEFAULT_DETECTION_CONFIG } from './detectionConfig';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+interface DocxExtractionOptions {
+  includeHeadings?: boolean;
+  includeFootnotes?: boolean;
+  includeTables?: boolean;
+  maxFileSizeMB?: number;
+}
+
+// Minimal view of the document tree mammoth hands to transformDocument
+interface DocxElement {
+  type: string;
+  children?: DocxElement[];
+  value?: string;
+  styleId?: string | null;
+  styleName?: string | null;
+  noteType?: string;
+  noteId?: string;
+  body?: DocxElement[];
+}
+
+interface DocxDocument extends DocxElement {
+  notes: { resolve: (reference: DocxElement) => DocxElement | null };
+  comments: DocxElement[];
+}
+
+interface WalkState {
+  blocks: string[];
+  headings: number;
+  images: number;
+  footnotes: number;
+  tables: number;
+  comments: number;
+}
+
+export class DOCXExtractor {
+  private static readonly MIN_TEXT_LENGTH = 10;
+
+  static isDocx(file: FileLike): boolean {
+    return file.type === DOCX_MIME_TYPE || file.name.toLowerCase().endsWith('.docx');
+  }
+
+  static async extractText(file: FileLike, options: DocxExtractionOptions = {}): Promise<ExtractedContent> {
+    const {
+      includeHeadings = true,
+      includeFootnotes = true,
+      includeTables = true,
+      maxFileSizeMB = DEFAULT_DETECTION_CONFIG.maxFileSizeMB
+    } = options;
+
+    checkFileSize(file, maxFileSizeMB);
+
+    const state: WalkState = { blocks: [], headings: 0, images: 0, footnotes: 0, tables: 0, comments: 0 };
+    const footnoteBlocks: string[] = [];
+
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      // mammoth's browser build reads an ArrayBuffer, its Node build a Buffer
+      const input = typeof Buffer === 'undefined' ? { arrayBuffer } : { buffer: Buffer.from(arrayBuffer) };
+      await mammoth.convertToHtml(
+        input,
+        {
+          // We only need the document tree, so don't inline image data into the HTML
+          convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+          transformDocument: (document: DocxDocument) => {
+            state.comments = document.comments.length;
+            this.walk(document.children ?? [], state, { includeHeadings, includeTables }, (reference) => {
+              const note = document.notes.resolve(reference);
+              if (!note?.body) return;
+              state.footnotes++;
+              if (includeFootnotes) {
+                footnoteBlocks.push(this.collectText(note.body));
+              }
+            });
+            return document;
+          }
+        }
+      );
+    } catch (error) {
+      if (error instanceof Error && /zip|central directory/i.test(error.message)) {
+        throw new Error('Invalid DOCX file. The file may be corrupted.');
+      }
+      throw new Error('Failed to process DOCX. The file may be corrupted or in an unsupported format.');
+    }
+
+    const { text: cleanedText, findings } = PDFExtractor.inspectText([...state.blocks, ...footnoteBlocks].join('\n'));
+
+    if (cleanedText.length < this.MIN_TEXT_LENGTH) {
+      throw new Error('No readable text found in this DOCX. The document may be empty or contain only images.');
+    }
+
+    const skipped: string[] = [];
+    if (!includeHeadings && state.headings > 0) skipped.push(`${state.headings} heading(s)`);
+    if (!includeFootnotes && state.footnotes > 0) skipped.push(`${state.footnotes} footnote(s)`);
+    if (!includeTables && state.tables > 0) skipped.push(`${state.tables} table(s)`);
+    if (state.images > 0) skipped.push(`${state.images} embedded image(s)`);
+    if (state.comments > 0) skipped.push(`${state.comments} comment(s)`);
+
+    return {
+      text: cleanedText,
+      // DOCX has no fixed pagination, so report heading-delimited sections instead
+      pageCount: Math.max(1, state.headings),
+      hasImages: state.images > 0,
+      skipped,
+      obfuscation: findings
+    };
+  }
+
+  private static walk(
+    elements: DocxElement[],
+    state: WalkState,
+    options: Required<Pick<DocxExtractionOptions, 'includeHeadings' | 'includeTables'>>,
+    onNoteReference: (reference: DocxElement) => void
+  ): void {
+    elements.forEach(element => {
+      switch (element.type) {
+        case 'paragraph': {
+          const isHeading = this.isHeading(element);
+          if (isHeading) state.headings++;
+          this.countInline(element.children ?? [], state, onNoteReference);
+          if (!isHeading || options.includeHeadings) {
+            const text = this.collectText(element.children ?? []);
+            if (text.trim()) state.blocks.push(text);
+          }
+          break;
+        }
+        case 'table': {
+          state.tables++;
+          if (options.includeTables) {
+            // Each cell becomes its own block so cell text doesn't run together
+            this.walk(element.children ?? [], state, options, onNoteReference);
+          } else {
+            this.countInline(element.children ?? [], state, onNoteReference);
+          }
+          break;
+        }
+        default:
+          this.walk(element.children ?? [], state, options, onNoteReference);
+      }
+    });
+  }
+
+  private static countInline(
+    elements: DocxElement[],
+    state: WalkState,
+    onNoteReference: (reference: DocxElement) => void
+  ): void {
+    elements.forEach(element => {
+      if (element.type === 'image') {
+        state.images++;
+      } else if (element.type === 'noteReference') {
+        onNoteReference(element);
+      } else if (element.children) {
+        this.countInline(element.children, state, onNoteReference);
+      }
+    });
+  }
+
+  private static collectText(elements: DocxElement[]): string {
+    return elements
+      .map(element => {
+        if (element.type === 'text') return element.value ?? '';
+        if (element.type === 'tab' || element.type === 'break') return ' ';
+        if (element.type === 'paragraph') return this.collectText(element.children ?? []) + '\n';
+        return this.collectText(element.children ?? []);
+      })
+      .join('');
+  }
+
+  private static isHeading(paragraph: DocxElement): boolean {
+    return /^(heading|title)/i.test(paragraph.styleName ?? '') || /^(heading|title)/i.test(paragraph.styleId ?? '');
+  }
+}
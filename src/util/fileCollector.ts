@@ -0,0 +1,56 @@
+import { CODE_EXTENSIONS } from './codeTokenizer';
+
+const SUPPORTED_EXTENSIONS = ['.pdf', '.docx', '.txt', ...Object.keys(CODE_EXTENSIONS)];
+
+// For the `accept` attribute of file inputs
+export const ACCEPTED_FILES = SUPPORTED_EXTENSIONS.join(',');
+
+export class FileCollector {
+  static isSupported(file: { name: string }): boolean {
+    const name = file.name.toLowerCase();
+    return SUPPORTED_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  static fromList(files: FileList | null): File[] {
+    return Array.from(files ?? []).filter(file => this.isSupported(file));
+  }
+
+  // Walks dropped files and folders (recursively); unsupported files are skipped
+  static async fromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+      return this.fromList(dataTransfer.files);
+    }
+
+    const files = (await Promise.all(entries.map(entry => this.readEntry(entry)))).flat();
+    return files
+      .filter(file => this.isSupported(file))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private static async readEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return [file];
+    }
+    if (entry.isDirectory) {
+      const children = await this.readDirectory(entry as FileSystemDirectoryEntry);
+      return (await Promise.all(children.map(child => this.readEntry(child)))).flat();
+    }
+    return [];
+  }
+
+  private static async readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) return entries;
+      entries.push(...batch);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// The parts of the browser File API the extractors rely on. Browser Files satisfy it as they are;
+// the CLI wraps files read from disk.
+export interface FileLike {
+  name: string;
+  type: string;
+  size: number;
+  arrayBuffer(): Promise<ArrayBuffer>;
+  text(): Promise<string>;
+}
+
+export function checkFileSize(file: FileLike, maxSizeMB: number): void {
+  if (file.size > maxSizeMB * 1024 * 1024) {
+    throw new Error(`File size exceeds ${maxSizeMB}MB limit. Current size: ${(file.size / 1024 / 1024).toFixed(1)}MB`);
+  }
+}
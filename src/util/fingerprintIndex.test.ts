@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { FingerprintIndex } from './fingerprintIndex';
+
+const SOURCE = 'Photosynthesis converts light energy into chemical energy that is stored in glucose molecules. ' +
+  'Plants absorb carbon dioxide through small pores in their leaves called stomata.';
+const UNRELATED = 'The medieval castle was surrounded by a deep moat and guarded by archers on every tower of the wall.';
+
+describe('FingerprintIndex', () => {
+  it('finds a copied passage and maps it back to both texts', () => {
+    const index = FingerprintIndex.fromDocuments([{ id: 'source', content: SOURCE }, { id: 'other', content: UNRELATED }]);
+    const query = `In my essay I explain that ${SOURCE.slice(0, 95)} This is why plants are green.`;
+
+    const [candidate, ...rest] = index.query(query);
+    expect(candidate.documentId).toBe('source');
+    expect(rest).toEqual([]);
+
+    const [region] = candidate.regions;
+    expect(query.slice(region.queryStart, region.queryEnd)).toContain('light energy into chemical energy');
+    expect(SOURCE.slice(region.sourceStart, region.sourceEnd)).toContain('light energy into chemical energy');
+  });
+
+  it('still matches after inflection changes', () => {
+    const index = FingerprintIndex.fromDocuments([{ id: 'source', content: SOURCE }]);
+    const [candidate] = index.query('Photosynthesis converted light energies into chemical energy which is stored in glucose molecule.');
+    expect(candidate?.documentId).toBe('source');
+  });
+
+  it('scores the share of the query found in a source', () => {
+    const index = FingerprintIndex.fromDocuments([{ id: 'source', content: SOURCE }]);
+    expect(index.query(SOURCE)[0].score).toBe(100);
+  });
+
+  it('leaves out the excluded document and removed documents', () => {
+    const index = FingerprintIndex.fromDocuments([{ id: 'source', content: SOURCE }, { id: 'copy', content: SOURCE }]);
+    expect(index.query(SOURCE, 'source').map(candidate => candidate.documentId)).toEqual(['copy']);
+
+    index.remove('copy');
+    expect(index.has('copy')).toBe(false);
+    expect(index.query(SOURCE, 'source')).toEqual([]);
+  });
+
+  it('counts fingerprints shared between indexed documents', () => {
+    const index = FingerprintIndex.fromDocuments([
+      { id: 'a', content: SOURCE },
+      { id: 'b', content: `${SOURCE} ${UNRELATED}` },
+      { id: 'c', content: UNRELATED }
+    ]);
+    const shared = index.sharedFingerprintCounts('a');
+    expect(shared.get('b')).toBe(index.fingerprintCount('a'));
+    expect(shared.has('c')).toBe(false);
+  });
+
+  it('keeps code apart from prose and from other languages', () => {
+    const code = 'def total(values):\n    result = 0\n    for value in values:\n        result += value\n    return result\n';
+    const index = new FingerprintIndex();
+    index.add('python', code, 'python');
+    index.add('prose', code);
+    expect(index.query(code, undefined, 'python').map(candidate => candidate.documentId)).toEqual(['python']);
+    expect(index.query(code, undefined, 'javascript')).toEqual([]);
+  });
+});
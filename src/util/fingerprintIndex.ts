@@ -0,0 +1,269 @@
+import { TextNormalizer } from './textNormalizer';
+import { Tokenizer } from './tokenizer';
+import { CodeTokenizer, CodeLanguage } from './codeTokenizer';
+
+export interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface Fingerprint {
+  hash: number;
+  // Index of the first token of the k-gram
+  position: number;
+}
+
+export interface MatchedRegion {
+  queryStart: number;
+  queryEnd: number;
+  sourceStart: number;
+  sourceEnd: number;
+}
+
+export interface CandidateSource {
+  documentId: string;
+  sharedFingerprints: number;
+  // Share of the query's fingerprints found in this source (0-100)
+  score: number;
+  regions: MatchedRegion[];
+}
+
+interface Posting {
+  documentId: string;
+  position: number;
+}
+
+interface IndexedDocument {
+  tokens: Token[];
+  hashes: Set<number>;
+}
+
+interface Hit {
+  queryPosition: number;
+  sourcePosition: number;
+}
+
+export class FingerprintIndex {
+  // Tokens per k-gram and winnowing window size: any shared run of at least
+  // K + WINDOW - 1 tokens is guaranteed to produce a shared fingerprint.
+  private static readonly K = 4;
+  private static readonly WINDOW = 4;
+  // Code tokens are much finer grained (every operator and bracket is one), so code needs longer k-grams
+  private static readonly CODE_K = 10;
+  private static readonly CODE_WINDOW = 6;
+  // Hits further apart than this many tokens start a new region
+  private static readonly MAX_REGION_GAP = 8;
+
+  private readonly postings = new Map<number, Posting[]>();
+  private readonly documents = new Map<string, IndexedDocument>();
+
+  static fromDocuments(documents: { id: string; content: string; codeLanguage?: CodeLanguage }[]): FingerprintIndex {
+    const index = new FingerprintIndex();
+    documents.forEach(document => index.add(document.id, document.content, document.codeLanguage));
+    return index;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(documentId: string): boolean {
+    return this.documents.has(documentId);
+  }
+
+  // Fingerprints in `ignored` (e.g. those of assignment templates) aren't counted
+  fingerprintCount(documentId: string, ignored?: ReadonlySet<number>): number {
+    const hashes = this.documents.get(documentId)?.hashes;
+    if (!hashes) return 0;
+    if (!ignored) return hashes.size;
+    let count = 0;
+    hashes.forEach(hash => {
+      if (!ignored.has(hash)) count++;
+    });
+    return count;
+  }
+
+  // Number of distinct fingerprints an indexed document shares with every other indexed document
+  sharedFingerprintCounts(documentId: string, ignored?: ReadonlySet<number>): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.documents.get(documentId)?.hashes.forEach(hash => {
+      if (ignored?.has(hash)) return;
+      const seen = new Set<string>();
+      (this.postings.get(hash) ?? []).forEach(posting => {
+        if (posting.documentId === documentId || seen.has(posting.documentId)) return;
+        seen.add(posting.documentId);
+        counts.set(posting.documentId, (counts.get(posting.documentId) ?? 0) + 1);
+      });
+    });
+    return counts;
+  }
+
+  // Source code is fingerprinted on its own token stream, in a hash space of its own, so it
+  // only ever matches code in the same language
+  add(documentId: string, text: string, codeLanguage?: CodeLanguage): void {
+    if (this.documents.has(documentId)) {
+      this.remove(documentId);
+    }
+
+    const tokens = FingerprintIndex.tokenize(text, codeLanguage);
+    const fingerprints = FingerprintIndex.winnow(tokens, codeLanguage);
+    const hashes = new Set<number>();
+
+    fingerprints.forEach(({ hash, position }) => {
+      hashes.add(hash);
+      const list = this.postings.get(hash);
+      if (list) {
+        list.push({ documentId, position });
+      } else {
+        this.postings.set(hash, [{ documentId, position }]);
+      }
+    });
+
+    this.documents.set(documentId, { tokens, hashes });
+  }
+
+  remove(documentId: string): void {
+    const document = this.documents.get(documentId);
+    if (!document) return;
+
+    document.hashes.forEach(hash => {
+      const remaining = (this.postings.get(hash) ?? []).filter(posting => posting.documentId !== documentId);
+      if (remaining.length > 0) {
+        this.postings.set(hash, remaining);
+      } else {
+        this.postings.delete(hash);
+      }
+    });
+    this.documents.delete(documentId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+  }
+
+  // Only looks at postings for the query's own fingerprints, so cost grows with the
+  // query and the number of hits rather than with the size of the corpus.
+  query(text: string, excludeDocumentId?: string, codeLanguage?: CodeLanguage): CandidateSource[] {
+    const queryTokens = FingerprintIndex.tokenize(text, codeLanguage);
+    const queryFingerprints = FingerprintIndex.winnow(queryTokens, codeLanguage);
+    if (queryFingerprints.length === 0) return [];
+
+    const hitsByDocument = new Map<string, Hit[]>();
+    const sharedByDocument = new Map<string, Set<number>>();
+
+    queryFingerprints.forEach(({ hash, position }) => {
+      (this.postings.get(hash) ?? []).forEach(posting => {
+        if (posting.documentId === excludeDocumentId) return;
+        const hits = hitsByDocument.get(posting.documentId) ?? [];
+        hits.push({ queryPosition: position, sourcePosition: posting.position });
+        hitsByDocument.set(posting.documentId, hits);
+
+        const shared = sharedByDocument.get(posting.documentId) ?? new Set<number>();
+        shared.add(hash);
+        sharedByDocument.set(posting.documentId, shared);
+      });
+    });
+
+    const uniqueQueryHashes = new Set(queryFingerprints.map(fingerprint => fingerprint.hash)).size;
+
+    return [...hitsByDocument.entries()]
+      .map(([documentId, hits]) => {
+        const sharedFingerprints = sharedByDocument.get(documentId)!.size;
+        return {
+          documentId,
+          sharedFingerprints,
+          score: Math.round((sharedFingerprints / uniqueQueryHashes) * 100),
+          regions: this.buildRegions(hits, queryTokens, this.documents.get(documentId)!.tokens, codeLanguage)
+        };
+      })
+      .sort((a, b) => b.sharedFingerprints - a.sharedFingerprints);
+  }
+
+  private buildRegions(hits: Hit[], queryTokens: Token[], sourceTokens: Token[], codeLanguage?: CodeLanguage): MatchedRegion[] {
+    const K = codeLanguage ? FingerprintIndex.CODE_K : FingerprintIndex.K;
+    const sorted = [...hits].sort((a, b) => a.queryPosition - b.queryPosition || a.sourcePosition - b.sourcePosition);
+    const tokenRegions: { queryFrom: number; queryTo: number; sourceFrom: number; sourceTo: number }[] = [];
+
+    sorted.forEach(hit => {
+      const queryTo = hit.queryPosition + K - 1;
+      const sourceTo = hit.sourcePosition + K - 1;
+      const current = tokenRegions.find(region =>
+        hit.queryPosition <= region.queryTo + FingerprintIndex.MAX_REGION_GAP &&
+        hit.queryPosition >= region.queryFrom &&
+        hit.sourcePosition <= region.sourceTo + FingerprintIndex.MAX_REGION_GAP &&
+        hit.sourcePosition >= region.sourceFrom - FingerprintIndex.MAX_REGION_GAP
+      );
+
+      if (current) {
+        current.queryTo = Math.max(current.queryTo, queryTo);
+        current.sourceFrom = Math.min(current.sourceFrom, hit.sourcePosition);
+        current.sourceTo = Math.max(current.sourceTo, sourceTo);
+      } else {
+        tokenRegions.push({ queryFrom: hit.queryPosition, queryTo, sourceFrom: hit.sourcePosition, sourceTo });
+      }
+    });
+
+    return tokenRegions.map(region => ({
+      queryStart: queryTokens[region.queryFrom].start,
+      queryEnd: queryTokens[Math.min(region.queryTo, queryTokens.length - 1)].end,
+      sourceStart: sourceTokens[region.sourceFrom].start,
+      sourceEnd: sourceTokens[Math.min(region.sourceTo, sourceTokens.length - 1)].end
+    }));
+  }
+
+  // Tokens are stemmed and synonym-folded, so inflection changes and synonym swaps keep their fingerprints
+  static tokenize(text: string, codeLanguage?: CodeLanguage): Token[] {
+    if (codeLanguage) return CodeTokenizer.tokenize(text, codeLanguage);
+    return Tokenizer.words(text).map(token => ({ ...token, value: TextNormalizer.normalize(token.value) }));
+  }
+
+  // Distinct fingerprint hashes of a text, e.g. to store alongside a shared document
+  static hashes(text: string, codeLanguage?: CodeLanguage): number[] {
+    return [...new Set(this.winnow(this.tokenize(text, codeLanguage), codeLanguage).map(fingerprint => fingerprint.hash))];
+  }
+
+  static winnow(tokens: Token[], codeLanguage?: CodeLanguage): Fingerprint[] {
+    const K = codeLanguage ? FingerprintIndex.CODE_K : FingerprintIndex.K;
+    const W = codeLanguage ? FingerprintIndex.CODE_WINDOW : FingerprintIndex.WINDOW;
+    if (tokens.length < K) return [];
+
+    // Prefixing code k-grams with their language keeps them from colliding with prose or other languages
+    const prefix = codeLanguage ? `${codeLanguage}:` : '';
+    const hashes: number[] = [];
+    for (let i = 0; i + K <= tokens.length; i++) {
+      hashes.push(this.hash(prefix + tokens.slice(i, i + K).map(token => token.value).join(' ')));
+    }
+
+    if (hashes.length <= W) {
+      const minIndex = hashes.lastIndexOf(Math.min(...hashes));
+      return [{ hash: hashes[minIndex], position: minIndex }];
+    }
+
+    // Pick the rightmost minimum hash in each window, skipping repeats of the previous pick
+    const fingerprints: Fingerprint[] = [];
+    let lastPicked = -1;
+    for (let start = 0; start + W <= hashes.length; start++) {
+      let minIndex = start;
+      for (let i = start + 1; i < start + W; i++) {
+        if (hashes[i] <= hashes[minIndex]) minIndex = i;
+      }
+      if (minIndex !== lastPicked) {
+        fingerprints.push({ hash: hashes[minIndex], position: minIndex });
+        lastPicked = minIndex;
+      }
+    }
+    return fingerprints;
+  }
+
+  // 32-bit FNV-1a
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,190 @@
+import type { DetectionResult } from './plagiarismDetector';
+import type { AssignmentTemplate } from './assignmentTemplates';
+import {
+  CorpusRepository,
+  CORPUS_MIGRATIONS,
+  CORPUS_SCHEMA_VERSION,
+  StorageUsage,
+  createArchive,
+  migrateDocument,
+  readArchiveContents
+} from './corpusRepository';
+
+const DOCUMENTS_STORE = 'documents';
+const TEMPLATES_STORE = 'templates';
+
+// Object store / index changes per schema version, keyed by the version they upgrade to
+const STORE_MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: db => {
+    const store = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  },
+  3: db => {
+    db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+  }
+};
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction was aborted.'));
+  });
+}
+
+export class IndexedDbCorpusRepository implements CorpusRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly databaseName = 'plagiarism-corpus') {}
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Persistent storage is not available in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(this.databaseName, CORPUS_SCHEMA_VERSION);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        const oldVersion = event.oldVersion;
+
+        for (let version = oldVersion + 1; version <= CORPUS_SCHEMA_VERSION; version++) {
+          STORE_MIGRATIONS[version]?.(db, transaction);
+        }
+
+        // Existing records need their shape upgraded as well
+        if (oldVersion > 0) {
+          this.migrateRecords(transaction, oldVersion);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; drop our connection so it isn't blocked
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error ?? new Error('Could not open the document corpus.'));
+      };
+      request.onblocked = () => {
+        console.warn('Corpus upgrade is blocked by another open tab.');
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private migrateRecords(transaction: IDBTransaction, fromVersion: number): void {
+    const needsMigration = Object.keys(CORPUS_MIGRATIONS).some(version => Number(version) > fromVersion);
+    if (!needsMigration) return;
+
+    const cursorRequest = transaction.objectStore(DOCUMENTS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(migrateDocument(cursor.value, fromVersion));
+      cursor.continue();
+    };
+  }
+
+  async list(): Promise<DetectionResult[]> {
+    const db = await this.open();
+    const index = db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).index('timestamp');
+    const documents = await promisifyRequest<DetectionResult[]>(index.getAll());
+    // Newest first, matching the order results are shown in
+    return documents.reverse();
+  }
+
+  async get(id: string): Promise<DetectionResult | undefined> {
+    const db = await this.open();
+    return promisifyRequest<DetectionResult | undefined>(
+      db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).get(id)
+    );
+  }
+
+  async save(result: DetectionResult): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).put(result);
+    await promisifyTransaction(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).delete(id);
+    await promisifyTransaction(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).clear();
+    await promisifyTransaction(transaction);
+  }
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    const db = await this.open();
+    const documentCount = await promisifyRequest(
+      db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).count()
+    );
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    return {
+      usedBytes: estimate.usage ?? 0,
+      quotaBytes: estimate.quota ?? 0,
+      documentCount
+    };
+  }
+
+  async exportArchive(): Promise<Blob> {
+    return createArchive(await this.list(), await this.listTemplates());
+  }
+
+  async importArchive(archive: Blob): Promise<number> {
+    const { documents, templates } = await readArchiveContents(archive);
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, TEMPLATES_STORE], 'readwrite');
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    const templateStore = transaction.objectStore(TEMPLATES_STORE);
+    // Entries with the same id are replaced, so importing the same archive twice is harmless
+    documents.forEach(document => store.put(document));
+    templates.forEach(template => templateStore.put(template));
+    await promisifyTransaction(transaction);
+    return documents.length;
+  }
+
+  async listTemplates(): Promise<AssignmentTemplate[]> {
+    const db = await this.open();
+    return promisifyRequest<AssignmentTemplate[]>(db.transaction(TEMPLATES_STORE).objectStore(TEMPLATES_STORE).getAll());
+  }
+
+  async saveTemplate(template: AssignmentTemplate): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(TEMPLATES_STORE, 'readwrite');
+    transaction.objectStore(TEMPLATES_STORE).put(template);
+    await promisifyTransaction(transaction);
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(TEMPLATES_STORE, 'readwrite');
+    transaction.objectStore(TEMPLATES_STORE).delete(id);
+    await promisifyTransaction(transaction);
+  }
+}
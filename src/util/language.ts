@@ -0,0 +1,141 @@
+// ISO 639-1 code, or 'und' when the language couldn't be determined
+export type LanguageCode = string;
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', fr: 'French', de: 'German', es: 'Spanish', it: 'Italian', pt: 'Portuguese', nl: 'Dutch',
+  ru: 'Russian', el: 'Greek', ar: 'Arabic', he: 'Hebrew', hi: 'Hindi', bn: 'Bengali', ta: 'Tamil', te: 'Telugu',
+  zh: 'Chinese', ja: 'Japanese', ko: 'Korean', th: 'Thai', und: 'Unknown'
+};
+
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+    'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+    'will', 'would', 'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those',
+    'it', 'its', 'from', 'as', 'not', 'which', 'who', 'their', 'they', 'there', 'than', 'also'
+  ],
+  fr: [
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'dans', 'sur', 'pour', 'par',
+    'avec', 'est', 'sont', 'été', 'être', 'avoir', 'que', 'qui', 'ce', 'cette', 'ces', 'il', 'elle', 'ils',
+    'elles', 'nous', 'vous', 'pas', 'plus', 'aux', 'au', 'son', 'sa', 'ses', 'leur', 'leurs', 'comme'
+  ],
+  de: [
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder', 'aber',
+    'in', 'im', 'auf', 'für', 'mit', 'von', 'zu', 'zum', 'zur', 'ist', 'sind', 'war', 'waren', 'wird', 'werden',
+    'hat', 'haben', 'nicht', 'sich', 'auch', 'als', 'dass', 'wie', 'bei', 'aus', 'nach', 'noch'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'en', 'de', 'del', 'al', 'para',
+    'por', 'con', 'es', 'son', 'fue', 'ser', 'estar', 'está', 'que', 'se', 'su', 'sus', 'lo', 'como', 'más',
+    'este', 'esta', 'estos', 'estas', 'no', 'muy', 'también'
+  ],
+  it: [
+    'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'una', 'uno', 'e', 'o', 'ma', 'in', 'di', 'del', 'della', 'dei',
+    'delle', 'per', 'con', 'su', 'che', 'è', 'sono', 'era', 'essere', 'questo', 'questa', 'non', 'si', 'come',
+    'anche', 'più', 'al', 'alla', 'nel', 'nella'
+  ],
+  pt: [
+    'o', 'a', 'os', 'as', 'um', 'uma', 'e', 'ou', 'mas', 'em', 'no', 'na', 'nos', 'nas', 'de', 'do', 'da',
+    'dos', 'das', 'para', 'por', 'com', 'é', 'são', 'foi', 'ser', 'que', 'se', 'seu', 'sua', 'não', 'como',
+    'mais', 'este', 'esta', 'também'
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'of', 'maar', 'in', 'op', 'aan', 'voor', 'van', 'met', 'door', 'is', 'zijn',
+    'was', 'waren', 'wordt', 'worden', 'heeft', 'hebben', 'niet', 'dat', 'die', 'dit', 'deze', 'ook', 'als',
+    'bij', 'naar', 'om', 'er', 'te'
+  ],
+  ru: [
+    'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то', 'все', 'она', 'так', 'его',
+    'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы', 'по', 'только', 'ее', 'мне', 'было', 'вот', 'от',
+    'это', 'этот', 'эти', 'из', 'для', 'при', 'или'
+  ],
+  hi: [
+    'का', 'की', 'के', 'को', 'में', 'से', 'पर', 'और', 'या', 'है', 'हैं', 'था', 'थी', 'थे', 'हो', 'होता',
+    'होती', 'होते', 'यह', 'वह', 'ये', 'वे', 'इस', 'उस', 'एक', 'भी', 'तो', 'ही', 'नहीं', 'कि', 'जो', 'लिए',
+    'द्वारा', 'साथ', 'गया', 'गई', 'किया', 'करने'
+  ],
+  ta: [
+    'ஒரு', 'மற்றும்', 'இந்த', 'அந்த', 'என்று', 'என', 'இது', 'அது', 'உள்ள', 'உள்ளது', 'ஆகும்', 'இருந்து',
+    'இருக்கும்', 'போது', 'மேலும்', 'அல்லது', 'என்ற', 'பற்றி', 'வேண்டும்', 'முடியும்', 'கொண்டு', 'அவர்',
+    'அவர்கள்', 'நான்', 'நாம்', 'எனவே', 'ஆனால்', 'தான்', 'மட்டும்', 'கூட'
+  ]
+};
+
+const STOPWORD_SETS: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+// Script -> language for scripts used (almost) only by one language we support
+const SCRIPT_LANGUAGES: [RegExp, LanguageCode][] = [
+  [/\p{Script=Tamil}/gu, 'ta'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Bengali}/gu, 'bn'],
+  [/\p{Script=Telugu}/gu, 'te'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Thai}/gu, 'th'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'],
+  [/\p{Script=Han}/gu, 'zh']
+];
+
+const LATIN_LANGUAGES = ['en', 'fr', 'de', 'es', 'it', 'pt', 'nl'];
+
+export class Language {
+  // Enough text to tell languages apart without scanning whole documents
+  private static readonly SAMPLE_LENGTH = 5000;
+  private static readonly MIN_STOPWORD_HITS = 3;
+
+  static detect(text: string): LanguageCode {
+    const sample = text.slice(0, this.SAMPLE_LENGTH);
+    const latinCount = sample.match(/\p{Script=Latin}/gu)?.length ?? 0;
+
+    const scriptCounts = SCRIPT_LANGUAGES.map(([pattern, language]) => ({
+      language,
+      count: sample.match(pattern)?.length ?? 0
+    }));
+    const japanese = scriptCounts.find(({ language }) => language === 'ja')!;
+    const chinese = scriptCounts.find(({ language }) => language === 'zh')!;
+    // Japanese mixes kana with Han characters, Chinese uses Han alone
+    if (japanese.count > 0 && japanese.count * 10 >= chinese.count) {
+      japanese.count += chinese.count;
+      chinese.count = 0;
+    }
+
+    const dominant = scriptCounts.reduce((best, current) => (current.count > best.count ? current : best));
+    if (dominant.count > latinCount) return dominant.language;
+    if (latinCount === 0) return UNDETERMINED_LANGUAGE;
+
+    return this.detectLatinLanguage(sample);
+  }
+
+  // Documents in different languages can't plagiarise each other word for word; unknown matches anything
+  static isCompatible(a: LanguageCode | undefined, b: LanguageCode | undefined): boolean {
+    return !a || !b || a === UNDETERMINED_LANGUAGE || b === UNDETERMINED_LANGUAGE || a === b;
+  }
+
+  static isStopWord(word: string, language: LanguageCode = UNDETERMINED_LANGUAGE): boolean {
+    // Unknown-language text is most often short English, so it gets the English list
+    const stopwords = language === UNDETERMINED_LANGUAGE ? STOPWORD_SETS.en : STOPWORD_SETS[language];
+    return stopwords?.has(word) ?? false;
+  }
+
+  static getName(language: LanguageCode | undefined): string {
+    return LANGUAGE_NAMES[language ?? UNDETERMINED_LANGUAGE] ?? language!.toUpperCase();
+  }
+
+  // Latin-script languages are told apart by how many of their stopwords appear
+  private static detectLatinLanguage(sample: string): LanguageCode {
+    const words = sample.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+    const scores = LATIN_LANGUAGES.map(language => ({
+      language,
+      hits: words.filter(word => STOPWORD_SETS[language].has(word)).length
+    }));
+    const best = scores.reduce((top, current) => (current.hits > top.hits ? current : top));
+    return best.hits >= this.MIN_STOPWORD_HITS ? best.language : UNDETERMINED_LANGUAGE;
+  }
+}
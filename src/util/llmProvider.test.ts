@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIAnalyzer } from './aiAnalyzer';
+import {
+  DEFAULT_PROVIDER_CONFIG,
+  LLMRequestError,
+  MockProvider,
+  createProvider,
+  loadProviderConfig,
+  saveProviderConfig
+} from './llmProvider';
+
+// Just enough of the Web Storage API for the settings functions
+class MemoryStorage {
+  private readonly items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const SUBMISSION = 'The results were clear. Overall, it is important to note that the findings demonstrate a multifaceted landscape of outcomes.';
+
+describe('MockProvider', () => {
+  it('answers with a verdict that passes validation', async () => {
+    const provider = new MockProvider();
+    const verdict = AIAnalyzer.parseVerdict(await provider.complete([{ role: 'user', content: SUBMISSION }]));
+    expect(verdict.aiScore).toBe(50);
+    expect(verdict.passages).toHaveLength(1);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('is what createProvider returns for the mock type', () => {
+    expect(createProvider({ ...DEFAULT_PROVIDER_CONFIG, type: 'mock' })).toBeInstanceOf(MockProvider);
+  });
+});
+
+describe('AIAnalyzer with a mock provider', () => {
+  it('locates quoted passages in the submitted text', async () => {
+    const verdict = await AIAnalyzer.analyze(SUBMISSION, new MockProvider());
+    expect(verdict.provider).toBe('mock');
+    expect(verdict.chunkCount).toBe(1);
+    const [passage] = verdict.passages;
+    expect(SUBMISSION.slice(passage.start, passage.end)).toBe(passage.text);
+  });
+
+  it('accepts verdicts wrapped in a code fence', async () => {
+    const provider = new MockProvider(() => '```json\n{"aiScore": 87.4, "passages": [], "rationale": " Formulaic. "}\n```');
+    const verdict = await AIAnalyzer.analyze(SUBMISSION, provider);
+    expect(verdict.aiScore).toBe(87);
+    expect(verdict.rationale).toBe('Formulaic.');
+  });
+
+  it('drops passages the model did not quote verbatim', async () => {
+    const provider = new MockProvider(() => JSON.stringify({
+      aiScore: 70,
+      passages: [{ quote: 'a sentence that is not in the text', reason: 'made up' }],
+      rationale: 'Generic.'
+    }));
+    expect((await AIAnalyzer.analyze(SUBMISSION, provider)).passages).toEqual([]);
+  });
+
+  it('gives up at once on errors that retrying cannot fix', async () => {
+    const provider = new MockProvider(() => {
+      throw new LLMRequestError('The AI provider rejected the API key. Check the AI settings.', false);
+    });
+    await expect(AIAnalyzer.analyze(SUBMISSION, provider)).rejects.toThrow('rejected the API key');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('retries invalid answers before failing', async () => {
+    vi.useFakeTimers();
+    try {
+      const provider = new MockProvider(() => 'not json');
+      const analysis = expect(AIAnalyzer.analyze(SUBMISSION, provider)).rejects.toThrow('did not return valid JSON');
+      await vi.runAllTimersAsync();
+      await analysis;
+      expect(provider.requests).toHaveLength(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('provider settings', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    vi.stubGlobal('sessionStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the API key out of local storage', () => {
+    saveProviderConfig({ ...DEFAULT_PROVIDER_CONFIG, enabled: true, apiKey: 'sk-test' });
+    expect(localStorage.getItem('plagiarism-checker.llm-provider')).not.toContain('sk-test');
+    expect(loadProviderConfig()).toMatchObject({ enabled: true, apiKey: 'sk-test' });
+  });
+});
@@ -0,0 +1,166 @@
+import axios from 'axios';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+  // Ask the provider for a JSON object rather than free text
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export type LLMProviderType = 'openai-compatible' | 'mock';
+
+export interface LLMProviderConfig {
+  // Whether single uploads are sent for AI analysis at all
+  enabled: boolean;
+  type: LLMProviderType;
+  // Base URL of an OpenAI-compatible API, e.g. https://api.deepseek.com/v1 or http://localhost:11434/v1
+  endpoint: string;
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+// Thrown for failed provider calls; `retryable` is false when repeating the request cannot help
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+const CONFIG_STORAGE_KEY = 'plagiarism-checker.llm-provider';
+const API_KEY_STORAGE_KEY = 'plagiarism-checker.llm-api-key';
+
+// Endpoint and model may come from the build environment; the API key is only ever entered at runtime
+export const DEFAULT_PROVIDER_CONFIG: LLMProviderConfig = {
+  enabled: false,
+  type: 'openai-compatible',
+  endpoint: import.meta.env.VITE_LLM_ENDPOINT ?? 'https://api.deepseek.com/v1',
+  apiKey: '',
+  model: import.meta.env.VITE_LLM_MODEL ?? 'deepseek-chat',
+  timeoutMs: 60_000
+};
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.name = `${config.model} @ ${config.endpoint}`;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const url = `${this.config.endpoint.replace(/\/+$/, '')}/chat/completions`;
+    try {
+      const response = await axios.post(
+        url,
+        {
+          model: this.config.model,
+          messages,
+          temperature: 0,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {})
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+          },
+          timeout: this.config.timeoutMs,
+          signal: options.signal
+        }
+      );
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMRequestError('The AI provider returned a response without any message content.', true);
+      }
+      return content;
+    } catch (error) {
+      if (error instanceof LLMRequestError || !axios.isAxiosError(error)) throw error;
+      if (axios.isCancel(error)) {
+        options.signal?.throwIfAborted();
+        throw error;
+      }
+
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        throw new LLMRequestError('The AI provider rejected the API key. Check the AI settings.', false);
+      }
+      if (status === 404) {
+        throw new LLMRequestError(`No chat completions endpoint was found at ${url}.`, false);
+      }
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new LLMRequestError(`The AI provider did not respond within ${Math.round(this.config.timeoutMs / 1000)} seconds.`, true);
+      }
+      // Rate limits, server errors and network failures are worth another attempt
+      const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+      throw new LLMRequestError(`AI provider request failed${status ? ` (HTTP ${status})` : ''}: ${error.message}`, retryable);
+    }
+  }
+}
+
+// Offline provider that answers with canned responses, for development without an API key
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly requests: ChatMessage[][] = [];
+
+  constructor(private readonly respond: (messages: ChatMessage[]) => string = MockProvider.defaultResponse) {}
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    this.requests.push(messages);
+    return this.respond(messages);
+  }
+
+  // Flags the longest sentence of the submitted text with a neutral score
+  private static defaultResponse(messages: ChatMessage[]): string {
+    const text = messages[messages.length - 1]?.content ?? '';
+    const longest = text
+      .split(/(?<=[.!?])\s+/)
+      .reduce((best, sentence) => (sentence.length > best.length ? sentence : best), '');
+    return JSON.stringify({
+      aiScore: 50,
+      passages: longest ? [{ quote: longest.trim(), reason: 'Mock provider: longest sentence in this section.' }] : [],
+      rationale: 'Mock provider response. Configure a real AI provider in the AI settings for an actual assessment.'
+    });
+  }
+}
+
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+  if (config.type === 'mock') return new MockProvider();
+  if (!config.endpoint || !config.model) {
+    throw new Error('AI analysis needs an endpoint and a model. Check the AI settings.');
+  }
+  return new OpenAICompatibleProvider(config);
+}
+
+// The API key is kept in session storage, so it is gone when the browser closes and never sits on
+// disk next to the other settings
+export function loadProviderConfig(): LLMProviderConfig {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null;
+    const config: LLMProviderConfig = stored ? { ...DEFAULT_PROVIDER_CONFIG, ...JSON.parse(stored) } : DEFAULT_PROVIDER_CONFIG;
+    const apiKey = (typeof sessionStorage !== 'undefined' && sessionStorage.getItem(API_KEY_STORAGE_KEY)) || '';
+    return { ...config, apiKey };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+}
+
+export function saveProviderConfig(config: LLMProviderConfig): void {
+  const { apiKey, ...settings } = config;
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(settings));
+  if (apiKey) {
+    sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,212 @@
+// Tricks that make copied text look different to a checker but not to a reader
+export type ObfuscationKind = 'homoglyph' | 'invisible-character' | 'letter-spacing' | 'hidden-text';
+
+export const OBFUSCATION_LABELS: Record<ObfuscationKind, string> = {
+  homoglyph: 'Look-alike characters',
+  'invisible-character': 'Invisible characters',
+  'letter-spacing': 'Spaced-out letters',
+  'hidden-text': 'Hidden text'
+};
+
+export interface ObfuscationFinding {
+  kind: ObfuscationKind;
+  // Range in the document's extracted text, which holds the repaired text
+  start: number;
+  end: number;
+  // The text as it was in the file
+  original: string;
+  detail: string;
+  pageNumber?: number;
+}
+
+// Text the reader of a PDF can't see, found from the text items and drawing operators
+export interface HiddenText {
+  text: string;
+  detail: string;
+}
+
+export interface InspectedText {
+  text: string;
+  findings: ObfuscationFinding[];
+}
+
+// Cyrillic and Greek letters drawn the same as Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  а: 'a', е: 'e', о: 'o', р: 'p', с: 'c', у: 'y', х: 'x', і: 'i', ј: 'j', ѕ: 's', ԁ: 'd', һ: 'h', ԛ: 'q', ԝ: 'w', ӏ: 'l',
+  А: 'A', В: 'B', Е: 'E', К: 'K', М: 'M', Н: 'H', О: 'O', Р: 'P', С: 'C', Т: 'T', Х: 'X', У: 'Y', І: 'I', Ј: 'J', Ѕ: 'S',
+  ο: 'o', ν: 'v', ι: 'i', κ: 'k', ρ: 'p',
+  Α: 'A', Β: 'B', Ε: 'E', Ζ: 'Z', Η: 'H', Ι: 'I', Κ: 'K', Μ: 'M', Ν: 'N', Ο: 'O', Ρ: 'P', Τ: 'T', Υ: 'Y', Χ: 'X'
+};
+
+// Zero-width spaces and joiners, bidi controls, word joiners, invisible operators and byte order marks,
+// as a character class body
+export const INVISIBLE_CHARACTERS = '\\u200B-\\u200F\\u202A-\\u202E\\u2060-\\u2064\\u2066-\\u2069\\uFEFF\\u180E';
+const INVISIBLE = new RegExp(`[${INVISIBLE_CHARACTERS}]`, 'g');
+// Joiners shape Arabic, Indic and emoji sequences, so they're only suspicious inside Latin words
+const JOINERS = /^[\u200C\u200D]+$/;
+const LATIN_LETTER = /[A-Za-zÀ-ɏ]/;
+const LETTER = /\p{L}/u;
+const FULLWIDTH_LATIN = /[\uFF21-\uFF3A\uFF41-\uFF5A]/g;
+
+// A finding while it's being collected; neighbouring drafts of the same kind are merged
+interface FindingDraft {
+  kind: ObfuscationKind;
+  start: number;
+  end: number;
+  original: string;
+  // Characters affected
+  count: number;
+  codes: string[];
+}
+
+export class ObfuscationAnalyzer {
+  // Shorter runs of single letters turn up in lists and formulas
+  private static readonly MIN_SPACED_LETTERS = 4;
+  // Documents mostly in Latin script have whole words of look-alikes mapped too, not just mixed ones
+  private static readonly LATIN_DOCUMENT_SHARE = 0.8;
+  // Hidden runs shorter than this are usually layout artifacts, e.g. white bullet glyphs
+  private static readonly MIN_HIDDEN_LETTERS = 3;
+
+  // Undoes obfuscation in whitespace-collapsed text and reports where it was, by range in the
+  // repaired text
+  static repair(text: string): InspectedText {
+    const words = text.split(' ');
+    const latinDocument = this.latinShare(text) >= this.LATIN_DOCUMENT_SHARE;
+    const output: string[] = [];
+    const drafts: FindingDraft[] = [];
+    let offset = 0;
+
+    const append = (word: string) => {
+      if (output.length > 0) offset++;
+      const start = offset;
+      output.push(word);
+      offset += word.length;
+      return start;
+    };
+
+    let i = 0;
+    while (i < words.length) {
+      let runEnd = i;
+      while (runEnd < words.length && this.isSingleLetter(words[runEnd].replace(INVISIBLE, ''))) runEnd++;
+
+      if (runEnd - i >= this.MIN_SPACED_LETTERS) {
+        const original = words.slice(i, runEnd).join(' ');
+        const joined = this.canonicalize(original.replace(INVISIBLE, '').replace(/ /g, ''), latinDocument);
+        const start = append(joined);
+        drafts.push({ kind: 'letter-spacing', start, end: start + joined.length, original, count: runEnd - i, codes: [] });
+        i = runEnd;
+        continue;
+      }
+
+      const original = words[i++];
+      const invisible = original.match(INVISIBLE) ?? [];
+      const visible = invisible.length > 0 && !(JOINERS.test(invisible.join('')) && !LATIN_LETTER.test(original))
+        ? original.replace(INVISIBLE, '')
+        : original;
+      const canonical = this.canonicalize(visible, latinDocument);
+      if (!canonical) continue;
+
+      const start = append(canonical);
+      const end = start + canonical.length;
+      if (visible !== original) {
+        const codes = invisible.map(char => `U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+        drafts.push({ kind: 'invisible-character', start, end, original, count: invisible.length, codes });
+      }
+      if (canonical !== visible) {
+        const canonicalChars = [...canonical];
+        const count = [...visible].filter((char, index) => char !== canonicalChars[index]).length;
+        drafts.push({ kind: 'homoglyph', start, end, original, count, codes: [] });
+      }
+    }
+
+    return { text: output.join(' '), findings: this.merge(drafts).map(draft => this.toFinding(draft)) };
+  }
+
+  // Maps look-alike letters in a word to Latin ones. Words in another script are left alone unless
+  // they also contain Latin letters, or the document is in Latin script.
+  static canonicalize(word: string, latinDocument = true): string {
+    const folded = word.replace(FULLWIDTH_LATIN, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0));
+    const chars = [...folded];
+    const confusable = chars.filter(char => HOMOGLYPHS[char]).length;
+    if (confusable === 0) return folded;
+
+    const letters = chars.filter(char => LETTER.test(char));
+    const mixed = letters.some(char => LATIN_LETTER.test(char));
+    const allConfusable = letters.every(char => LATIN_LETTER.test(char) || HOMOGLYPHS[char]);
+    if (!allConfusable || (!mixed && !latinDocument)) return folded;
+    return chars.map(char => HOMOGLYPHS[char] ?? char).join('');
+  }
+
+  // Finds hidden runs in the cleaned text of a page. Text that is both tiny and white is reported
+  // once; runs that can't be found (e.g. cleaned away entirely) are reported against the whole page.
+  static locateHidden(
+    pageText: string,
+    hidden: HiddenText[],
+    clean: (text: string) => string,
+    pageRange: { start: number; end: number; pageNumber: number }
+  ): ObfuscationFinding[] {
+    const claimed: { start: number; end: number }[] = [];
+    return hidden
+      .filter(run => (run.text.match(/\p{L}/gu)?.length ?? 0) >= this.MIN_HIDDEN_LETTERS)
+      .flatMap(run => {
+        const finding = { kind: 'hidden-text' as const, original: run.text.trim(), detail: run.detail, pageNumber: pageRange.pageNumber };
+        const needle = clean(run.text);
+        if (!needle || !pageText.includes(needle)) return [{ ...finding, start: pageRange.start, end: pageRange.end }];
+
+        let index = pageText.indexOf(needle);
+        while (index >= 0 && claimed.some(range => index < range.end && index + needle.length > range.start)) {
+          index = pageText.indexOf(needle, index + 1);
+        }
+        if (index < 0) return [];
+        claimed.push({ start: index, end: index + needle.length });
+        return [{ ...finding, start: pageRange.start + index, end: pageRange.start + index + needle.length }];
+      });
+  }
+
+  // Findings counted by kind, e.g. "Hidden text (2), Look-alike characters (1)"
+  static summarize(findings: ObfuscationFinding[]): string {
+    const counts = new Map<ObfuscationKind, number>();
+    findings.forEach(finding => counts.set(finding.kind, (counts.get(finding.kind) ?? 0) + 1));
+    return [...counts].map(([kind, count]) => `${OBFUSCATION_LABELS[kind]} (${count})`).join(', ');
+  }
+
+  private static isSingleLetter(word: string): boolean {
+    return [...word].length === 1 && LETTER.test(word);
+  }
+
+  private static latinShare(text: string): number {
+    const letters = text.match(/\p{L}/gu) ?? [];
+    if (letters.length === 0) return 0;
+    return letters.filter(char => LATIN_LETTER.test(char)).length / letters.length;
+  }
+
+  // Neighbouring words with the same trick are reported as one finding
+  private static merge(drafts: FindingDraft[]): FindingDraft[] {
+    const merged: FindingDraft[] = [];
+    const lastByKind = new Map<ObfuscationKind, FindingDraft>();
+    drafts.forEach(draft => {
+      const last = lastByKind.get(draft.kind);
+      if (last && draft.kind !== 'letter-spacing' && draft.start <= last.end + 1) {
+        last.end = draft.end;
+        last.original = `${last.original} ${draft.original}`;
+        last.count += draft.count;
+        last.codes.push(...draft.codes);
+        return;
+      }
+      const copy = { ...draft, codes: [...draft.codes] };
+      merged.push(copy);
+      lastByKind.set(draft.kind, copy);
+    });
+    return merged;
+  }
+
+  private static toFinding({ kind, start, end, original, count, codes }: FindingDraft): ObfuscationFinding {
+    const plural = count === 1 ? '' : 's';
+    const details: Record<Exclude<ObfuscationKind, 'hidden-text'>, string> = {
+      homoglyph: `${count} look-alike letter${plural} in place of Latin ones`,
+      'invisible-character': `${count} invisible character${plural} (${[...new Set(codes)].join(', ')})`,
+      'letter-spacing': `${count} letters separated by spaces`
+    };
+    return { kind, start, end, original, detail: details[kind as keyof typeof details] };
+  }
+}
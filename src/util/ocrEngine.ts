@@ -0,0 +1,48 @@
+import { createWorker, Worker as TesseractWorker, ImageLike } from 'tesseract.js';
+
+export interface OCRResult {
+  text: string;
+  confidence: number;
+}
+
+export class OCREngine {
+  private static readonly LANGUAGE = 'eng';
+  private static workerPromise: Promise<TesseractWorker> | null = null;
+
+  // Assets are copied into public/ocr by scripts/copy-ocr-assets.js so no CDN is needed
+  private static assetUrl(path: string): string {
+    return new URL(`${import.meta.env.BASE_URL}ocr/${path}`, globalThis.location.href).href;
+  }
+
+  private static getWorker(): Promise<TesseractWorker> {
+    if (!this.workerPromise) {
+      this.workerPromise = createWorker(this.LANGUAGE, undefined, {
+        workerPath: this.assetUrl('worker.min.js'),
+        corePath: this.assetUrl('core'),
+        langPath: this.assetUrl('lang'),
+        workerBlobURL: false,
+        gzip: true
+      }).catch(error => {
+        this.workerPromise = null;
+        throw error;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  static async recognize(image: ImageLike): Promise<OCRResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return {
+      text: data.text,
+      confidence: Math.round(data.confidence)
+    };
+  }
+
+  static async terminate(): Promise<void> {
+    if (!this.workerPromise) return;
+    const worker = await this.workerPromise;
+    this.workerPromise = null;
+    await worker.terminate();
+  }
+}
@@ -1,99 +1,193 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { OCREngine } from './ocrEngine';
+import { checkFileSize, FileLike } from './fileLike';
+import { DEFAULT_DETECTION_CONFIG } from './detectionConfig';
+import { HiddenText, INVISIBLE_CHARACTERS, InspectedText, ObfuscationAnalyzer, ObfuscationFinding } from './obfuscationAnalyzer';
 
-// Configure PDF.js worker with matching version
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
+// Lets pdf.js render pages inside a Web Worker, where there is no DOM to create canvases with
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+const hasDOM = typeof document !== 'undefined';
+
+export interface PageConfidence {
+  pageNumber: number;
+  ocr: boolean;
+  confidence: number;
+}
+
+// One page's cleaned text, yielded as soon as the page has been read
+export interface PageChunk extends PageConfidence {
+  pageCount: number;
+  text: string;
+  // Located within the page's text
+  obfuscation: ObfuscationFinding[];
+  // Only known for pages whose drawing operators were read
+  hasImages: boolean;
+}
+
+// Character range of a page within the cleaned document text
+export interface PageRange {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
 
-interface ExtractedContent {
+export interface ExtractedContent {
   text: string;
   pageCount: number;
   hasImages: boolean;
+  skipped?: string[];
+  pages?: PageConfidence[];
+  pageMap?: PageRange[];
+  // Tricks undone while cleaning the text, or hidden text, located in the cleaned text
+  obfuscation?: ObfuscationFinding[];
+}
+
+export interface PageProgress {
+  page: number;
+  pageCount: number;
+  ocr: boolean;
+}
+
+interface PDFExtractionOptions {
+  enableOCR?: boolean;
+  // Look for white and invisible text on every page. Reading a page's drawing operators decodes all of
+  // its images, so otherwise only pages whose text layer looks suspect are checked.
+  scanHiddenText?: boolean;
+  maxFileSizeMB?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: PageProgress) => void;
+}
+
+// Joins the pages of a stream as they arrive. Equivalent to cleaning the newline-joined pages, since
+// cleaning collapses all whitespace; the text is only concatenated once, at the end.
+export class PageAssembler {
+  private readonly chunks: string[] = [];
+  private length = 0;
+  private pageCount = 0;
+  private hasImages = false;
+  private readonly pages: PageConfidence[] = [];
+  private readonly pageMap: PageRange[] = [];
+  private readonly obfuscation: ObfuscationFinding[] = [];
+
+  // The page's findings are moved from the page's text to its place in the document
+  add(chunk: PageChunk): void {
+    this.pageCount = chunk.pageCount;
+    this.hasImages = this.hasImages || chunk.hasImages;
+    if (!chunk.text) return;
+
+    const start = this.length > 0 ? this.length + 1 : 0;
+    this.pages.push({ pageNumber: chunk.pageNumber, ocr: chunk.ocr, confidence: chunk.confidence });
+    this.pageMap.push({ pageNumber: chunk.pageNumber, start, end: start + chunk.text.length });
+    this.obfuscation.push(...chunk.obfuscation.map(finding => ({ ...finding, start: finding.start + start, end: finding.end + start })));
+    this.chunks.push(chunk.text);
+    this.length = start + chunk.text.length;
+  }
+
+  finish(enableOCR = true): ExtractedContent {
+    const text = this.chunks.join(' ');
+
+    // Pages this short always have their images checked, so hasImages is reliable here
+    if (text.length < PDFExtractor.MIN_TEXT_LENGTH && this.hasImages) {
+      throw new Error(enableOCR
+        ? 'This PDF appears to contain scanned images, and OCR could not recognize any readable text.'
+        : 'This PDF appears to contain scanned images. Enable OCR to extract its text.');
+    }
+
+    if (text.length < PDFExtractor.MIN_TEXT_LENGTH) {
+      throw new Error('No readable text found in this PDF. The document may be corrupted or contain only images.');
+    }
+
+    return {
+      text,
+      pageCount: this.pageCount,
+      hasImages: this.hasImages,
+      pages: this.pages,
+      pageMap: this.pageMap,
+      obfuscation: this.obfuscation.sort((a, b) => a.start - b.start)
+    };
+  }
 }
 
 export class PDFExtractor {
-  private static readonly MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
-  private static readonly MIN_TEXT_LENGTH = 10;
+  static readonly MIN_TEXT_LENGTH = 10;
+  // Pages with images and less text than this are treated as scanned and sent to OCR
+  private static readonly MIN_PAGE_TEXT_LENGTH = 20;
+  private static readonly OCR_RENDER_SCALE = 2;
+  private static readonly IMAGE_OPS = [
+    pdfjsLib.OPS.paintImageXObject,
+    pdfjsLib.OPS.paintInlineImageXObject,
+    pdfjsLib.OPS.paintImageMaskXObject
+  ];
+  // Text smaller than this (in points) can't be read when printed
+  private static readonly MIN_VISIBLE_FONT_SIZE = 2;
+  // Fill colors with every channel at least this light are treated as white
+  private static readonly WHITE_CHANNEL = 250;
+  // Text rendering mode 3 neither fills nor strokes glyphs
+  private static readonly INVISIBLE_RENDERING_MODE = 3;
+  // Items closer than this share of the font size are parts of the same word
+  private static readonly ADJACENT_GAP = 0.1;
 
-  static async extractText(file: File): Promise<ExtractedContent> {
-    // Validate file size
-    if (file.size > this.MAX_FILE_SIZE) {
-      throw new Error(`File size exceeds 20MB limit. Current size: ${(file.size / 1024 / 1024).toFixed(1)}MB`);
+  static async extractText(file: FileLike, options: PDFExtractionOptions = {}): Promise<ExtractedContent> {
+    const assembler = new PageAssembler();
+    for await (const chunk of this.streamPages(file, options)) {
+      assembler.add(chunk);
     }
+    return assembler.finish(options.enableOCR);
+  }
+
+  // Reads the document a page at a time, releasing each page's fonts and decoded images before
+  // the next one, so memory use doesn't grow with the page count
+  static async *streamPages(file: FileLike, options: PDFExtractionOptions = {}): AsyncGenerator<PageChunk> {
+    const { signal, onProgress, maxFileSizeMB = DEFAULT_DETECTION_CONFIG.maxFileSizeMB } = options;
+    checkFileSize(file, maxFileSizeMB);
+
+    let loadingTask: pdfjsLib.PDFDocumentLoadingTask | null = null;
+    const abortLoading = () => loadingTask?.destroy();
+    signal?.addEventListener('abort', abortLoading);
 
     try {
+      signal?.throwIfAborted();
       const arrayBuffer = await file.arrayBuffer();
-      const loadingTask = pdfjsLib.getDocument({ 
+      loadingTask = pdfjsLib.getDocument({
         data: arrayBuffer,
         // Add these options for better compatibility
         verbosity: 0,
         isEvalSupported: false,
-        disableFontFace: false,
-        useSystemFonts: true
+        // Font faces and DOM canvases are unavailable off the main thread
+        disableFontFace: !hasDOM,
+        useSystemFonts: true,
+        ...(hasDOM ? {} : { canvasFactory: new OffscreenCanvasFactory() })
       });
-      
+
       const pdf = await loadingTask.promise;
-      
-      let fullText = '';
-      let hasImages = false;
       const pageCount = pdf.numPages;
 
-      // Extract text from each page
       for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
-        try {
-          const page = await pdf.getPage(pageNum);
-          
-          // Get text content with better options
-          const textContent = await page.getTextContent();
-          
-          const pageText = textContent.items
-            .map((item: any) => {
-              // Handle different item types
-              if (item.str) {
-                return item.str;
-              }
-              return '';
-            })
-            .filter(text => text.trim().length > 0)
-            .join(' ');
-
-          if (pageText.trim()) {
-            fullText += pageText + '\n';
-          }
-
-          // Check for images (for potential OCR)
-          try {
-            const operatorList = await page.getOperatorList();
-            if (operatorList.fnArray.some((fn: number) => fn === pdfjsLib.OPS.paintImageXObject)) {
-              hasImages = true;
-            }
-          } catch (opError) {
-            // Continue if operator list fails
-            console.warn(`Could not check for images on page ${pageNum}`);
-          }
-
-        } catch (pageError) {
-          console.warn(`Error processing page ${pageNum}:`, pageError);
-          continue;
-        }
+        signal?.throwIfAborted();
+        onProgress?.({ page: pageNum, pageCount, ocr: false });
+        yield await this.readPage(pdf, pageNum, pageCount, options);
       }
-
-      // Clean and normalize text
-      const cleanedText = this.cleanText(fullText);
-
-      // If no text extracted and has images, suggest OCR
-      if (cleanedText.length < this.MIN_TEXT_LENGTH && hasImages) {
-        throw new Error('This PDF appears to contain scanned images. Text extraction failed. The document may need OCR processing.');
-      }
-
-      if (cleanedText.length < this.MIN_TEXT_LENGTH) {
-        throw new Error('No readable text found in this PDF. The document may be corrupted or contain only images.');
-      }
-
-      return {
-        text: cleanedText,
-        pageCount,
-        hasImages
-      };
-
     } catch (error) {
       if (error instanceof Error) {
         // Handle specific PDF.js errors
@@ -106,13 +200,198 @@ export class PDFExtractor {
         throw error;
       }
       throw new Error('Failed to process PDF. The file may be corrupted or in an unsupported format.');
+    } finally {
+      signal?.removeEventListener('abort', abortLoading);
+      // Release the parsed document and pdf.js worker-side resources
+      await loadingTask?.destroy();
+    }
+  }
+
+  // Pages that can't be read come back without text
+  private static async readPage(
+    pdf: pdfjsLib.PDFDocumentProxy,
+    pageNumber: number,
+    pageCount: number,
+    options: PDFExtractionOptions
+  ): Promise<PageChunk> {
+    const { enableOCR = true, scanHiddenText = false, onProgress } = options;
+    const chunk: PageChunk = { pageNumber, pageCount, ocr: false, confidence: 100, text: '', obfuscation: [], hasImages: false };
+    let page: pdfjsLib.PDFPageProxy | null = null;
+
+    try {
+      page = await pdf.getPage(pageNumber);
+
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+      let pageText = this.joinItems(items);
+      const hiddenText = this.findTinyText(items);
+
+      // Reading the drawing operators decodes every image on the page, so it's only done when asked to or
+      // when the text layer looks suspect: hardly any text (maybe a scan) or text set too small to read,
+      // which is often accompanied by text drawn in white or invisibly
+      const ocrCandidate = this.cleanText(pageText).length < this.MIN_PAGE_TEXT_LENGTH;
+      if (scanHiddenText || ocrCandidate || hiddenText.length > 0) {
+        try {
+          const operatorList = await page.getOperatorList();
+          chunk.hasImages = operatorList.fnArray.some((fn: number) => this.IMAGE_OPS.includes(fn));
+          hiddenText.push(...this.findUnpaintedText(operatorList, chunk.hasImages));
+        } catch {
+          // Continue if operator list fails
+          console.warn(`Could not check for images on page ${pageNumber}`);
+        }
+      }
+
+      // Image-only (scanned) page: render it and merge OCR output with whatever text layer exists
+      if (enableOCR && chunk.hasImages && ocrCandidate) {
+        try {
+          onProgress?.({ page: pageNumber, pageCount, ocr: true });
+          const ocrResult = await this.recognizePage(page);
+          pageText = [pageText, ocrResult.text].filter(text => text.trim()).join('\n');
+          chunk.ocr = true;
+          chunk.confidence = ocrResult.confidence;
+        } catch (ocrError) {
+          console.warn(`OCR failed on page ${pageNumber}:`, ocrError);
+        }
+      }
+
+      const { text, obfuscation } = this.inspectPage(pageNumber, pageText, hiddenText);
+      chunk.text = text;
+      chunk.obfuscation = obfuscation;
+    } catch (pageError) {
+      console.warn(`Error processing page ${pageNumber}:`, pageError);
+    } finally {
+      page?.cleanup();
     }
+    return chunk;
+  }
+
+  private static async recognizePage(page: pdfjsLib.PDFPageProxy) {
+    const viewport = page.getViewport({ scale: this.OCR_RENDER_SCALE });
+    const width = Math.ceil(viewport.width);
+    const height = Math.ceil(viewport.height);
+    const canvas = hasDOM ? Object.assign(document.createElement('canvas'), { width, height }) : new OffscreenCanvas(width, height);
+    const canvasContext = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+    if (!canvasContext) {
+      throw new Error('Canvas rendering is not available for OCR.');
+    }
+
+    await page.render({ canvasContext, viewport }).promise;
+    return OCREngine.recognize(canvas);
   }
 
-  private static cleanText(text: string): string {
+  // Items on the same line that touch are joined without a space, so per-glyph items don't read
+  // as spaced-out letters
+  private static joinItems(items: TextItem[]): string {
+    let text = '';
+    let previous: TextItem | undefined;
+    items.forEach(item => {
+      if (!item.str.trim()) {
+        if (item.hasEOL) previous = undefined;
+        return;
+      }
+      if (text) text += previous && this.isAdjacent(previous, item) ? '' : ' ';
+      text += item.str;
+      previous = item;
+    });
+    return text;
+  }
+
+  private static isAdjacent(previous: TextItem, item: TextItem): boolean {
+    const [, skew, , fontSize, x, y] = item.transform;
+    const [, previousSkew, , , previousX, previousY] = previous.transform;
+    if (item.dir !== 'ltr' || skew !== 0 || previousSkew !== 0 || previous.hasEOL) return false;
+    const gap = x - (previousX + previous.width);
+    const tolerance = Math.abs(fontSize) * this.ADJACENT_GAP;
+    return Math.abs(y - previousY) < tolerance && Math.abs(gap) < tolerance;
+  }
+
+  // Runs of text items set too small to read
+  private static findTinyText(items: TextItem[]): HiddenText[] {
+    const hidden: HiddenText[] = [];
+    let run: HiddenText | null = null;
+    items.forEach(item => {
+      const fontSize = Math.hypot(item.transform[2], item.transform[3]);
+      if (!item.str.trim()) return;
+      if (fontSize >= this.MIN_VISIBLE_FONT_SIZE) {
+        run = null;
+      } else if (run) {
+        run.text += ` ${item.str}`;
+      } else {
+        run = { text: item.str, detail: `${fontSize.toFixed(1)} pt text` };
+        hidden.push(run);
+      }
+    });
+    return hidden;
+  }
+
+  // Runs of text drawn in white or in the invisible rendering mode. Scanned pages carry an
+  // invisible OCR text layer over the image, so invisible text only counts on pages without images.
+  private static findUnpaintedText(
+    operatorList: { fnArray: number[]; argsArray: unknown[][] },
+    pageHasImages: boolean
+  ): HiddenText[] {
+    const { OPS } = pdfjsLib;
+    const hidden: HiddenText[] = [];
+    const stack: { white: boolean; invisible: boolean }[] = [];
+    let state = { white: false, invisible: false };
+    let run: HiddenText | null = null;
+
+    operatorList.fnArray.forEach((fn, index) => {
+      const args = operatorList.argsArray[index];
+      if (fn === OPS.save) {
+        stack.push({ ...state });
+      } else if (fn === OPS.restore) {
+        state = stack.pop() ?? state;
+      } else if (fn === OPS.setFillRGBColor) {
+        state.white = (args as number[]).slice(0, 3).every(channel => channel >= this.WHITE_CHANNEL);
+      } else if (fn === OPS.setTextRenderingMode) {
+        state.invisible = args[0] === this.INVISIBLE_RENDERING_MODE;
+      } else if (fn === OPS.showText) {
+        const text = (args[0] as ({ unicode: string } | number | null)[])
+          .map(glyph => (glyph && typeof glyph === 'object' ? glyph.unicode : ''))
+          .join('');
+        const detail = state.invisible && !pageHasImages ? 'invisible text' : state.white ? 'white text' : null;
+        if (!text.trim()) return;
+        if (!detail) {
+          run = null;
+        } else if (run?.detail === detail) {
+          run.text += text;
+        } else {
+          run = { text, detail };
+          hidden.push(run);
+        }
+      }
+    });
+    return hidden;
+  }
+
+  // Cleans a page's text like inspectText, also locating the page's hidden text within it
+  private static inspectPage(pageNumber: number, pageText: string, hiddenText: HiddenText[]): { text: string; obfuscation: ObfuscationFinding[] } {
+    const { text, findings } = this.inspectText(pageText);
+    if (!text) return { text, obfuscation: [] };
+    return {
+      text,
+      obfuscation: [
+        ...findings.map(finding => ({ ...finding, pageNumber })),
+        ...ObfuscationAnalyzer.locateHidden(text, hiddenText, hidden => this.cleanText(hidden), { pageNumber, start: 0, end: text.length })
+      ]
+    };
+  }
+
+  static cleanText(text: string): string {
+    return this.inspectText(text).text;
+  }
+
+  // Cleans the text like cleanText, reporting the obfuscation it undid on the way
+  static inspectText(text: string): InspectedText {
+    return ObfuscationAnalyzer.repair(this.normalizeText(text));
+  }
+
+  // Invisible characters are kept for the obfuscation analyzer, which removes them
+  private static normalizeText(text: string): string {
     return text
-      // Remove excessive whitespace
-      .replace(/\s+/g, ' ')
+      // Remove excessive whitespace (byte order marks count as whitespace, but are kept)
+      .replace(/[^\S\uFEFF]+/g, ' ')
       // Remove control characters but keep basic punctuation
       .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
       // Remove weird Unicode characters that cause display issues
@@ -121,26 +400,26 @@ export class PDFExtractor {
       .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
       // Clean up font encoding issues
       .replace(/[^\x20-\x7E\u00A0-\uFFFF]/g, '')
-      // Remove excessive special characters
-      .replace(/[^\w\s.,!?;:()"'\-]/g, ' ')
+      // Soft hyphens only mark where a word may be broken
+      .replace(/\u00AD/g, '')
+      // Replace symbols (emoji, math, box drawing...) but keep letters, combining marks and punctuation in any script
+      .replace(new RegExp(`[^\\p{L}\\p{M}\\p{N}\\p{P}\\s${INVISIBLE_CHARACTERS}]`, 'gu'), ' ')
       // Clean up multiple spaces again
-      .replace(/\s+/g, ' ')
+      .replace(/[^\S\uFEFF]+/g, ' ')
       // Remove leading/trailing whitespace
       .trim();
   }
 
-  static async extractFromTXT(file: File): Promise<string> {
-    if (file.size > this.MAX_FILE_SIZE) {
-      throw new Error(`File size exceeds 20MB limit. Current size: ${(file.size / 1024 / 1024).toFixed(1)}MB`);
-    }
+  static async extractFromTXT(file: FileLike, maxFileSizeMB = DEFAULT_DETECTION_CONFIG.maxFileSizeMB): Promise<InspectedText> {
+    checkFileSize(file, maxFileSizeMB);
 
     const text = await file.text();
-    const cleanedText = this.cleanText(text);
+    const inspected = this.inspectText(text);
 
-    if (cleanedText.length < this.MIN_TEXT_LENGTH) {
+    if (inspected.text.length < this.MIN_TEXT_LENGTH) {
       throw new Error('Text file is too short or contains no readable content.');
     }
 
-    return cleanedText;
+    return inspected;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,6 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+// Browser only: serve the PDF.js worker from our own bundle so it always matches the library version.
+// Under Node, pdf.js runs its worker code in-process and needs no URL.
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
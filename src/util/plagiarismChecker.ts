@@ -0,0 +1,92 @@
+import { DetectionPipeline, SubmissionDetails } from './detectionPipeline';
+import { FingerprintIndex } from './fingerprintIndex';
+import { BUILT_IN_PROFILES, DetectionProfile } from './detectionConfig';
+import type { DetectionResult } from './plagiarismDetector';
+import type { FileLike } from './fileLike';
+import type { AssignmentTemplate } from './assignmentTemplates';
+import type { ComparisonScope } from './collections';
+
+export interface CheckerOptions {
+  profile?: DetectionProfile;
+  enableOCR?: boolean;
+  // Course offering checked files are filed under
+  course?: string;
+  term?: string;
+  // Assignment checked files are submitted for, whose templates are left out of scoring
+  assignment?: string;
+  // Part of the corpus checked files are compared against; defaults to all of it
+  scope?: ComparisonScope;
+}
+
+// Runs the detection pipeline without the browser worker: holds an in-memory corpus and its
+// fingerprint index, the way the worker does for the app
+export class PlagiarismChecker {
+  private corpus: DetectionResult[] = [];
+  private readonly index = new FingerprintIndex();
+  private readonly profile: DetectionProfile;
+  private readonly enableOCR: boolean;
+  private readonly submission: SubmissionDetails;
+  private readonly templates: AssignmentTemplate[] = [];
+
+  constructor(options: CheckerOptions = {}) {
+    this.profile = options.profile ?? BUILT_IN_PROFILES[0];
+    this.enableOCR = options.enableOCR ?? false;
+    const { course, term, assignment, scope } = options;
+    this.submission = { course, term, assignment, scope };
+  }
+
+  get documents(): DetectionResult[] {
+    return this.corpus;
+  }
+
+  // Adds already extracted documents, e.g. from a corpus archive exported by the app
+  addReferences(documents: DetectionResult[]): void {
+    documents.forEach(document => this.addToCorpus(document));
+  }
+
+  // Adds a file to compare against without scoring it, filed like the checked files so a narrow
+  // comparison scope still includes it
+  async addReferenceFile(file: FileLike): Promise<DetectionResult> {
+    const { course, term, assignment } = this.submission;
+    const document = await DetectionPipeline.load(file, { profile: this.profile, enableOCR: this.enableOCR, course, term, assignment });
+    this.addToCorpus(document);
+    return document;
+  }
+
+  // Registers starter material for an assignment, by default the one files are checked for
+  async addTemplateFile(file: FileLike, assignment = this.submission.assignment): Promise<AssignmentTemplate> {
+    if (!assignment?.trim()) {
+      throw new Error('Templates belong to an assignment. Set one in the checker options.');
+    }
+    const { text, codeLanguage } = await DetectionPipeline.extract(file, { enableOCR: this.enableOCR });
+    const template = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      assignment,
+      fileName: file.name,
+      content: text,
+      codeLanguage,
+      addedAt: new Date()
+    };
+    this.templates.push(template);
+    return template;
+  }
+
+  // Scores a file against the corpus, then adds it, so later files are compared with it too. With an
+  // author, the writing style is also compared with their earlier submissions in the corpus.
+  async check(file: FileLike, author?: string): Promise<DetectionResult> {
+    const result = await DetectionPipeline.run(file, this.corpus, this.index, {
+      profile: this.profile,
+      enableOCR: this.enableOCR,
+      ...this.submission,
+      author,
+      templates: this.templates
+    });
+    this.addToCorpus(result);
+    return result;
+  }
+
+  private addToCorpus(document: DetectionResult): void {
+    this.corpus = [document, ...this.corpus];
+    this.index.add(document.id, document.content, document.codeLanguage);
+  }
+}
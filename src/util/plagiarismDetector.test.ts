@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PlagiarismDetector } from './plagiarismDetector';
+import type { DetectionResult } from './plagiarismDetector';
+import { TextNormalizer } from './textNormalizer';
+
+// Candidate sources come from the fingerprint index, so both texts open with a copied sentence
+const SHARED = 'Coastal wetlands are disappearing faster than at any time in recorded history.';
+
+function source(content: string): DetectionResult {
+  return {
+    id: 'source',
+    fileName: 'source.txt',
+    fileType: 'text/plain',
+    content: `${SHARED} ${content}`,
+    similarity: 0,
+    matches: [],
+    timestamp: new Date('2026-10-01T12:00:00Z'),
+    wordCount: content.split(' ').length
+  };
+}
+
+const matchedSentences = (text: string, sourceText: string) =>
+  PlagiarismDetector.findDetailedMatches(`${SHARED} ${text}`, [source(sourceText)])
+    .filter(match => match.start !== 0)
+    .map(match => [match.sentence, match.matchType]);
+
+describe('PlagiarismDetector paraphrase matching', () => {
+  it('matches a sentence reworded with synonyms', () => {
+    expect(matchedSentences(
+      'Field teams utilize rapid techniques to obtain numerous soil samples from the entire region.',
+      'Field teams use quick methods to get many soil samples from the whole area.'
+    )).toEqual([['Field teams utilize rapid techniques to obtain numerous soil samples from the entire region', 'paraphrased']]);
+  });
+
+  it('keeps words that are only loosely related apart', () => {
+    expect(new Set(['analysis', 'examination', 'research', 'studied'].map(word => TextNormalizer.normalize(word))).size).toBe(4);
+    expect(matchedSentences(
+      'The analysis of these samples took place in the spring.',
+      'The research on these samples was studied in the spring.'
+    )).toEqual([]);
+  });
+});
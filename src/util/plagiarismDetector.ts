@@ -1,110 +1,419 @@
 
+import type { PageConfidence, PageRange } from './pdfEXtractor';
+import { FingerprintIndex } from './fingerprintIndex';
+import { TextNormalizer } from './textNormalizer';
+import { HashedSentenceEmbedder, SentenceEmbedder, cosineSimilarity } from './sentenceEmbedding';
+import { DocumentStructure, ExcludedSpan, ExclusionKind } from './documentStructure';
+import { Language, LanguageCode } from './language';
+import { Tokenizer, SentenceSpan } from './tokenizer';
+import { DEFAULT_DETECTION_CONFIG, DetectionConfig, DetectionProfile } from './detectionConfig';
+import type { CodeLanguage } from './codeTokenizer';
+import type { AuthorConsistency, StyleAnalysis } from './stylometry';
+import type { ObfuscationFinding } from './obfuscationAnalyzer';
+import type { Review } from './reviewWorkflow';
+import type { ComparisonScope } from './collections';
+import { SimilarityScore, SourceCoverage } from './similarityScore';
+
 export interface DetectionResult {
   id: string;
   fileName: string;
   fileType: string;
   content: string;
+  // Share (0-100) of the scored text covered by matched passages, leaving out those a reviewer dismissed
   similarity: number;
+  // Highest similarity with a single document: Jaccard overlap of word sets for prose, shared
+  // fingerprints for code. Results saved before coverage scoring hold this in `similarity` instead.
+  closestSourceSimilarity?: number;
+  // Coverage by source, largest first, computed from all undismissed matches rather than the listed ones
+  sources?: SourceCoverage[];
   matches: MatchedSentence[];
+  // Matches inside quotations, citations, the bibliography or assignment template text; listed for review but not scored
+  excludedMatches?: MatchedSentence[];
+  excludedSpans?: ExcludedSpan[];
+  // Detected language (ISO 639-1, or 'und'); only documents in compatible languages are compared
+  language?: LanguageCode;
+  // Set on source code submissions, which are only compared with code in the same language
+  codeLanguage?: CodeLanguage;
   timestamp: Date;
   wordCount: number;
   pageCount?: number;
+  skippedContent?: string[];
+  pages?: PageConfidence[];
+  pageMap?: PageRange[];
+  // SHA-256 (hex) and size of the uploaded file, so a report can be tied to the exact input
+  fileHash?: string;
+  fileSize?: number;
+  // Obfuscation found while extracting the text (look-alike letters, invisible characters, hidden
+  // text...); the content holds the repaired text. Present only when something was found.
+  obfuscation?: ObfuscationFinding[];
+  // Profile and settings the result was produced with; absent on results saved before profiles existed
+  profile?: DetectionProfile;
+  // Course offering the submission is filed under, by name and term
+  course?: string;
+  term?: string;
+  // Assignment the submission was made for, whose templates are left out of scoring
+  assignment?: string;
+  // Institutional ID of the student who handed it in
+  studentId?: string;
+  // Part of the corpus the submission is compared against; absent means everything
+  comparisonScope?: ComparisonScope;
+  // Share of the text (0-100) taken from the assignment's templates; absent when it has none
+  templateCoverage?: number;
+  // Student who wrote the submission; their earlier submissions are the baseline for style shifts
+  author?: string;
+  // Writing style features and AI-likeness indicator; absent for code and very short texts
+  style?: StyleAnalysis;
+  // Style compared with the author's earlier submissions; absent without an author or earlier work
+  authorConsistency?: AuthorConsistency;
+  // Reviewer decisions, notes and audit trail; absent until someone reviews the result
+  review?: Review;
 }
 
+// verbatim: same words in the same order; near-verbatim: mostly the same words;
+// paraphrased: only matches after stemming and synonym folding, or by sentence embedding
+export type MatchType = 'verbatim' | 'near-verbatim' | 'paraphrased';
+
+export const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  verbatim: 'Verbatim',
+  'near-verbatim': 'Near-verbatim',
+  paraphrased: 'Paraphrased'
+};
+
 export interface MatchedSentence {
   sentence: string;
   similarity: number;
   sourceFile: string;
+  // Absent on results saved before match types were tracked
+  matchType?: MatchType;
+  // Set when the suspect sentence lies mostly inside an excluded quotation, citation, bibliography or template text
+  exclusion?: ExclusionKind;
+  // Character offsets into the suspect and source `content`; absent on results saved before offsets were tracked
+  sourceId?: string;
+  start?: number;
+  end?: number;
+  sourceStart?: number;
+  sourceEnd?: number;
+  // Page numbers in the suspect and source documents, when they come from paginated files
+  page?: number;
+  sourcePage?: number;
+  // 1-based line ranges in the suspect and source files, for source code matches
+  startLine?: number;
+  endLine?: number;
+  sourceStartLine?: number;
+  sourceEndLine?: number;
+}
+
+interface AnalyzedSentence extends SentenceSpan {
+  // All word tokens in order, for telling verbatim copies apart
+  tokens: string;
+  words: string[];
+  normalizedWords: string[];
+  embedding?: Float32Array;
+}
+
+interface SentenceComparison {
+  similarity: number;
+  matchType: MatchType;
 }
 
 export class PlagiarismDetector {
-  private static readonly MIN_SENTENCE_LENGTH = 15;
-  private static readonly MIN_WORD_LENGTH = 3;
-  private static readonly SIMILARITY_THRESHOLD = 75;
-
-  static calculateSimilarity(text1: string, text2: string): number {
-    const words1 = this.getSignificantWords(text1);
-    const words2 = this.getSignificantWords(text2);
-    
-    if (words1.length === 0 || words2.length === 0) return 0;
+  // Scripts without spaces pack a sentence into far fewer characters (relative to `minSentenceLength`)
+  private static readonly SPACELESS_SENTENCE_RATIO = 0.4;
+  // Embedding similarity needed to call a pair a paraphrase; stricter than word overlap,
+  // since hashed embeddings give partial credit for shared character trigrams
+  private static readonly SEMANTIC_THRESHOLD = 80;
+  // Sentence pairs must share this many normalized words before embeddings are compared
+  private static readonly SEMANTIC_MIN_SHARED_WORDS = 2;
+  private static readonly MAX_SEMANTIC_SOURCES = 5;
 
-    // Use Jaccard similarity for better accuracy
-    const set1 = new Set(words1);
-    const set2 = new Set(words2);
-    
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
-    
-    return Math.round((intersection.size / union.size) * 100);
+  // Word sets and sentences of corpus documents, so they aren't re-tokenized on every upload;
+  // keyed by the settings that change them
+  private static readonly wordSetCache = new WeakMap<DetectionResult, Map<string, Set<string>>>();
+  private static readonly sentenceCache = new WeakMap<DetectionResult, Map<string, AnalyzedSentence[]>>();
+  private static readonly languageCache = new WeakMap<DetectionResult, LanguageCode>();
+  private static embedder: SentenceEmbedder = new HashedSentenceEmbedder();
+
+  // Swaps in another offline embedder, e.g. one backed by a bundled sentence model
+  static setSentenceEmbedder(embedder: SentenceEmbedder): void {
+    this.embedder = embedder;
   }
 
-  static findDetailedMatches(text: string, existingResults: DetectionResult[]): MatchedSentence[] {
-    const sentences = this.extractSentences(text);
+  static calculateSimilarity(text1: string, text2: string, config: DetectionConfig = DEFAULT_DETECTION_CONFIG): number {
+    const language1 = Language.detect(text1);
+    const language2 = Language.detect(text2);
+    if (!Language.isCompatible(language1, language2)) return 0;
+    return this.jaccard(
+      new Set(this.getSignificantWords(text1, language1, config)),
+      new Set(this.getSignificantWords(text2, language2, config))
+    );
+  }
+
+  // Highest Jaccard similarity of word sets against the corpus, only scoring documents the index
+  // reports as sharing at least one fingerprint with the text. Secondary to the coverage score.
+  static calculateCorpusSimilarity(
+    text: string,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex,
+    config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+  ): number {
+    const language = Language.detect(text);
+    const candidateIds = new Set(index.query(text).map(candidate => candidate.documentId));
+    const candidates = existingResults.filter(result =>
+      candidateIds.has(result.id) && Language.isCompatible(language, this.getLanguage(result))
+    );
+    if (candidates.length === 0) return 0;
+
+    const words = new Set(this.getSignificantWords(text, language, config));
+    return SimilarityScore.closestSource(candidates.map(result => this.jaccard(words, this.getCachedWordSet(result, config))));
+  }
+
+  // Returns up to `maxMatches` scored matches followed by up to `maxMatches` matches that fall
+  // inside excluded parts of the text (marked with `exclusion`)
+  static findDetailedMatches(
+    text: string,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex = FingerprintIndex.fromDocuments(existingResults),
+    config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+    excludedSpans: ExcludedSpan[] = DocumentStructure.select(DocumentStructure.analyze(text), config)
+  ): MatchedSentence[] {
+    return this.limitMatches(this.findAllMatches(text, existingResults, index, config, excludedSpans), config);
+  }
+
+  // Every matched sentence pair, most similar first; the coverage score needs all of them
+  static findAllMatches(
+    text: string,
+    existingResults: DetectionResult[],
+    index: FingerprintIndex,
+    config: DetectionConfig,
+    excludedSpans: ExcludedSpan[]
+  ): MatchedSentence[] {
+    const { semanticMatching } = config;
+    const language = Language.detect(text);
+    const sentences = this.analyzeSentences(text, language, config);
+    const resultsById = new Map(existingResults
+      .filter(result => Language.isCompatible(language, this.getLanguage(result)))
+      .map(result => [result.id, result]));
     const matches: MatchedSentence[] = [];
 
-    existingResults.forEach(result => {
-      const existingSentences = this.extractSentences(result.content);
-      
-      sentences.forEach(sentence => {
-        existingSentences.forEach(existingSentence => {
-          const similarity = this.calculateSentenceSimilarity(sentence, existingSentence);
-          
-          if (similarity >= this.SIMILARITY_THRESHOLD) {
-            matches.push({
-              sentence: sentence.substring(0, 200) + (sentence.length > 200 ? '...' : ''),
-              similarity,
-              sourceFile: result.fileName
-            });
-          }
-        });
+    const addMatch = (result: DetectionResult, suspect: AnalyzedSentence, source: AnalyzedSentence, comparison: SentenceComparison) => {
+      const sentence = suspect.text;
+      matches.push({
+        sentence: sentence.substring(0, 200) + (sentence.length > 200 ? '...' : ''),
+        similarity: comparison.similarity,
+        sourceFile: result.fileName,
+        matchType: comparison.matchType,
+        sourceId: result.id,
+        start: suspect.start,
+        end: suspect.end,
+        sourceStart: source.start,
+        sourceEnd: source.end,
+        exclusion: DocumentStructure.classify(excludedSpans, suspect.start, suspect.end)
+      });
+    };
+
+    // Only sentence pairs that overlap a region sharing fingerprints are compared
+    // Documents outside the corpus given (another language or comparison scope) don't take up semantic matching slots
+    index.query(text).filter(candidate => resultsById.has(candidate.documentId)).forEach((candidate, candidateRank) => {
+      const result = resultsById.get(candidate.documentId)!;
+
+      const existingSentences = this.getCachedSentences(result, config);
+      const compared = new Set<string>();
+      const compare = (i: number, j: number) => {
+        const key = `${i}:${j}`;
+        if (compared.has(key)) return;
+        compared.add(key);
+
+        const comparison = this.compareSentences(sentences[i], existingSentences[j], config);
+        if (comparison) addMatch(result, sentences[i], existingSentences[j], comparison);
+      };
+
+      candidate.regions.forEach(region => {
+        const suspectIndexes = this.overlappingSpans(sentences, region.queryStart, region.queryEnd);
+        const sourceIndexes = this.overlappingSpans(existingSentences, region.sourceStart, region.sourceEnd);
+        suspectIndexes.forEach(i => sourceIndexes.forEach(j => compare(i, j)));
       });
+
+      // Reworded sentences rarely share whole k-grams, so for the strongest candidates also
+      // compare every sentence pair with enough normalized words in common
+      if (semanticMatching && candidateRank < this.MAX_SEMANTIC_SOURCES) {
+        const sentencesByWord = new Map<string, number[]>();
+        existingSentences.forEach((sentence, j) => {
+          new Set(sentence.normalizedWords).forEach(word => sentencesByWord.set(word, [...(sentencesByWord.get(word) ?? []), j]));
+        });
+
+        sentences.forEach((sentence, i) => {
+          const sharedWords = new Map<number, number>();
+          new Set(sentence.normalizedWords).forEach(word => {
+            sentencesByWord.get(word)?.forEach(j => sharedWords.set(j, (sharedWords.get(j) ?? 0) + 1));
+          });
+          sharedWords.forEach((count, j) => {
+            if (count >= this.SEMANTIC_MIN_SHARED_WORDS) compare(i, j);
+          });
+        });
+      }
     });
 
-    // Sort by similarity and return top matches
-    return matches
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, 5);
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // Keeps the first `maxMatches` scored and the first `maxMatches` excluded matches
+  static limitMatches(matches: MatchedSentence[], config: DetectionConfig): MatchedSentence[] {
+    return [
+      ...matches.filter(match => !match.exclusion).slice(0, config.maxMatches),
+      ...matches.filter(match => match.exclusion).slice(0, config.maxMatches)
+    ];
+  }
+
+  // Exact word overlap first; failing that, overlap after stemming and synonym folding,
+  // and (when enabled) embedding similarity
+  private static compareSentences(suspect: AnalyzedSentence, source: AnalyzedSentence, config: DetectionConfig): SentenceComparison | null {
+    const similarity = this.calculateSentenceSimilarity(suspect.words, source.words);
+    if (similarity >= config.similarityThreshold) {
+      return { similarity, matchType: suspect.tokens === source.tokens ? 'verbatim' : 'near-verbatim' };
+    }
+
+    const normalizedSimilarity = this.calculateSentenceSimilarity(suspect.normalizedWords, source.normalizedWords);
+    if (normalizedSimilarity >= config.similarityThreshold) {
+      return { similarity: normalizedSimilarity, matchType: 'paraphrased' };
+    }
+
+    if (config.semanticMatching && suspect.embedding && source.embedding) {
+      const semanticSimilarity = cosineSimilarity(suspect.embedding, source.embedding);
+      if (semanticSimilarity >= this.SEMANTIC_THRESHOLD) {
+        return { similarity: semanticSimilarity, matchType: 'paraphrased' };
+      }
+    }
+    return null;
   }
 
-  private static getSignificantWords(text: string): string[] {
-    return text
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => 
-        word.length >= this.MIN_WORD_LENGTH && 
-        !this.isStopWord(word) &&
-        /^[a-zA-Z]+$/.test(word)
+  private static getSignificantWords(text: string, language: LanguageCode, config: DetectionConfig): string[] {
+    return Tokenizer.words(text)
+      .map(token => token.value)
+      .filter(word =>
+        // A single character is a whole word in Chinese or Japanese
+        (word.length >= config.minWordLength || Tokenizer.isSpaceless(word)) &&
+        !Language.isStopWord(word, language) &&
+        /\p{L}/u.test(word)
       );
   }
 
-  private static extractSentences(text: string): string[] {
-    return text
-      .split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length >= this.MIN_SENTENCE_LENGTH);
+  private static extractSentenceSpans(text: string, config: DetectionConfig): SentenceSpan[] {
+    const spacelessMinLength = Math.ceil(config.minSentenceLength * this.SPACELESS_SENTENCE_RATIO);
+    return Tokenizer.sentences(text).filter(span =>
+      span.text.length >= (Tokenizer.isSpaceless(span.text) ? spacelessMinLength : config.minSentenceLength)
+    );
+  }
+
+  private static overlappingSpans(spans: SentenceSpan[], start: number, end: number): number[] {
+    return spans
+      .map((span, index) => (span.start < end && span.end > start ? index : -1))
+      .filter(index => index >= 0);
   }
 
-  private static calculateSentenceSimilarity(sentence1: string, sentence2: string): number {
-    const words1 = this.getSignificantWords(sentence1);
-    const words2 = this.getSignificantWords(sentence2);
-    
+  private static analyzeSentences(text: string, language: LanguageCode, config: DetectionConfig): AnalyzedSentence[] {
+    return this.extractSentenceSpans(text, config).map(span => {
+      const words = this.getSignificantWords(span.text, language, config);
+      return {
+        ...span,
+        tokens: Tokenizer.words(span.text).map(token => token.value).join(' '),
+        words,
+        normalizedWords: words.map(word => TextNormalizer.normalize(word)),
+        embedding: config.semanticMatching ? this.embedder.embed(words) : undefined
+      };
+    });
+  }
+
+  private static getCachedSentences(result: DetectionResult, config: DetectionConfig): AnalyzedSentence[] {
+    const byConfig = this.sentenceCache.get(result) ?? new Map<string, AnalyzedSentence[]>();
+    this.sentenceCache.set(result, byConfig);
+
+    const key = `${config.minSentenceLength}:${config.minWordLength}`;
+    let sentences = byConfig.get(key);
+    if (!sentences || (config.semanticMatching && sentences.some(sentence => !sentence.embedding))) {
+      sentences = this.analyzeSentences(result.content, this.getLanguage(result), config);
+      byConfig.set(key, sentences);
+    }
+    return sentences;
+  }
+
+  private static getCachedWordSet(result: DetectionResult, config: DetectionConfig): Set<string> {
+    const byConfig = this.wordSetCache.get(result) ?? new Map<string, Set<string>>();
+    this.wordSetCache.set(result, byConfig);
+
+    const key = String(config.minWordLength);
+    let words = byConfig.get(key);
+    if (!words) {
+      words = new Set(this.getSignificantWords(result.content, this.getLanguage(result), config));
+      byConfig.set(key, words);
+    }
+    return words;
+  }
+
+  private static getLanguage(result: DetectionResult): LanguageCode {
+    if (result.language) return result.language;
+    let language = this.languageCache.get(result);
+    if (!language) {
+      language = Language.detect(result.content);
+      this.languageCache.set(result, language);
+    }
+    return language;
+  }
+
+  private static jaccard(set1: Set<string>, set2: Set<string>): number {
+    if (set1.size === 0 || set2.size === 0) return 0;
+
+    // Use Jaccard similarity for better accuracy
+    const intersection = [...set1].filter(x => set2.has(x)).length;
+    const union = new Set([...set1, ...set2]).size;
+
+    return Math.round((intersection / union) * 100);
+  }
+
+  private static calculateSentenceSimilarity(words1: string[], words2: string[]): number {
     if (words1.length === 0 || words2.length === 0) return 0;
 
     const commonWords = words1.filter(word => words2.includes(word));
     return Math.round((commonWords.length / Math.max(words1.length, words2.length)) * 100);
   }
 
-  private static isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those'
-    ]);
-    return stopWords.has(word);
+  // Annotates matches with the page they start on in the suspect and source documents
+  static locatePages(matches: MatchedSentence[], pageMap: PageRange[] | undefined, existingResults: DetectionResult[]): MatchedSentence[] {
+    const resultsById = new Map(existingResults.map(result => [result.id, result]));
+    return matches.map(match => {
+      const source = match.sourceId ? resultsById.get(match.sourceId) : undefined;
+      const page = match.start !== undefined ? this.pageAt(pageMap, match.start) : undefined;
+      const sourcePage = match.sourceStart !== undefined ? this.pageAt(source?.pageMap, match.sourceStart) : undefined;
+      return { ...match, page, sourcePage };
+    });
+  }
+
+  static pageAt(pageMap: PageRange[] | undefined, offset: number): number | undefined {
+    if (!pageMap || pageMap.length === 0) return undefined;
+
+    // Binary search for the last page starting at or before the offset
+    let low = 0;
+    let high = pageMap.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (pageMap[mid].start <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return pageMap[low].pageNumber;
+  }
+
+  // "p. 4 ↔ p. 12" style citation, or "lines 3–9 ↔ lines 40–46" for code; empty when neither document is paginated
+  static formatPageCitation(match: MatchedSentence): string {
+    if (match.startLine !== undefined && match.sourceStartLine !== undefined) {
+      const formatLines = (start: number, end?: number) => (end === undefined || end === start ? `line ${start}` : `lines ${start}–${end}`);
+      return `${formatLines(match.startLine, match.endLine)} ↔ ${formatLines(match.sourceStartLine, match.sourceEndLine)}`;
+    }
+    if (match.page === undefined && match.sourcePage === undefined) return '';
+    const format = (page?: number) => (page !== undefined ? `p. ${page}` : '—');
+    return `${format(match.page)} ↔ ${format(match.sourcePage)}`;
   }
 
   static getWordCount(text: string): number {
-    return text.split(/\s+/).filter(word => word.length > 0).length;
+    return Tokenizer.words(text).length;
   }
 }
 
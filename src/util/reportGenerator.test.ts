@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { ReportGenerator } from './reportGenerator';
+import type { DetectionResult } from './plagiarismDetector';
+
+const RESULT: DetectionResult = {
+  id: 'a',
+  fileName: '=HYPERLINK("http://example.com","open").txt',
+  fileType: 'text/plain',
+  content: 'Essay text.',
+  similarity: 12,
+  matches: [],
+  timestamp: new Date('2026-10-01T12:00:00Z'),
+  wordCount: 2,
+  studentId: '@SUM(A1:A9)',
+  author: '+1 555 0100'
+};
+
+describe('ReportGenerator CSV export', () => {
+  it('keeps student-supplied text from running as a spreadsheet formula', () => {
+    const [header, row] = ReportGenerator.toCSV([RESULT]).split('\n');
+    const columns = header.split(',');
+    const cells = row.match(/("(?:[^"]|"")*"|[^,]*)(?:,|$)/g)!.map(cell => cell.replace(/,$/, ''));
+
+    expect(cells[columns.indexOf('fileName')]).toBe('"\'=HYPERLINK(""http://example.com"",""open"").txt"');
+    expect(cells[columns.indexOf('studentId')]).toBe('\'@SUM(A1:A9)');
+    expect(cells[columns.indexOf('author')]).toBe('\'+1 555 0100');
+    expect(cells[columns.indexOf('similarity')]).toBe('12');
+  });
+});
@@ -0,0 +1,319 @@
+import { PlagiarismDetector, DetectionResult, MatchedSentence, MATCH_TYPE_LABELS } from './plagiarismDetector';
+import { EXCLUSION_LABELS } from './documentStructure';
+import { Language } from './language';
+import { getSimilarityBand } from './detectionConfig';
+import { CODE_LANGUAGE_NAMES } from './codeTokenizer';
+import { OBFUSCATION_LABELS, ObfuscationAnalyzer } from './obfuscationAnalyzer';
+import { REVIEW_STATUS_LABELS, ReviewWorkflow } from './reviewWorkflow';
+import { COMPARISON_SCOPE_LABELS, Collections } from './collections';
+
+export interface SourceBreakdown {
+  sourceFile: string;
+  // Share of the document's text matched to the source and its longest matched run in words;
+  // absent on results saved before coverage scoring
+  share?: number;
+  longestRun?: number;
+  matchCount: number;
+  topSimilarity: number;
+  pageCitations: string[];
+}
+
+interface JSONExportOptions {
+  includeContent?: boolean;
+}
+
+const escapeHTML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Spreadsheets run text cells starting with these as formulas, so such cells get a leading quote.
+// Numbers are written as they are, so negative values stay numeric.
+const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCSV = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && CSV_FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const HIGHLIGHT_COLORS = ['#fed7aa', '#bae6fd', '#d9f99d', '#f5d0fe', '#99f6e4'];
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1f2937; max-width: 900px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .score { font-size: 40px; font-weight: 700; }
+  .low { color: #16a34a; } .medium { color: #ca8a04; } .high { color: #dc2626; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; }
+  code { font-size: 12px; word-break: break-all; }
+  .passage { border-left: 4px solid #fb923c; background: #f9fafb; padding: 8px 12px; margin: 8px 0; font-size: 14px; }
+  .passage.excluded { border-left-color: #d1d5db; color: #6b7280; }
+  .passage.tampering { border-left-color: #dc2626; background: #fef2f2; }
+  .document { white-space: pre-wrap; font-size: 13px; background: #f9fafb; padding: 16px; border-radius: 8px; }
+  .document.code { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  mark { padding: 0 2px; border-radius: 2px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } .passage { break-inside: avoid; } }
+`;
+
+export class ReportGenerator {
+  // Sources by share of the text, then by their closest match. Coverage covers every match, while
+  // page citations only come from the listed ones. Dismissed matches don't count.
+  static getSourceBreakdown(result: DetectionResult): SourceBreakdown[] {
+    const bySource = new Map<string, MatchedSentence[]>();
+    this.scoredMatches(result).forEach(match => {
+      const key = match.sourceId ?? match.sourceFile;
+      bySource.set(key, [...(bySource.get(key) ?? []), match]);
+    });
+    const coverage = new Map((result.sources ?? []).map(source => [source.sourceId ?? source.sourceFile, source]));
+
+    return [...new Set([...coverage.keys(), ...bySource.keys()])]
+      .map(key => {
+        const matches = bySource.get(key) ?? [];
+        const source = coverage.get(key);
+        return {
+          sourceFile: source?.sourceFile ?? matches[0].sourceFile,
+          share: source?.share,
+          longestRun: source?.longestRun.words,
+          matchCount: source?.matchCount ?? matches.length,
+          topSimilarity: source?.topSimilarity ?? Math.max(...matches.map(match => match.similarity)),
+          pageCitations: matches.map(match => PlagiarismDetector.formatPageCitation(match)).filter(citation => citation)
+        };
+      })
+      .sort((a, b) => (b.share ?? 0) - (a.share ?? 0) || b.topSimilarity - a.topSimilarity);
+  }
+
+  // The secondary, whole-document figure and what it measures
+  static formatClosestSource(result: DetectionResult): string | undefined {
+    if (result.closestSourceSimilarity === undefined) return undefined;
+    return `${result.closestSourceSimilarity}% ${result.codeLanguage ? 'shared fingerprints' : 'Jaccard word overlap'} with the closest single document`;
+  }
+
+  // Listed matches a reviewer hasn't dismissed
+  static scoredMatches(result: DetectionResult): MatchedSentence[] {
+    return result.matches.filter(match => !ReviewWorkflow.isDismissed(result, match));
+  }
+
+  static toHTML(result: DetectionResult): string {
+    const generatedAt = new Date();
+    const band = getSimilarityBand(result.similarity, result.profile?.config);
+    const breakdown = this.getSourceBreakdown(result);
+    const review = ReviewWorkflow.get(result);
+    const ocrPages = result.pages?.filter(page => page.ocr) ?? [];
+    const sourceColors = new Map(breakdown.map((source, i) => [source.sourceFile, HIGHLIGHT_COLORS[i % HIGHLIGHT_COLORS.length]]));
+
+    const metadataRows: [string, string][] = [
+      ['File', escapeHTML(result.fileName)],
+      ['File type', escapeHTML(result.fileType || 'unknown')],
+      ['Uploaded', escapeHTML(result.timestamp.toLocaleString())],
+      ['Words', result.wordCount.toLocaleString()],
+      ['Language', escapeHTML(result.codeLanguage ? CODE_LANGUAGE_NAMES[result.codeLanguage] : Language.getName(result.language))],
+      ['Pages / sections', result.pageCount ? String(result.pageCount) : '—'],
+      ['OCR used', ocrPages.length > 0
+        ? `Yes, on ${ocrPages.length} page(s) (p. ${ocrPages.map(page => `${page.pageNumber}: ${page.confidence}%`).join(', ')})`
+        : 'No'],
+      ['Not compared', escapeHTML(result.skippedContent?.join(', ') || '—')],
+      ['Detection profile', escapeHTML(result.profile?.name ?? '—')],
+      ['Course', escapeHTML(result.course ? Collections.formatCourse({ name: result.course, term: result.term }) : '—')],
+      ['Assignment', escapeHTML(result.assignment ?? '—')],
+      ['Student ID', escapeHTML(result.studentId ?? '—')],
+      ['Compared with', COMPARISON_SCOPE_LABELS[result.comparisonScope ?? 'all']],
+      ['Template coverage', result.templateCoverage !== undefined ? `${result.templateCoverage}% (not scored)` : '—'],
+      ['Author', escapeHTML(result.author ?? '—')],
+      ['AI-likeness (style)', result.style
+        ? `${result.style.aiLikeness}/100${result.style.signals.length > 0 ? ` (${escapeHTML(result.style.signals.map(signal => signal.description).join('; '))})` : ''}`
+        : '—'],
+      ['Style consistency', result.authorConsistency
+        ? escapeHTML(result.authorConsistency.shifted
+          ? `Differs from ${result.authorConsistency.comparedWith} earlier submission(s): ${result.authorConsistency.shifts.map(shift => `${shift.label} ${shift.value} (usually ${shift.baseline})`).join('; ')}`
+          : `Consistent with ${result.authorConsistency.comparedWith} earlier submission(s)`)
+        : '—'],
+      ['Review status', REVIEW_STATUS_LABELS[review.status]],
+      ['File size', result.fileSize !== undefined ? `${result.fileSize.toLocaleString()} bytes` : '—'],
+      ['SHA-256', result.fileHash ? `<code>${result.fileHash}</code>` : '—']
+    ];
+
+    const renderPassage = (match: MatchedSentence) => {
+      const dismissal = ReviewWorkflow.findDismissal(result, match);
+      return `
+      <div class="passage${match.exclusion || dismissal ? ' excluded' : ''}">
+        <div class="muted">${dismissal ? `Dismissed by ${escapeHTML(dismissal.dismissedBy)} (${escapeHTML(dismissal.reason)}) &middot; ` : ''}${match.exclusion ? `${EXCLUSION_LABELS[match.exclusion]} &middot; ` : ''}${match.matchType ? `${MATCH_TYPE_LABELS[match.matchType]} &middot; ` : ''}${match.similarity}% similarity with ${escapeHTML(match.sourceFile)}${PlagiarismDetector.formatPageCitation(match) ? ` &middot; ${escapeHTML(PlagiarismDetector.formatPageCitation(match))}` : ''}</div>
+        “${escapeHTML(match.sentence)}”
+      </div>`;
+    };
+    const excludedMatches = result.excludedMatches ?? [];
+    const obfuscation = result.obfuscation ?? [];
+
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Plagiarism report – ${escapeHTML(result.fileName)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Plagiarism Report</h1>
+  <p class="muted">Generated ${escapeHTML(generatedAt.toLocaleString())} (${generatedAt.toISOString()})</p>
+
+  <div class="score ${band}">${result.similarity}%</div>
+  <p class="muted">${result.closestSourceSimilarity !== undefined
+    ? `Share of the text matched to the comparison corpus &middot; ${escapeHTML(this.formatClosestSource(result)!)}`
+    : 'Overall similarity against the comparison corpus'}</p>
+
+  ${obfuscation.length > 0 ? `<h2 class="high">Tampering detected</h2>
+  <p class="muted">${escapeHTML(ObfuscationAnalyzer.summarize(obfuscation))}. The text was compared as a reader sees it.</p>
+  ${obfuscation.map(finding => `
+  <div class="passage tampering">
+    <div class="muted">${OBFUSCATION_LABELS[finding.kind]}${finding.pageNumber !== undefined ? ` &middot; p. ${finding.pageNumber}` : ''} &middot; ${escapeHTML(finding.detail)} &middot; characters ${finding.start}–${finding.end}</div>
+    “${escapeHTML(finding.original)}”
+  </div>`).join('')}` : ''}
+
+  <h2>Submission</h2>
+  <table>${metadataRows.map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`).join('')}</table>
+
+  <h2>Sources</h2>
+  ${breakdown.length === 0 ? '<p class="muted">No matching sources were found.</p>' : `
+  <table>
+    <tr><th>Source</th><th>Share of text</th><th>Longest run</th><th>Matched passages</th><th>Highest similarity</th><th>Pages</th></tr>
+    ${breakdown.map(source => `<tr>
+      <td><mark style="background:${sourceColors.get(source.sourceFile)}">${escapeHTML(source.sourceFile)}</mark></td>
+      <td>${source.share !== undefined ? `${source.share}%` : '—'}</td>
+      <td>${source.longestRun !== undefined ? `${source.longestRun} words` : '—'}</td>
+      <td>${source.matchCount}</td>
+      <td>${source.topSimilarity}%</td>
+      <td>${escapeHTML(source.pageCitations.join('; ') || '—')}</td>
+    </tr>`).join('')}
+  </table>`}
+
+  ${result.matches.length > 0 ? `<h2>Matched passages</h2>${result.matches.map(renderPassage).join('')}` : ''}
+
+  ${excludedMatches.length > 0 ? `<h2>Excluded matches</h2>
+  <p class="muted">Inside quotations, citations or the bibliography. Listed for review; not counted in the score.</p>
+  ${excludedMatches.map(renderPassage).join('')}` : ''}
+
+  ${review.audit.length > 0 ? `<h2>Review</h2>
+  <p><strong>${REVIEW_STATUS_LABELS[review.status]}</strong></p>
+  ${review.notes ? `<p>${escapeHTML(review.notes)}</p>` : ''}
+  <table>
+    <tr><th>When</th><th>Reviewer</th><th>Change</th></tr>
+    ${review.audit.map(entry => `<tr><td>${escapeHTML(entry.at.toLocaleString())}</td><td>${escapeHTML(entry.by)}</td><td>${escapeHTML(entry.detail)}</td></tr>`).join('')}
+  </table>` : ''}
+
+  <h2>Document text</h2>
+  <div class="document${result.codeLanguage ? ' code' : ''}">${this.highlightContent(result, sourceColors)}</div>
+</body>
+</html>`;
+  }
+
+  private static highlightContent(result: DetectionResult, sourceColors: Map<string, string>): string {
+    const spans = this.scoredMatches(result)
+      .filter(match => match.start !== undefined && match.end !== undefined)
+      .sort((a, b) => a.start! - b.start!);
+
+    let html = '';
+    let cursor = 0;
+    spans.forEach(match => {
+      const start = Math.max(match.start!, cursor);
+      if (start >= match.end!) return;
+      html += escapeHTML(result.content.slice(cursor, start));
+      html += `<mark style="background:${sourceColors.get(match.sourceFile)}" title="${escapeHTML(match.sourceFile)}">${escapeHTML(result.content.slice(start, match.end!))}</mark>`;
+      cursor = match.end!;
+    });
+    return html + escapeHTML(result.content.slice(cursor));
+  }
+
+  // Opens the HTML report in a new window and hands it to the browser's print dialog ("Save as PDF")
+  static printAsPDF(result: DetectionResult): void {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      throw new Error('The report window was blocked. Please allow pop-ups for this site.');
+    }
+    reportWindow.document.open();
+    reportWindow.document.write(this.toHTML(result));
+    reportWindow.document.close();
+    // The report has no external resources, so it is ready to print as soon as it is written
+    reportWindow.focus();
+    reportWindow.print();
+  }
+
+  static toJSON(results: DetectionResult[], options: JSONExportOptions = {}): string {
+    const { includeContent = false } = options;
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        results: results.map(({ content, pageMap, ...result }) => ({
+          ...result,
+          timestamp: result.timestamp.toISOString(),
+          ...(includeContent ? { content, pageMap } : {})
+        }))
+      },
+      null,
+      2
+    );
+  }
+
+  static toCSV(results: DetectionResult[]): string {
+    const header = [
+      'id', 'fileName', 'fileType', 'timestamp', 'language', 'similarity', 'wordCount', 'pageCount',
+      'closestSourceSimilarity', 'matchCount', 'excludedMatchCount', 'topSource', 'topSourceShare', 'topMatchSimilarity',
+      'ocrPages', 'fileHash', 'profile', 'course', 'term', 'assignment', 'studentId', 'comparisonScope', 'templateCoverage', 'author', 'aiLikeness', 'styleShift', 'tamperingFindings',
+      'reviewStatus', 'dismissedMatchCount'
+    ];
+    const rows = results.map(result => {
+      const topSource = this.getSourceBreakdown(result)[0];
+      return [
+        result.id,
+        result.fileName,
+        result.fileType,
+        result.timestamp.toISOString(),
+        result.codeLanguage ?? result.language,
+        result.similarity,
+        result.wordCount,
+        result.pageCount,
+        result.closestSourceSimilarity,
+        this.scoredMatches(result).length,
+        result.excludedMatches?.length ?? 0,
+        topSource?.sourceFile,
+        topSource?.share,
+        topSource?.topSimilarity,
+        result.pages?.filter(page => page.ocr).length ?? 0,
+        result.fileHash,
+        result.profile?.name,
+        result.course,
+        result.term,
+        result.assignment,
+        result.studentId,
+        result.comparisonScope ?? 'all',
+        result.templateCoverage,
+        result.author,
+        result.style?.aiLikeness,
+        result.authorConsistency && (result.authorConsistency.shifted ? 'yes' : 'no'),
+        result.obfuscation?.length ?? 0,
+        ReviewWorkflow.get(result).status,
+        result.matches.length - this.scoredMatches(result).length
+      ].map(escapeCSV).join(',');
+    });
+    return [header.join(','), ...rows].join('\r\n');
+  }
+
+  static download(content: Blob | string, fileName: string, type = 'text/plain'): void {
+    const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  static getReportFileName(result: DetectionResult, extension: string): string {
+    const baseName = result.fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+    return `plagiarism-report-${baseName}.${extension}`;
+  }
+}
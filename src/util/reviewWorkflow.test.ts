@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewWorkflow } from './reviewWorkflow';
+import type { DetectionResult, MatchedSentence } from './plagiarismDetector';
+
+const MATCH: MatchedSentence = {
+  sentence: 'Plants absorb carbon dioxide through small pores in their leaves.',
+  similarity: 92,
+  sourceFile: 'source.txt',
+  sourceId: 'source',
+  start: 120,
+  end: 185
+};
+
+const RESULT: DetectionResult = {
+  id: 'a',
+  fileName: 'a.txt',
+  fileType: 'text/plain',
+  content: 'Essay text.',
+  similarity: 92,
+  matches: [MATCH],
+  timestamp: new Date('2026-10-01T12:00:00Z'),
+  wordCount: 2
+};
+
+describe('ReviewWorkflow match dismissals', () => {
+  it('still apply after a re-run moves the matched passage', () => {
+    const reviewed = ReviewWorkflow.dismissMatch(RESULT, MATCH, 'Properly cited', 'Ada');
+    const moved = { ...MATCH, sentence: 'Plants absorb carbon dioxide  through small pores in their LEAVES', start: 40, end: 104 };
+    expect(ReviewWorkflow.findDismissal(reviewed, moved)?.reason).toBe('Properly cited');
+  });
+
+  it('tell different passages and sources apart', () => {
+    const reviewed = ReviewWorkflow.dismissMatch(RESULT, MATCH, 'Common phrase', 'Ada');
+    expect(ReviewWorkflow.isDismissed(reviewed, { ...MATCH, sentence: 'Leaves take in light.' })).toBe(false);
+    expect(ReviewWorkflow.isDismissed(reviewed, { ...MATCH, sourceId: 'other' })).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+import type { DetectionResult, MatchedSentence } from './plagiarismDetector';
+import { Tokenizer } from './tokenizer';
+
+export type ReviewStatus = 'pending' | 'cleared' | 'escalated' | 'confirmed';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'cleared', 'escalated', 'confirmed'];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending review',
+  cleared: 'Cleared',
+  escalated: 'Escalated',
+  confirmed: 'Confirmed plagiarism'
+};
+
+// A match a reviewer judged a false positive; it stays listed but no longer counts towards the score
+export interface MatchDismissal {
+  matchKey: string;
+  reason: string;
+  dismissedBy: string;
+  dismissedAt: Date;
+}
+
+export type AuditAction = 'status' | 'dismiss' | 'restore' | 'notes';
+
+// Entries are only ever appended, so the trail shows every decision and who made it
+export interface AuditEntry {
+  action: AuditAction;
+  by: string;
+  at: Date;
+  detail: string;
+}
+
+export interface Review {
+  status: ReviewStatus;
+  notes: string;
+  dismissals: MatchDismissal[];
+  audit: AuditEntry[];
+}
+
+// Reasons offered when dismissing a match; reviewers can type their own
+export const DISMISSAL_REASONS = [
+  'Common phrase',
+  'Properly cited',
+  'Student’s own earlier work',
+  'Shared course material'
+];
+
+const REVIEWER_STORAGE_KEY = 'plagiarism-checker.reviewer';
+
+// Longest note excerpt quoted in the audit trail
+const NOTE_EXCERPT_LENGTH = 80;
+
+export class ReviewWorkflow {
+  // Results that have never been reviewed carry no review at all
+  static get(result: DetectionResult): Review {
+    return result.review ?? { status: 'pending', notes: '', dismissals: [], audit: [] };
+  }
+
+  // Identifies a match across re-runs of the same document: the source and the matched words, so the
+  // key survives re-runs with other sentence settings that shift offsets; offsets are only for display
+  static matchKey(match: MatchedSentence): string {
+    const words = Tokenizer.words(match.sentence).map(token => token.value.toLowerCase()).join(' ');
+    return `${match.sourceId ?? match.sourceFile}#${this.hash(words)}`;
+  }
+
+  static findDismissal(result: DetectionResult, match: MatchedSentence): MatchDismissal | undefined {
+    const key = this.matchKey(match);
+    return result.review?.dismissals.find(dismissal => dismissal.matchKey === key);
+  }
+
+  static isDismissed(result: DetectionResult, match: MatchedSentence): boolean {
+    return this.findDismissal(result, match) !== undefined;
+  }
+
+  static setStatus(result: DetectionResult, status: ReviewStatus, reviewer: string): DetectionResult {
+    const review = this.get(result);
+    if (review.status === status) return result;
+    return this.record(result, { ...review, status }, {
+      action: 'status',
+      by: reviewer,
+      detail: `${REVIEW_STATUS_LABELS[review.status]} → ${REVIEW_STATUS_LABELS[status]}`
+    });
+  }
+
+  static setNotes(result: DetectionResult, notes: string, reviewer: string): DetectionResult {
+    const review = this.get(result);
+    if (review.notes === notes) return result;
+    const excerpt = notes.length > NOTE_EXCERPT_LENGTH ? `${notes.slice(0, NOTE_EXCERPT_LENGTH)}…` : notes;
+    return this.record(result, { ...review, notes }, {
+      action: 'notes',
+      by: reviewer,
+      detail: notes ? `Notes: “${excerpt}”` : 'Notes cleared'
+    });
+  }
+
+  static dismissMatch(result: DetectionResult, match: MatchedSentence, reason: string, reviewer: string): DetectionResult {
+    if (!reason.trim()) throw new Error('Give a reason for dismissing the match.');
+    const review = this.get(result);
+    const matchKey = this.matchKey(match);
+    const dismissal = { matchKey, reason: reason.trim(), dismissedBy: reviewer, dismissedAt: new Date() };
+    return this.record(result, {
+      ...review,
+      dismissals: [...review.dismissals.filter(existing => existing.matchKey !== matchKey), dismissal]
+    }, {
+      action: 'dismiss',
+      by: reviewer,
+      detail: `Dismissed match with ${match.sourceFile} (${dismissal.reason}): “${match.sentence}”`
+    });
+  }
+
+  static restoreMatch(result: DetectionResult, match: MatchedSentence, reviewer: string): DetectionResult {
+    const review = this.get(result);
+    const matchKey = this.matchKey(match);
+    return this.record(result, {
+      ...review,
+      dismissals: review.dismissals.filter(dismissal => dismissal.matchKey !== matchKey)
+    }, {
+      action: 'restore',
+      by: reviewer,
+      detail: `Restored match with ${match.sourceFile}: “${match.sentence}”`
+    });
+  }
+
+  // Adds the audit entries only `other` has to `kept`, whose decisions stand; used when two graders
+  // changed the same document, so the trail stays complete whichever change wins
+  static mergeAudit(kept: DetectionResult, other: DetectionResult): DetectionResult {
+    const entryKey = (entry: AuditEntry) => `${entry.at.getTime()}|${entry.by}|${entry.action}|${entry.detail}`;
+    const known = new Set((kept.review?.audit ?? []).map(entryKey));
+    const missing = (other.review?.audit ?? []).filter(entry => !known.has(entryKey(entry)));
+    if (missing.length === 0) return kept;
+    const review = this.get(kept);
+    const audit = [...review.audit, ...missing].sort((a, b) => a.at.getTime() - b.at.getTime());
+    return { ...kept, review: { ...review, audit } };
+  }
+
+  // 32-bit FNV-1a, as hex
+  private static hash(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  private static record(result: DetectionResult, review: Review, entry: Omit<AuditEntry, 'at'>): DetectionResult {
+    if (!entry.by.trim()) throw new Error('Enter your name before reviewing, so decisions can be attributed.');
+    return { ...result, review: { ...review, audit: [...review.audit, { ...entry, at: new Date() }] } };
+  }
+}
+
+export function loadReviewerName(): string {
+  try {
+    return (typeof localStorage !== 'undefined' && localStorage.getItem(REVIEWER_STORAGE_KEY)) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveReviewerName(name: string): void {
+  localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+}
@@ -0,0 +1,55 @@
+import { TextNormalizer } from './textNormalizer';
+
+// Turns a sentence into a fixed-length vector; similar meaning should give a high cosine similarity.
+// Implementations must run offline and synchronously, since matching runs inside the detection worker.
+export interface SentenceEmbedder {
+  readonly name: string;
+  embed(words: string[]): Float32Array;
+}
+
+// Deterministic fallback that needs no model files: normalized words and their character
+// trigrams are feature-hashed into a fixed-size vector. Trigrams let related word forms the
+// stemmer misses ("theory", "theoretical") still contribute to the similarity.
+export class HashedSentenceEmbedder implements SentenceEmbedder {
+  readonly name = 'hashed-ngrams';
+  private static readonly DIMENSIONS = 512;
+  private static readonly TRIGRAM_WEIGHT = 0.35;
+
+  embed(words: string[]): Float32Array {
+    const vector = new Float32Array(HashedSentenceEmbedder.DIMENSIONS);
+
+    words.forEach(word => {
+      const normalized = TextNormalizer.normalize(word);
+      this.addFeature(vector, `w:${normalized}`, 1);
+
+      const padded = `^${normalized}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, HashedSentenceEmbedder.TRIGRAM_WEIGHT);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm > 0) {
+      for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+  }
+
+  // Signed feature hashing, so colliding features tend to cancel out rather than add up
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash >>>= 0;
+    vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+// Cosine similarity of two unit vectors, as a 0-100 score
+export const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return Math.round(Math.max(0, dot) * 100);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { FingerprintIndex } from './fingerprintIndex';
+import { SimilarityMatrix } from './similarityMatrix';
+import type { AssignmentTemplate } from './assignmentTemplates';
+
+const PROMPT = 'Question one. Explain in your own words how the water cycle moves water between the oceans, the air and the land.';
+
+const TEMPLATE: AssignmentTemplate = {
+  id: 'template',
+  assignment: 'Essay 1',
+  fileName: 'prompt.txt',
+  content: PROMPT,
+  addedAt: new Date('2026-10-01T12:00:00Z')
+};
+
+const documents = [
+  { id: 'a', fileName: 'a.txt', assignment: 'Essay 1', content: `${PROMPT} Heat from the sun evaporates water, which later falls as rain.` },
+  { id: 'b', fileName: 'b.txt', assignment: 'essay 1 ', content: `${PROMPT} Clouds form when rising vapour cools and condenses into droplets.` }
+];
+
+describe('SimilarityMatrix.compute', () => {
+  it('does not count text both submissions took from the assignment template', () => {
+    const index = FingerprintIndex.fromDocuments(documents);
+    expect(SimilarityMatrix.compute(index, documents).values[0][1]).toBeGreaterThan(50);
+    expect(SimilarityMatrix.compute(index, documents, [TEMPLATE]).values[0][1]).toBe(0);
+  });
+
+  it('ignores templates of other assignments', () => {
+    const index = FingerprintIndex.fromDocuments(documents);
+    const other = { ...TEMPLATE, assignment: 'Essay 2' };
+    expect(SimilarityMatrix.compute(index, documents, [other]).values[0][1]).toBeGreaterThan(50);
+  });
+});
+
+// Reference: merge the most similar pair of clusters by rescanning every pair after each merge
+function naiveClusters(values: number[][], threshold: number): string[] {
+  let clusters = values.map((_, i) => [i]);
+  const linkage = (a: number[], b: number[]) => Math.min(...a.flatMap(i => b.map(j => values[i][j])));
+  for (;;) {
+    let best: { a: number; b: number; similarity: number } | null = null;
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const similarity = linkage(clusters[a], clusters[b]);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) best = { a, b, similarity };
+      }
+    }
+    if (!best) break;
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    clusters = clusters.filter((_, i) => i !== best!.a && i !== best!.b);
+    clusters.push(merged);
+  }
+  return clusters.filter(cluster => cluster.length > 1).map(cluster => cluster.sort((a, b) => a - b).join()).sort();
+}
+
+function randomMatrix(size: number, seed: number): number[][] {
+  const values: number[][] = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (__, j) => (i === j ? 100 : 0)));
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      values[i][j] = values[j][i] = ((seed % 1000) + i * size + j) % 1000 / 10;
+    }
+  }
+  return values;
+}
+
+describe('SimilarityMatrix.findClusters', () => {
+  it('groups only submissions that are all similar to each other', () => {
+    const values = [
+      [100, 90, 85, 10],
+      [90, 100, 40, 10],
+      [85, 40, 100, 10],
+      [10, 10, 10, 100]
+    ];
+    const matrix = { documentIds: ['a', 'b', 'c', 'd'], fileNames: ['a', 'b', 'c', 'd'], values };
+    expect(SimilarityMatrix.findClusters(matrix, 50)).toEqual([{ documentIds: ['a', 'b'], minSimilarity: 90 }]);
+    expect(SimilarityMatrix.findClusters(matrix, 30)).toEqual([{ documentIds: ['a', 'b', 'c'], minSimilarity: 40 }]);
+  });
+
+  it('finds the same clusters as rescanning every pair', () => {
+    [1, 2, 3].forEach(seed => {
+      const values = randomMatrix(25, seed);
+      const documentIds = values.map((_, i) => String(i));
+      const clusters = SimilarityMatrix.findClusters({ documentIds, fileNames: documentIds, values }, 60)
+        .map(cluster => cluster.documentIds.map(Number).sort((a, b) => a - b).join())
+        .sort();
+      expect(clusters).toEqual(naiveClusters(values, 60));
+    });
+  });
+
+  it('clusters a thousand submissions quickly', () => {
+    const values = randomMatrix(1000, 7);
+    const documentIds = values.map((_, i) => String(i));
+    const started = performance.now();
+    SimilarityMatrix.findClusters({ documentIds, fileNames: documentIds, values }, 50);
+    expect(performance.now() - started).toBeLessThan(5000);
+  });
+});
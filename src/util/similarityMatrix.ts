@@ -0,0 +1,153 @@
+import { FingerprintIndex } from './fingerprintIndex';
+import { AssignmentTemplate, AssignmentTemplates } from './assignmentTemplates';
+import { Language, LanguageCode } from './language';
+
+export interface SimilarityMatrixResult {
+  documentIds: string[];
+  fileNames: string[];
+  // values[i][j] is the pairwise similarity (0-100) of documents i and j; symmetric, 100 on the diagonal
+  values: number[][];
+}
+
+export interface CollusionCluster {
+  documentIds: string[];
+  // Lowest pairwise similarity inside the cluster, i.e. how tightly every member matches every other
+  minSimilarity: number;
+}
+
+export class SimilarityMatrix {
+  // Pairwise similarity is the share of the smaller document's fingerprints found in the other,
+  // so a short submission copied wholesale into a longer one still scores high. Fingerprints of the
+  // documents' assignment templates are left out, as every submission shares those.
+  static compute(
+    index: FingerprintIndex,
+    documents: { id: string; fileName: string; language?: LanguageCode; assignment?: string }[],
+    templates: AssignmentTemplate[] = []
+  ): SimilarityMatrixResult {
+    const positions = new Map(documents.map((document, i) => [document.id, i]));
+    const values: number[][] = documents.map((_, i) => documents.map((__, j) => (i === j ? 100 : 0)));
+    const templateHashes = this.templateHashes(documents, templates);
+    const counts = new Map(documents.map(document => [document.id, index.fingerprintCount(document.id, templateHashes)]));
+
+    documents.forEach((document, i) => {
+      const ownCount = counts.get(document.id)!;
+      index.sharedFingerprintCounts(document.id, templateHashes).forEach((shared, otherId) => {
+        const j = positions.get(otherId);
+        if (j === undefined || j <= i) return;
+        if (!Language.isCompatible(document.language, documents[j].language)) return;
+        const smaller = Math.min(ownCount, counts.get(otherId)!);
+        const similarity = smaller > 0 ? Math.round((shared / smaller) * 100) : 0;
+        values[i][j] = similarity;
+        values[j][i] = similarity;
+      });
+    });
+
+    return {
+      documentIds: documents.map(document => document.id),
+      fileNames: documents.map(document => document.fileName),
+      values
+    };
+  }
+
+  private static templateHashes(documents: { assignment?: string }[], templates: AssignmentTemplate[]): Set<number> {
+    const assignments = new Set(documents.map(document => AssignmentTemplates.key(document.assignment)));
+    return new Set(templates
+      .filter(template => assignments.has(AssignmentTemplates.key(template.assignment)))
+      .flatMap(template => FingerprintIndex.hashes(template.content, template.codeLanguage)));
+  }
+
+  // Complete-linkage agglomerative clustering: clusters only merge while *every* pair across them
+  // stays at or above the threshold, so each cluster is a group of mutually similar submissions.
+  // Linkages are updated in place on each merge and candidate pairs kept in a priority queue, so
+  // clustering takes O(n² log n) rather than rescanning every pair of clusters after each merge.
+  static findClusters(matrix: SimilarityMatrixResult, threshold: number): CollusionCluster[] {
+    const size = matrix.documentIds.length;
+    const linkage = matrix.values.map(row => [...row]);
+    const members: (number[] | null)[] = matrix.documentIds.map((_, i) => [i]);
+    // Lowest similarity inside each cluster, i.e. the linkage its last merge happened at
+    const minSimilarity = new Array<number>(size).fill(100);
+    // Bumped on every merge, so queued pairs involving the old cluster are skipped
+    const versions = new Array<number>(size).fill(0);
+    const queue = new PairQueue();
+
+    for (let a = 0; a < size; a++) {
+      for (let b = a + 1; b < size; b++) {
+        if (linkage[a][b] >= threshold) queue.push({ a, b, similarity: linkage[a][b], versionA: 0, versionB: 0 });
+      }
+    }
+
+    for (let pair = queue.pop(); pair; pair = queue.pop()) {
+      const { a, b } = pair;
+      if (!members[a] || !members[b] || versions[a] !== pair.versionA || versions[b] !== pair.versionB) continue;
+
+      // The merged cluster takes a's slot; its linkage to any other cluster is the weaker of the two
+      members[a] = [...members[a]!, ...members[b]!];
+      members[b] = null;
+      minSimilarity[a] = Math.min(minSimilarity[a], minSimilarity[b], pair.similarity);
+      versions[a]++;
+      for (let k = 0; k < size; k++) {
+        if (k === a || !members[k]) continue;
+        const similarity = Math.min(linkage[a][k], linkage[b][k]);
+        linkage[a][k] = similarity;
+        linkage[k][a] = similarity;
+        if (similarity >= threshold) {
+          const [first, second] = a < k ? [a, k] : [k, a];
+          queue.push({ a: first, b: second, similarity, versionA: versions[first], versionB: versions[second] });
+        }
+      }
+    }
+
+    return members
+      .flatMap((cluster, i) => (cluster && cluster.length > 1 ? [{
+        documentIds: cluster.map(position => matrix.documentIds[position]),
+        minSimilarity: minSimilarity[i]
+      }] : []))
+      .sort((a, b) => b.documentIds.length - a.documentIds.length || b.minSimilarity - a.minSimilarity);
+  }
+}
+
+interface QueuedPair {
+  a: number;
+  b: number;
+  similarity: number;
+  versionA: number;
+  versionB: number;
+}
+
+// Binary max-heap of cluster pairs: most similar first, ties broken by the lowest positions
+class PairQueue {
+  private readonly heap: QueuedPair[] = [];
+
+  push(pair: QueuedPair): void {
+    this.heap.push(pair);
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!PairQueue.before(this.heap[i], this.heap[parent])) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): QueuedPair | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length === 0 || !last) return top;
+
+    this.heap[0] = last;
+    let i = 0;
+    for (;;) {
+      let next = i;
+      for (const child of [2 * i + 1, 2 * i + 2]) {
+        if (child < this.heap.length && PairQueue.before(this.heap[child], this.heap[next])) next = child;
+      }
+      if (next === i) return top;
+      [this.heap[i], this.heap[next]] = [this.heap[next], this.heap[i]];
+      i = next;
+    }
+  }
+
+  private static before(x: QueuedPair, y: QueuedPair): boolean {
+    return x.similarity !== y.similarity ? x.similarity > y.similarity : x.a !== y.a ? x.a < y.a : x.b < y.b;
+  }
+}
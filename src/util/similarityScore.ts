@@ -0,0 +1,102 @@
+import type { MatchedSentence } from './plagiarismDetector';
+import type { ExcludedSpan } from './documentStructure';
+
+// How much of a document was matched to one source
+export interface SourceCoverage {
+  sourceId?: string;
+  sourceFile: string;
+  // Share (0-100) of the document's scored text covered by passages matched to this source
+  share: number;
+  // Longest stretch of the document matched to this source without interruption
+  longestRun: { start: number; end: number; words: number };
+  matchCount: number;
+  topSimilarity: number;
+}
+
+export interface SimilarityScoreResult {
+  // Share (0-100) of the document's scored text covered by matched passages, overlaps counted once
+  coverage: number;
+  // Sources by share, largest first
+  sources: SourceCoverage[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// The overall score is how much of the document is covered by matched passages, so a long paper
+// with three copied paragraphs outscores a short essay that merely shares vocabulary with another
+export class SimilarityScore {
+  static compute(text: string, matches: MatchedSentence[], excludedSpans: ExcludedSpan[] = []): SimilarityScoreResult {
+    // Excluded text (quotations, template text...) counts neither as matched nor towards the total
+    const scored = this.scoredCharacters(text, excludedSpans);
+    const total = scored.reduce((sum, isScored) => sum + isScored, 0);
+    const located = matches.filter(match => !match.exclusion && match.start !== undefined && match.end !== undefined);
+    if (total === 0 || located.length === 0) return { coverage: 0, sources: [] };
+
+    const share = (intervals: Interval[]) => {
+      const covered = intervals.reduce((sum, { start, end }) => {
+        for (let i = start; i < end; i++) sum += scored[i];
+        return sum;
+      }, 0);
+      return Math.round((covered / total) * 100);
+    };
+
+    const bySource = new Map<string, MatchedSentence[]>();
+    located.forEach(match => {
+      const key = match.sourceId ?? match.sourceFile;
+      bySource.set(key, [...(bySource.get(key) ?? []), match]);
+    });
+
+    const sources = [...bySource.values()].map(sourceMatches => {
+      const intervals = this.merge(text, sourceMatches.map(match => ({ start: match.start!, end: match.end! })));
+      const longest = intervals.reduce((best, interval) => (interval.end - interval.start > best.end - best.start ? interval : best));
+      return {
+        sourceId: sourceMatches[0].sourceId,
+        sourceFile: sourceMatches[0].sourceFile,
+        share: share(intervals),
+        longestRun: { ...longest, words: this.countWords(text.slice(longest.start, longest.end)) },
+        matchCount: sourceMatches.length,
+        topSimilarity: Math.max(...sourceMatches.map(match => match.similarity))
+      };
+    });
+
+    return {
+      coverage: share(this.merge(text, located.map(match => ({ start: match.start!, end: match.end! })))),
+      sources: sources.sort((a, b) => b.share - a.share || b.longestRun.words - a.longestRun.words)
+    };
+  }
+
+  // Highest similarity with any single document, the measure the overall score used before
+  // coverage; kept alongside it as a secondary figure
+  static closestSource(scores: number[]): number {
+    return scores.length > 0 ? Math.max(...scores) : 0;
+  }
+
+  // 1 for every non-whitespace character that's scored, 0 otherwise
+  private static scoredCharacters(text: string, excludedSpans: ExcludedSpan[]): Uint8Array {
+    const scored = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) scored[i] = /\s/.test(text[i]) ? 0 : 1;
+    excludedSpans.forEach(span => scored.fill(0, span.start, span.end));
+    return scored;
+  }
+
+  // Overlapping intervals, and those separated only by whitespace or punctuation, become one
+  private static merge(text: string, intervals: Interval[]): Interval[] {
+    const merged: Interval[] = [];
+    [...intervals].sort((a, b) => a.start - b.start).forEach(interval => {
+      const last = merged[merged.length - 1];
+      if (last && (interval.start <= last.end || /^[\s\p{P}]*$/u.test(text.slice(last.end, interval.start)))) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+    });
+    return merged;
+  }
+
+  private static countWords(text: string): number {
+    return text.trim() ? text.trim().split(/\s+/).length : 0;
+  }
+}
@@ -0,0 +1,279 @@
+import { Tokenizer } from './tokenizer';
+import { Language, LanguageCode } from './language';
+import type { DetectionResult } from './plagiarismDetector';
+
+export type PunctuationMark = 'comma' | 'semicolon' | 'colon' | 'dash' | 'exclamation' | 'question' | 'parenthesis' | 'quote' | 'ellipsis';
+
+export interface StyleFeatures {
+  wordCount: number;
+  sentenceCount: number;
+  // Words per sentence
+  meanSentenceLength: number;
+  // Standard deviation of sentence length relative to the mean; human writing mixes short and long sentences
+  burstiness: number;
+  // Moving-average type-token ratio over 100-word windows (0-1), which doesn't drop with text length
+  vocabularyRichness: number;
+  // Share of distinct words used exactly once (0-1)
+  hapaxRatio: number;
+  meanWordLength: number;
+  // Uses per 1000 words of the language's function words
+  functionWords: Record<string, number>;
+  // Uses per 1000 words
+  punctuation: Record<PunctuationMark, number>;
+  // Stock transitions and buzzwords per 1000 words (English only)
+  stockPhrases: number;
+}
+
+// One reason behind the AI-likeness indicator; negative points count against AI authorship
+export interface StyleSignal {
+  description: string;
+  points: number;
+}
+
+export interface StyleAnalysis {
+  features: StyleFeatures;
+  // Indicator (0-100) built from the signals; a hint for review, not proof
+  aiLikeness: number;
+  signals: StyleSignal[];
+}
+
+export interface StyleShift {
+  label: string;
+  value: string;
+  baseline: string;
+}
+
+export interface AuthorConsistency {
+  author: string;
+  // Earlier submissions by the same author that were compared
+  comparedWith: number;
+  shifts: StyleShift[];
+  // Set when enough features moved at once to suggest someone else wrote it
+  shifted: boolean;
+}
+
+interface ScalarFeature {
+  label: string;
+  value: (analysis: StyleAnalysis) => number;
+  // Differences smaller than this are never a shift, however consistent earlier submissions were
+  minTolerance: number;
+  format: (value: number) => string;
+}
+
+const PUNCTUATION_PATTERNS: Record<PunctuationMark, RegExp> = {
+  comma: /[,，、]/g,
+  semicolon: /[;；]/g,
+  colon: /[:：]/g,
+  dash: /[—–]|\s-\s/g,
+  exclamation: /[!！]/g,
+  question: /[?？؟]/g,
+  parenthesis: /[(（]/g,
+  quote: /["“”«»„]/g,
+  ellipsis: /…|\.{3}/g
+};
+
+// Transitions and vocabulary that language models lean on far more than students do
+const STOCK_PHRASES = new RegExp(
+  '\\b(?:moreover|furthermore|additionally|consequently|notably|overall|in conclusion|in summary|' +
+    'it is important to note|it is worth noting|plays? a (?:crucial|pivotal|vital) role|crucial|pivotal|' +
+    'delve|delves|delving|tapestry|realm|landscape|foster|fostering|underscores?|seamless(?:ly)?|' +
+    'multifaceted|nuanced|leverag(?:e|es|ing)|navigat(?:e|es|ing) the|a testament to|ever-evolving)\\b',
+  'gi'
+);
+
+const formatNumber = (digits: number) => (value: number) => value.toFixed(digits);
+const formatRate = (value: number) => `${value.toFixed(1)} per 1000 words`;
+
+const SCALAR_FEATURES: ScalarFeature[] = [
+  { label: 'Average sentence length', value: analysis => analysis.features.meanSentenceLength, minTolerance: 4, format: value => `${value.toFixed(1)} words` },
+  { label: 'Sentence length variation', value: analysis => analysis.features.burstiness, minTolerance: 0.15, format: formatNumber(2) },
+  { label: 'Vocabulary richness', value: analysis => analysis.features.vocabularyRichness, minTolerance: 0.06, format: formatNumber(2) },
+  { label: 'Average word length', value: analysis => analysis.features.meanWordLength, minTolerance: 0.4, format: value => `${value.toFixed(1)} letters` },
+  { label: 'Commas', value: analysis => analysis.features.punctuation.comma, minTolerance: 15, format: formatRate },
+  { label: 'Semicolons', value: analysis => analysis.features.punctuation.semicolon, minTolerance: 3, format: formatRate },
+  { label: 'Dashes', value: analysis => analysis.features.punctuation.dash, minTolerance: 4, format: formatRate },
+  { label: 'Stock phrases', value: analysis => analysis.features.stockPhrases, minTolerance: 3, format: formatRate },
+  { label: 'AI-likeness', value: analysis => analysis.aiLikeness, minTolerance: 25, format: value => `${Math.round(value)}/100` }
+];
+
+export class Stylometry {
+  // Style features of shorter texts are mostly noise
+  static readonly MIN_WORDS = 150;
+  private static readonly RICHNESS_WINDOW = 100;
+  // Sentences shorter than this are usually headings or list items
+  private static readonly MIN_SENTENCE_WORDS = 3;
+  // A feature has shifted when it is further than this many standard deviations (or this share of
+  // the baseline, for authors with a single earlier submission) from the author's average
+  private static readonly SHIFT_DEVIATIONS = 2;
+  private static readonly SHIFT_RELATIVE = 0.35;
+  private static readonly MIN_FUNCTION_WORD_SIMILARITY = 0.85;
+  private static readonly MIN_SHIFTS = 3;
+
+  static analyze(text: string, language: LanguageCode = Language.detect(text)): StyleAnalysis | undefined {
+    const words = Tokenizer.words(text).map(token => token.value);
+    if (words.length < this.MIN_WORDS) return undefined;
+
+    const sentenceLengths = Tokenizer.sentences(text)
+      .map(sentence => Tokenizer.words(sentence.text).length)
+      .filter(length => length >= this.MIN_SENTENCE_WORDS);
+    const meanSentenceLength = this.mean(sentenceLengths);
+    const perThousand = (count: number) => (count / words.length) * 1000;
+
+    const counts = new Map<string, number>();
+    words.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+    const functionWords: Record<string, number> = {};
+    counts.forEach((count, word) => {
+      if (Language.isStopWord(word, language)) functionWords[word] = perThousand(count);
+    });
+
+    const features: StyleFeatures = {
+      wordCount: words.length,
+      sentenceCount: sentenceLengths.length,
+      meanSentenceLength,
+      burstiness: meanSentenceLength > 0 ? this.standardDeviation(sentenceLengths) / meanSentenceLength : 0,
+      vocabularyRichness: this.movingTypeTokenRatio(words),
+      hapaxRatio: [...counts.values()].filter(count => count === 1).length / counts.size,
+      meanWordLength: this.mean(words.map(word => word.length)),
+      functionWords,
+      punctuation: Object.fromEntries(
+        Object.entries(PUNCTUATION_PATTERNS).map(([mark, pattern]) => [mark, perThousand(text.match(pattern)?.length ?? 0)])
+      ) as Record<PunctuationMark, number>,
+      stockPhrases: language === 'en' ? perThousand(text.match(STOCK_PHRASES)?.length ?? 0) : 0
+    };
+
+    const signals = this.signals(features, language);
+    const aiLikeness = Math.max(0, Math.min(100, signals.reduce((sum, signal) => sum + signal.points, 0)));
+    return { features, aiLikeness, signals };
+  }
+
+  // Compares a submission with the author's earlier ones; undefined without an author or earlier work to compare with
+  static compareWithAuthor(document: DetectionResult, corpus: DetectionResult[]): AuthorConsistency | undefined {
+    const author = this.authorKey(document.author);
+    if (!author || !document.style) return undefined;
+
+    const earlier = corpus
+      .filter(other => other.id !== document.id && this.authorKey(other.author) === author)
+      .filter(other => other.timestamp < document.timestamp)
+      .map(other => other.style)
+      .filter((style): style is StyleAnalysis => style !== undefined);
+    if (earlier.length === 0) return undefined;
+
+    const shifts: StyleShift[] = [];
+    SCALAR_FEATURES.forEach(feature => {
+      const baselineValues = earlier.map(feature.value);
+      const baseline = this.mean(baselineValues);
+      const value = feature.value(document.style!);
+      const tolerance = Math.max(
+        feature.minTolerance,
+        baselineValues.length > 1
+          ? this.standardDeviation(baselineValues) * this.SHIFT_DEVIATIONS
+          : Math.abs(baseline) * this.SHIFT_RELATIVE
+      );
+      if (Math.abs(value - baseline) > tolerance) {
+        shifts.push({ label: feature.label, value: feature.format(value), baseline: feature.format(baseline) });
+      }
+    });
+
+    const functionWordSimilarity = this.mean(
+      earlier.map(style => this.profileSimilarity(document.style!.features.functionWords, style.features.functionWords))
+    );
+    if (functionWordSimilarity < this.MIN_FUNCTION_WORD_SIMILARITY) {
+      shifts.push({
+        label: 'Function-word profile',
+        value: `${Math.round(functionWordSimilarity * 100)}% similar`,
+        baseline: `over ${Math.round(this.MIN_FUNCTION_WORD_SIMILARITY * 100)}% similar`
+      });
+    }
+
+    return {
+      author: document.author!.trim(),
+      comparedWith: earlier.length,
+      shifts,
+      shifted: shifts.length >= this.MIN_SHIFTS
+    };
+  }
+
+  static authorKey(author: string | undefined): string {
+    return (author ?? '').trim().toLowerCase();
+  }
+
+  // Thresholds are rough ranges seen in student essays versus chat model output
+  private static signals(features: StyleFeatures, language: LanguageCode): StyleSignal[] {
+    const signals: StyleSignal[] = [];
+    const { burstiness, vocabularyRichness, stockPhrases, punctuation, wordCount } = features;
+
+    if (burstiness < 0.3) {
+      signals.push({ description: `Very even sentence lengths (variation ${burstiness.toFixed(2)})`, points: 35 });
+    } else if (burstiness < 0.4) {
+      signals.push({ description: `Fairly even sentence lengths (variation ${burstiness.toFixed(2)})`, points: 20 });
+    } else if (burstiness > 0.6) {
+      signals.push({ description: `Strongly varied sentence lengths (variation ${burstiness.toFixed(2)})`, points: -15 });
+    }
+
+    if (language === 'en') {
+      if (stockPhrases > 8) {
+        signals.push({ description: `Frequent stock transitions and buzzwords (${stockPhrases.toFixed(1)} per 1000 words)`, points: 30 });
+      } else if (stockPhrases > 4) {
+        signals.push({ description: `Some stock transitions and buzzwords (${stockPhrases.toFixed(1)} per 1000 words)`, points: 15 });
+      }
+    }
+
+    if (vocabularyRichness < 0.6) {
+      signals.push({ description: `Repetitive vocabulary (richness ${vocabularyRichness.toFixed(2)})`, points: 10 });
+    } else if (vocabularyRichness > 0.78) {
+      signals.push({ description: `Varied vocabulary (richness ${vocabularyRichness.toFixed(2)})`, points: -5 });
+    }
+
+    if (punctuation.dash > 5) {
+      signals.push({ description: `Many dashes (${punctuation.dash.toFixed(1)} per 1000 words)`, points: 10 });
+    }
+    const informal = punctuation.exclamation + punctuation.question + punctuation.parenthesis + punctuation.ellipsis;
+    if (informal === 0 && wordCount >= 300) {
+      signals.push({ description: 'No questions, exclamations, asides or ellipses anywhere', points: 10 });
+    } else if (informal > 10) {
+      signals.push({ description: `Informal punctuation (${informal.toFixed(1)} per 1000 words)`, points: -10 });
+    }
+
+    return signals;
+  }
+
+  private static movingTypeTokenRatio(words: string[]): number {
+    const window = Math.min(this.RICHNESS_WINDOW, words.length);
+    const counts = new Map<string, number>();
+    words.slice(0, window).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+
+    let total = counts.size;
+    for (let i = window; i < words.length; i++) {
+      const dropped = words[i - window];
+      const remaining = counts.get(dropped)! - 1;
+      if (remaining === 0) counts.delete(dropped);
+      else counts.set(dropped, remaining);
+      counts.set(words[i], (counts.get(words[i]) ?? 0) + 1);
+      total += counts.size;
+    }
+    return total / (words.length - window + 1) / window;
+  }
+
+  private static profileSimilarity(a: Record<string, number>, b: Record<string, number>): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(word => {
+      const x = a[word] ?? 0;
+      const y = b[word] ?? 0;
+      dot += x * y;
+      normA += x * x;
+      normB += y * y;
+    });
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private static mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static standardDeviation(values: number[]): number {
+    const mean = this.mean(values);
+    return Math.sqrt(this.mean(values.map(value => (value - mean) ** 2)));
+  }
+}
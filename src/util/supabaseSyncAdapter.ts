@@ -0,0 +1,174 @@
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { DetectionResult } from './plagiarismDetector';
+import { CORPUS_SCHEMA_VERSION } from './corpusRepository';
+import { PushResult, RemoteDocument, SyncAdapter, SyncChange, SyncRequestError, SyncScope } from './syncAdapter';
+
+// Table and policies are created by supabase/migrations; row-level security limits every query
+// to the organizations and courses the signed-in user is a member of
+const TABLE = 'corpus_documents';
+const COLUMNS = 'id, document, deleted, revision, changed_at, schema_version';
+
+interface DocumentRow {
+  id: string;
+  document: DetectionResult | null;
+  deleted: boolean;
+  revision: number;
+  changed_at: string;
+  schema_version: number;
+}
+
+interface PostgrestResult<T> {
+  data: T | null;
+  error: PostgrestError | null;
+  status: number;
+}
+
+export class SupabaseSyncAdapter implements SyncAdapter {
+  readonly name: string;
+  private readonly client: SupabaseClient;
+
+  constructor(url: string, anonKey: string) {
+    this.name = `Supabase @ ${url}`;
+    this.client = createClient(url, anonKey);
+  }
+
+  async getUser(): Promise<string | null> {
+    const { data } = await this.client.auth.getSession();
+    return data.session?.user.email ?? null;
+  }
+
+  async signIn(email: string, password: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithPassword({ email, password });
+    if (error) {
+      throw new SyncRequestError(`Sign-in failed: ${error.message}`, false);
+    }
+  }
+
+  async signOut(): Promise<void> {
+    await this.client.auth.signOut();
+  }
+
+  async push(scope: SyncScope, changes: SyncChange[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    // New documents go in one request; ids that already exist are skipped and show up as conflicts
+    const created = changes.filter(change => change.baseRevision === 0);
+    if (created.length > 0) {
+      try {
+        results.push(...(await this.insert(scope, created)));
+      } catch (error) {
+        if (!(error instanceof SyncRequestError && error.rejected)) throw error;
+        // Row-level security refuses the whole request, so the changes at fault are found one at a time
+        for (const change of created) {
+          results.push(await this.rejectable(change, async () => (await this.insert(scope, [change]))[0]));
+        }
+      }
+    }
+
+    for (const change of changes.filter(candidate => candidate.baseRevision > 0)) {
+      results.push(await this.rejectable(change, () => this.update(scope, change)));
+    }
+    return results;
+  }
+
+  async pull(scope: SyncScope, since: number, limit: number): Promise<RemoteDocument[]> {
+    let query = this.client.from(TABLE).select(COLUMNS).eq('organization_id', scope.organizationId).gt('revision', since);
+    if (scope.courseId) {
+      query = query.eq('course_id', scope.courseId);
+    }
+    const rows = this.check<DocumentRow[]>(await query.order('revision').limit(limit));
+    return rows.map(row => this.toRemote(row));
+  }
+
+  private async insert(scope: SyncScope, changes: SyncChange[]): Promise<PushResult[]> {
+    const inserted = this.check(
+      await this.client
+        .from(TABLE)
+        .upsert(changes.map(change => this.toRow(scope, change)), { onConflict: 'id', ignoreDuplicates: true })
+        .select('id, revision')
+    );
+    const revisions = new Map(inserted.map(row => [row.id as string, row.revision as number]));
+    const results: PushResult[] = [];
+    for (const change of changes) {
+      const revision = revisions.get(change.id);
+      results.push(revision !== undefined ? { id: change.id, status: 'applied', revision } : await this.conflict(change.id));
+    }
+    return results;
+  }
+
+  // Updates only apply on top of the revision they were made from
+  private async update(scope: SyncScope, change: SyncChange): Promise<PushResult> {
+    const updated = this.check(
+      await this.client
+        .from(TABLE)
+        .update(this.toRow(scope, change))
+        .eq('id', change.id)
+        .eq('revision', change.baseRevision)
+        .select('id, revision')
+    );
+    return updated.length > 0 ? { id: change.id, status: 'applied', revision: updated[0].revision } : this.conflict(change.id);
+  }
+
+  private async rejectable(change: SyncChange, write: () => Promise<PushResult>): Promise<PushResult> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error instanceof SyncRequestError && error.rejected) {
+        return { id: change.id, status: 'rejected', error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async conflict(id: string): Promise<PushResult> {
+    const row = this.check<DocumentRow | null>(await this.client.from(TABLE).select(COLUMNS).eq('id', id).maybeSingle());
+    if (!row) {
+      // Exists, but in a scope this user can't see
+      return { id, status: 'rejected', error: `Document ${id} belongs to another organization or course and could not be shared.` };
+    }
+    return { id, status: 'conflict', remote: this.toRemote(row) };
+  }
+
+  private toRow(scope: SyncScope, change: SyncChange): Record<string, unknown> {
+    // revision, updated_by and updated_at are set by the database
+    return {
+      id: change.id,
+      organization_id: scope.organizationId,
+      course_id: scope.courseId ?? null,
+      document: change.deleted ? null : change.document,
+      fingerprints: change.deleted ? null : change.fingerprints,
+      deleted: change.deleted,
+      changed_at: change.changedAt,
+      schema_version: CORPUS_SCHEMA_VERSION
+    };
+  }
+
+  private toRemote(row: DocumentRow): RemoteDocument {
+    return {
+      id: row.id,
+      document: row.document ?? undefined,
+      deleted: row.deleted,
+      revision: row.revision,
+      // Postgres formats timestamps with an offset rather than Z
+      changedAt: new Date(row.changed_at).toISOString(),
+      schemaVersion: row.schema_version
+    };
+  }
+
+  private check<T>({ data, error, status }: PostgrestResult<T>): T {
+    if (!error) return data as T;
+
+    if (status === 401) {
+      throw new SyncRequestError('Your sign-in has expired. Sign in again in the sync settings.', false);
+    }
+    // Row-level security rejected the write
+    if (status === 403 || error.code === '42501') {
+      throw new SyncRequestError('You are not a member of this organization or course.', false, true);
+    }
+    if (error.code === '42P01') {
+      throw new SyncRequestError('The shared corpus table is missing. Apply the database migrations first.', false);
+    }
+    // Network failures come back with status 0; those and server errors are worth another attempt
+    throw new SyncRequestError(`Shared corpus request failed${status ? ` (HTTP ${status})` : ''}: ${error.message}`, status === 0 || status >= 500);
+  }
+}
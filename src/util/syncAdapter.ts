@@ -0,0 +1,122 @@
+import type { DetectionResult } from './plagiarismDetector';
+import { CORPUS_SCHEMA_VERSION } from './corpusRepository';
+
+// The part of the shared corpus a grader pushes to and pulls from. Without a course, the whole
+// organization is shared.
+export interface SyncScope {
+  organizationId: string;
+  courseId?: string;
+}
+
+// A local change on its way to the shared corpus. `baseRevision` is the remote revision the
+// change was made on top of, 0 for documents that were never pushed.
+export interface SyncChange {
+  id: string;
+  document?: DetectionResult;
+  fingerprints?: number[];
+  deleted: boolean;
+  baseRevision: number;
+  changedAt: string;
+}
+
+// A document as stored in the shared corpus; deleted documents are kept as tombstones so other
+// devices learn about the deletion
+export interface RemoteDocument {
+  id: string;
+  document?: DetectionResult;
+  deleted: boolean;
+  // Increases with every write anywhere in the shared corpus
+  revision: number;
+  changedAt: string;
+  schemaVersion: number;
+}
+
+export type PushResult =
+  | { id: string; status: 'applied'; revision: number }
+  // Someone else changed the document since `baseRevision`
+  | { id: string; status: 'conflict'; remote: RemoteDocument }
+  // The backend refused the change itself, e.g. a document of a scope the user isn't a member of,
+  // so sending it again can't succeed
+  | { id: string; status: 'rejected'; error: string };
+
+export interface SyncAdapter {
+  readonly name: string;
+  // Email of the signed-in user, or null when the backend needs a sign-in first
+  getUser(): Promise<string | null>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  push(scope: SyncScope, changes: SyncChange[]): Promise<PushResult[]>;
+  // Documents written after revision `since`, oldest first
+  pull(scope: SyncScope, since: number, limit: number): Promise<RemoteDocument[]>;
+}
+
+// Thrown for failed backend calls; `retryable` is false when repeating the request cannot help, and
+// `rejected` is set when the backend refused the data that was sent rather than the request
+export class SyncRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly rejected = false) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+// Offline backend that keeps the shared corpus in memory, for development without a database.
+// Several CorpusSync instances can share one to stand in for different graders.
+export class MemorySyncAdapter implements SyncAdapter {
+  readonly name = 'memory';
+  private readonly rows = new Map<string, RemoteDocument & SyncScope>();
+  private revision = 0;
+  private user: string | null = 'local';
+
+  async getUser(): Promise<string | null> {
+    return this.user;
+  }
+
+  async signIn(email: string): Promise<void> {
+    this.user = email;
+  }
+
+  async signOut(): Promise<void> {
+    this.user = null;
+  }
+
+  async push(scope: SyncScope, changes: SyncChange[]): Promise<PushResult[]> {
+    if (!this.user) throw new SyncRequestError('Sign in to share the corpus.', false);
+
+    return changes.map((change): PushResult => {
+      const existing = this.rows.get(change.id);
+      if (existing && (existing.organizationId !== scope.organizationId || existing.courseId !== scope.courseId)) {
+        return { id: change.id, status: 'rejected', error: `Document ${change.id} belongs to another organization or course and could not be shared.` };
+      }
+      if (existing && existing.revision !== change.baseRevision) {
+        return { id: change.id, status: 'conflict', remote: MemorySyncAdapter.toRemote(existing) };
+      }
+      const revision = ++this.revision;
+      this.rows.set(change.id, {
+        ...scope,
+        id: change.id,
+        // A round trip through JSON, like a real backend, so dates come back as strings
+        document: change.deleted ? undefined : JSON.parse(JSON.stringify(change.document)),
+        deleted: change.deleted,
+        revision,
+        changedAt: change.changedAt,
+        schemaVersion: CORPUS_SCHEMA_VERSION
+      });
+      return { id: change.id, status: 'applied', revision };
+    });
+  }
+
+  async pull(scope: SyncScope, since: number, limit: number): Promise<RemoteDocument[]> {
+    if (!this.user) throw new SyncRequestError('Sign in to share the corpus.', false);
+
+    return [...this.rows.values()]
+      .filter(row => row.organizationId === scope.organizationId && (!scope.courseId || row.courseId === scope.courseId))
+      .filter(row => row.revision > since)
+      .sort((a, b) => a.revision - b.revision)
+      .slice(0, limit)
+      .map(MemorySyncAdapter.toRemote);
+  }
+
+  private static toRemote({ id, document, deleted, revision, changedAt, schemaVersion }: RemoteDocument): RemoteDocument {
+    return { id, document, deleted, revision, changedAt, schemaVersion };
+  }
+}
@@ -0,0 +1,52 @@
+export interface DiffToken {
+  text: string;
+  changed: boolean;
+}
+
+export interface WordDiff {
+  left: DiffToken[];
+  right: DiffToken[];
+}
+
+// Splits into words while keeping the whitespace attached, so tokens re-join into the original text
+const splitWords = (text: string): string[] => text.match(/\S+\s*/g) ?? [];
+
+const normalize = (word: string): string => word.trim().toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+export class TextDiff {
+  // Longest-common-subsequence diff over words; anything outside the LCS is marked as changed
+  static diffWords(left: string, right: string): WordDiff {
+    const leftWords = splitWords(left);
+    const rightWords = splitWords(right);
+    const leftKeys = leftWords.map(normalize);
+    const rightKeys = rightWords.map(normalize);
+
+    const lengths: number[][] = Array.from({ length: leftWords.length + 1 }, () => new Array(rightWords.length + 1).fill(0));
+    for (let i = leftWords.length - 1; i >= 0; i--) {
+      for (let j = rightWords.length - 1; j >= 0; j--) {
+        lengths[i][j] = leftKeys[i] === rightKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const leftTokens: DiffToken[] = [];
+    const rightTokens: DiffToken[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < leftWords.length && j < rightWords.length) {
+      if (leftKeys[i] === rightKeys[j]) {
+        leftTokens.push({ text: leftWords[i++], changed: false });
+        rightTokens.push({ text: rightWords[j++], changed: false });
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        leftTokens.push({ text: leftWords[i++], changed: true });
+      } else {
+        rightTokens.push({ text: rightWords[j++], changed: true });
+      }
+    }
+    while (i < leftWords.length) leftTokens.push({ text: leftWords[i++], changed: true });
+    while (j < rightWords.length) rightTokens.push({ text: rightWords[j++], changed: true });
+
+    return { left: leftTokens, right: rightTokens };
+  }
+}
@@ -0,0 +1,193 @@
+// Groups of words that mean the same thing in nearly every context; every member is mapped to the
+// first one. Words that are only sometimes interchangeable ("study" and "analysis", "field" and
+// "domain") stay apart, since folding them makes unrelated sentences look reworded.
+const SYNONYM_GROUPS: string[][] = [
+  ['show', 'demonstrate'],
+  ['use', 'utilize', 'employ'],
+  ['help', 'assist', 'aid'],
+  ['big', 'large'],
+  ['small', 'little'],
+  ['crucial', 'vital', 'essential'],
+  ['begin', 'start', 'commence'],
+  ['end', 'finish'],
+  ['increase', 'rise'],
+  ['decrease', 'decline', 'diminish'],
+  ['change', 'alter', 'modify'],
+  ['create', 'produce', 'generate'],
+  ['get', 'obtain', 'acquire'],
+  ['give', 'provide', 'supply'],
+  ['need', 'require'],
+  ['think', 'believe'],
+  ['say', 'state'],
+  ['claim', 'assert'],
+  ['find', 'discover'],
+  ['analyze', 'analyse'],
+  ['result', 'outcome'],
+  ['effect', 'impact'],
+  ['problem', 'difficulty'],
+  ['method', 'technique'],
+  ['goal', 'aim', 'objective'],
+  ['idea', 'concept', 'notion'],
+  ['example', 'instance'],
+  ['area', 'region', 'zone'],
+  ['part', 'portion'],
+  ['kind', 'type', 'sort', 'category'],
+  ['many', 'numerous'],
+  ['often', 'frequently'],
+  ['quick', 'fast', 'rapid', 'swift'],
+  ['slow', 'sluggish'],
+  ['hard', 'difficult'],
+  ['easy', 'simple'],
+  ['clear', 'obvious', 'evident', 'apparent'],
+  ['main', 'primary', 'principal', 'chief'],
+  ['whole', 'entire'],
+  ['however', 'nevertheless', 'nonetheless'],
+  ['therefore', 'thus', 'hence', 'consequently'],
+  ['also', 'additionally', 'furthermore', 'moreover'],
+  ['approximately', 'roughly'],
+  ['people', 'individuals', 'persons'],
+  ['child', 'kid'],
+  ['job', 'occupation', 'profession'],
+  ['buy', 'purchase'],
+  ['answer', 'reply', 'respond'],
+  ['ask', 'inquire'],
+  ['try', 'attempt', 'endeavor', 'endeavour'],
+  ['keep', 'retain', 'preserve'],
+  ['allow', 'permit'],
+  ['stop', 'halt', 'cease'],
+  ['choose', 'select', 'pick'],
+  ['describe', 'depict'],
+  ['happen', 'occur'],
+  ['enough', 'sufficient', 'adequate'],
+  ['correct', 'accurate'],
+  ['wrong', 'incorrect', 'inaccurate'],
+  ['world', 'globe']
+];
+
+// Irregular forms the suffix rules can't reach, mapped to a regular form before stemming
+const IRREGULAR_FORMS: Record<string, string> = {
+  was: 'be', were: 'be', been: 'be', being: 'be', is: 'be', are: 'be', am: 'be',
+  had: 'have', has: 'have', did: 'do', does: 'do', done: 'do',
+  went: 'go', gone: 'go', made: 'make', took: 'take', taken: 'take', gave: 'give', given: 'give',
+  wrote: 'write', written: 'write', began: 'begin', begun: 'begin', found: 'find', thought: 'think',
+  brought: 'bring', bought: 'buy', caught: 'catch', taught: 'teach', sought: 'seek', told: 'tell',
+  said: 'say', saw: 'see', seen: 'see', knew: 'know', known: 'know', grew: 'grow', grown: 'grow',
+  showed: 'show', shown: 'show', rose: 'rise', risen: 'rise', fell: 'fall', fallen: 'fall',
+  led: 'lead', left: 'leave', kept: 'keep', held: 'hold', meant: 'mean', felt: 'feel', built: 'build',
+  chose: 'choose', chosen: 'choose', drove: 'drive', driven: 'drive', spoke: 'speak', spoken: 'speak',
+  got: 'get', gotten: 'get', ran: 'run', came: 'come', became: 'become', understood: 'understand',
+  children: 'child', people: 'people', men: 'man', women: 'woman', data: 'datum', criteria: 'criterion',
+  phenomena: 'phenomenon', analyses: 'analysis', theses: 'thesis', hypotheses: 'hypothesis',
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad'
+};
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+// Porter stemmer conditions, written as regexes over consonant (C) and vowel (V) runs
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+export class TextNormalizer {
+  private static synonymLookup: Map<string, string> | null = null;
+  private static readonly normalizedCache = new Map<string, string>();
+
+  // Canonical form of a lowercase word: irregular forms resolved, suffixes stripped, synonyms merged
+  static normalize(word: string): string {
+    // Stemming rules and synonyms are English; other words pass through unchanged
+    if (!/^[a-z]+$/.test(word)) return word;
+
+    const cached = this.normalizedCache.get(word);
+    if (cached !== undefined) return cached;
+
+    const stem = this.stem(word);
+    const normalized = this.getSynonymLookup().get(stem) ?? stem;
+    // The cache only ever holds distinct vocabulary, which stays small next to the documents themselves
+    this.normalizedCache.set(word, normalized);
+    return normalized;
+  }
+
+  // Porter (1980) stemmer: folds inflections and common derivations ("studies", "studied",
+  // "studying") onto one stem. Stems aren't words, but they are deterministic, which is all the matcher needs.
+  static stem(word: string): string {
+    let stem = IRREGULAR_FORMS[word] ?? word;
+    if (stem.length < 3) return stem;
+
+    const initialY = stem[0] === 'y';
+    if (initialY) stem = 'Y' + stem.slice(1);
+
+    // Step 1a: plurals
+    stem = stem.replace(/^(.+?)(ss|i)es$/, '$1$2').replace(/^(.+?)([^s])s$/, '$1$2');
+
+    // Step 1b: -ed, -ing
+    let match: RegExpExecArray | null;
+    if ((match = /^(.+?)eed$/.exec(stem))) {
+      if (MEASURE_GT_0.test(match[1])) stem = stem.slice(0, -1);
+    } else if ((match = /^(.+?)(ed|ing)$/.exec(stem)) && HAS_VOWEL.test(match[1])) {
+      stem = match[1];
+      if (/(at|bl|iz)$/.test(stem)) stem += 'e';
+      else if (/([^aeiouylsz])\1$/.test(stem)) stem = stem.slice(0, -1);
+      else if (ENDS_CVC.test(stem)) stem += 'e';
+    }
+
+    // Step 1c: -y after a vowel-containing stem
+    if ((match = /^(.+?)y$/.exec(stem)) && HAS_VOWEL.test(match[1])) {
+      stem = match[1] + 'i';
+    }
+
+    // Steps 2 and 3: derivational suffixes
+    stem = this.replaceSuffix(stem, STEP2_SUFFIXES);
+    stem = this.replaceSuffix(stem, STEP3_SUFFIXES);
+
+    // Step 4: strip remaining suffixes from longer stems
+    if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(stem))) {
+      if (MEASURE_GT_1.test(match[1])) stem = match[1];
+    } else if ((match = /^(.+?)(s|t)(ion)$/.exec(stem))) {
+      if (MEASURE_GT_1.test(match[1] + match[2])) stem = match[1] + match[2];
+    }
+
+    // Step 5: final -e and double -l
+    if ((match = /^(.+?)e$/.exec(stem))) {
+      const base = match[1];
+      if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) stem = base;
+    }
+    if (/ll$/.test(stem) && MEASURE_GT_1.test(stem)) stem = stem.slice(0, -1);
+
+    return initialY ? 'y' + stem.slice(1) : stem;
+  }
+
+  private static replaceSuffix(stem: string, suffixes: Record<string, string>): string {
+    const match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi|icate|ative|alize|iciti|ical|ful|ness)$/.exec(stem);
+    if (!match || !(match[2] in suffixes) || !MEASURE_GT_0.test(match[1])) return stem;
+    return match[1] + suffixes[match[2]];
+  }
+
+  private static getSynonymLookup(): Map<string, string> {
+    if (!this.synonymLookup) {
+      this.synonymLookup = new Map();
+      SYNONYM_GROUPS.forEach(group => {
+        const canonical = this.stem(group[0]);
+        group.forEach(word => {
+          const stem = this.stem(word);
+          // A word listed in two groups keeps its first meaning
+          if (!this.synonymLookup!.has(stem)) this.synonymLookup!.set(stem, canonical);
+        });
+      });
+    }
+    return this.synonymLookup;
+  }
+}
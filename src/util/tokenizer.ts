@@ -0,0 +1,70 @@
+import type { Token } from './fingerprintIndex';
+
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Scripts written without spaces between words
+const SPACELESS_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu;
+// Latin, Devanagari, CJK, Arabic and other sentence terminators
+const SENTENCE_PATTERN = /[^.!?。！？｡।॥؟]+/gu;
+
+export class Tokenizer {
+  // Intl.Segmenter knows word boundaries in scripts without spaces; it's missing in some older browsers
+  private static readonly wordSegmenter = typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity: 'word' })
+    : null;
+
+  // Lowercased word tokens with their character offsets, in any script
+  static words(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const start = match.index!;
+      if (SPACELESS_SCRIPT.test(match[0])) {
+        tokens.push(...this.segmentSpaceless(match[0], start));
+      } else {
+        tokens.push({ value: match[0].toLowerCase(), start, end: start + match[0].length });
+      }
+    }
+    return tokens;
+  }
+
+  static sentences(text: string): SentenceSpan[] {
+    const spans: SentenceSpan[] = [];
+    for (const match of text.matchAll(SENTENCE_PATTERN)) {
+      const trimmed = match[0].trim();
+      if (!trimmed) continue;
+      const start = match.index! + match[0].indexOf(trimmed);
+      spans.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+    return spans;
+  }
+
+  static isSpaceless(text: string): boolean {
+    return SPACELESS_SCRIPT.test(text);
+  }
+
+  // Splits a run of spaceless script into words; without Intl.Segmenter, each character is a token
+  private static segmentSpaceless(run: string, offset: number): Token[] {
+    if (this.wordSegmenter) {
+      return [...this.wordSegmenter.segment(run)]
+        .filter(segment => segment.isWordLike)
+        .map(segment => ({
+          value: segment.segment.toLowerCase(),
+          start: offset + segment.index,
+          end: offset + segment.index + segment.segment.length
+        }));
+    }
+    const tokens: Token[] = [];
+    let start = offset;
+    for (const char of run) {
+      tokens.push({ value: char, start, end: start + char.length });
+      start += char.length;
+    }
+    return tokens;
+  }
+}
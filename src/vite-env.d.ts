@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_ENDPOINT?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// The CommonJS build of pdf.js, which the Node CLI loads instead of the ES module
+declare module 'pdfjs-dist/build/pdf.js' {
+  const pdfjs: typeof import('pdfjs-dist');
+  export default pdfjs;
+}
@@ -0,0 +1,32 @@
+import type { DetectionResult } from '../util/plagiarismDetector';
+import type { DetectionProfile } from '../util/detectionConfig';
+import type { DetectionProgress, ExtractedDocument, SubmissionDetails } from '../util/detectionPipeline';
+import type { AssignmentTemplate } from '../util/assignmentTemplates';
+import type { SimilarityMatrixResult } from '../util/similarityMatrix';
+
+// Messages sent from the main thread to the detection worker
+export type DetectionWorkerRequest =
+  | { type: 'corpus:load'; documents: DetectionResult[] }
+  | { type: 'corpus:remove'; id: string }
+  // Replaces a document's details; its content is unchanged, so it isn't indexed again
+  | { type: 'corpus:update'; document: DetectionResult }
+  | { type: 'corpus:clear' }
+  | { type: 'templates:load'; templates: AssignmentTemplate[] }
+  // Extracts the text of a template file without checking it
+  | { type: 'template:extract'; requestId: string; file: File }
+  | { type: 'job:start'; jobId: string; file: File; profile: DetectionProfile; submission: SubmissionDetails }
+  // Scores a document already in the corpus again under another profile
+  | { type: 'job:rerun'; jobId: string; documentId: string; profile: DetectionProfile }
+  | { type: 'job:cancel'; jobId: string }
+  | { type: 'matrix:compute'; requestId: string; documentIds: string[] };
+
+// Messages posted back by the detection worker
+export type DetectionWorkerResponse =
+  | { type: 'job:queued'; jobId: string; position: number }
+  | { type: 'job:progress'; jobId: string; progress: DetectionProgress }
+  | { type: 'job:complete'; jobId: string; result: DetectionResult }
+  | { type: 'job:error'; jobId: string; message: string }
+  | { type: 'job:cancelled'; jobId: string }
+  | { type: 'matrix:result'; requestId: string; matrix: SimilarityMatrixResult }
+  | { type: 'template:extracted'; requestId: string; document: ExtractedDocument }
+  | { type: 'template:error'; requestId: string; message: string };
@@ -0,0 +1,149 @@
+/// <reference lib="webworker" />
+import '../util/pdfWorkerSetup';
+import { DetectionPipeline, DetectionProgress, SubmissionDetails } from '../util/detectionPipeline';
+import { FingerprintIndex } from '../util/fingerprintIndex';
+import { SimilarityMatrix } from '../util/similarityMatrix';
+import type { DetectionResult } from '../util/plagiarismDetector';
+import type { DetectionProfile } from '../util/detectionConfig';
+import type { AssignmentTemplate } from '../util/assignmentTemplates';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from './detectionProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Either a new upload or a document already in the corpus to score again
+interface QueuedJob {
+  jobId: string;
+  file?: File;
+  documentId?: string;
+  profile: DetectionProfile;
+  submission?: SubmissionDetails;
+}
+
+// The worker owns the comparison corpus and its index so the main thread never touches them
+let corpus: DetectionResult[] = [];
+let index = new FingerprintIndex();
+let templates: AssignmentTemplate[] = [];
+
+const queue: QueuedJob[] = [];
+let activeJob: { jobId: string; controller: AbortController } | null = null;
+
+const post = (message: DetectionWorkerResponse) => self.postMessage(message);
+
+const processQueue = async () => {
+  if (activeJob) return;
+
+  const job = queue.shift();
+  if (!job) return;
+
+  const controller = new AbortController();
+  activeJob = { jobId: job.jobId, controller };
+
+  try {
+    const options = {
+      signal: controller.signal,
+      profile: job.profile,
+      ...job.submission,
+      templates,
+      onProgress: (progress: DetectionProgress) => post({ type: 'job:progress', jobId: job.jobId, progress })
+    };
+
+    if (job.file) {
+      const result = await DetectionPipeline.run(job.file, corpus, index, options);
+      // Later jobs in the queue are compared against this one too
+      corpus = [result, ...corpus];
+      index.add(result.id, result.content, result.codeLanguage);
+      post({ type: 'job:complete', jobId: job.jobId, result });
+    } else {
+      const document = corpus.find(existing => existing.id === job.documentId);
+      if (!document) {
+        throw new Error('This document is no longer in the corpus.');
+      }
+      // The content is unchanged, so the index entry stays as it is
+      const result = await DetectionPipeline.rerun(document, corpus, index, options);
+      corpus = corpus.map(existing => (existing.id === result.id ? result : existing));
+      post({ type: 'job:complete', jobId: job.jobId, result });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: 'job:cancelled', jobId: job.jobId });
+    } else {
+      post({
+        type: 'job:error',
+        jobId: job.jobId,
+        message: error instanceof Error ? error.message : 'An error occurred while processing the file.'
+      });
+    }
+  } finally {
+    activeJob = null;
+    processQueue();
+  }
+};
+
+self.onmessage = (event: MessageEvent<DetectionWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'corpus:load':
+      corpus = message.documents;
+      index = FingerprintIndex.fromDocuments(corpus);
+      break;
+    case 'corpus:remove':
+      corpus = corpus.filter(document => document.id !== message.id);
+      index.remove(message.id);
+      break;
+    case 'corpus:update':
+      corpus = corpus.map(document => (document.id === message.document.id ? message.document : document));
+      break;
+    case 'corpus:clear':
+      corpus = [];
+      index.clear();
+      break;
+    case 'templates:load':
+      templates = message.templates;
+      break;
+    case 'template:extract':
+      DetectionPipeline.extract(message.file)
+        .then(document => post({ type: 'template:extracted', requestId: message.requestId, document }))
+        .catch(error => post({
+          type: 'template:error',
+          requestId: message.requestId,
+          message: error instanceof Error ? error.message : 'Could not read the template.'
+        }));
+      break;
+    case 'job:start':
+      queue.push({
+        jobId: message.jobId,
+        file: message.file,
+        profile: message.profile,
+        submission: message.submission
+      });
+      post({ type: 'job:queued', jobId: message.jobId, position: queue.length + (activeJob ? 1 : 0) });
+      processQueue();
+      break;
+    case 'job:rerun':
+      queue.push({ jobId: message.jobId, documentId: message.documentId, profile: message.profile });
+      post({ type: 'job:queued', jobId: message.jobId, position: queue.length + (activeJob ? 1 : 0) });
+      processQueue();
+      break;
+    case 'matrix:compute': {
+      const byId = new Map(corpus.map(document => [document.id, document]));
+      const documents = message.documentIds
+        .map(id => byId.get(id))
+        .filter((document): document is DetectionResult => document !== undefined);
+      post({ type: 'matrix:result', requestId: message.requestId, matrix: SimilarityMatrix.compute(index, documents, templates) });
+      break;
+    }
+    case 'job:cancel': {
+      if (activeJob?.jobId === message.jobId) {
+        activeJob.controller.abort();
+        return;
+      }
+      const position = queue.findIndex(job => job.jobId === message.jobId);
+      if (position >= 0) {
+        queue.splice(position, 1);
+        post({ type: 'job:cancelled', jobId: message.jobId });
+      }
+      break;
+    }
+  }
+};
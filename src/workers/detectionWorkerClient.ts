@@ -0,0 +1,166 @@
+import type { DetectionResult } from '../util/plagiarismDetector';
+import type { DetectionProfile } from '../util/detectionConfig';
+import type { DetectionProgress, ExtractedDocument, SubmissionDetails } from '../util/detectionPipeline';
+import type { AssignmentTemplate } from '../util/assignmentTemplates';
+import type { SimilarityMatrixResult } from '../util/similarityMatrix';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from './detectionProtocol';
+
+export interface DetectionJobHandlers {
+  onProgress?: (progress: DetectionProgress) => void;
+  onComplete: (result: DetectionResult) => void;
+  onError: (message: string) => void;
+  onCancelled?: () => void;
+}
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+export class DetectionWorkerClient {
+  private worker: Worker;
+  private readonly handlers = new Map<string, DetectionJobHandlers>();
+  private readonly matrixRequests = new Map<string, PendingRequest<SimilarityMatrixResult>>();
+  private readonly templateRequests = new Map<string, PendingRequest<ExtractedDocument>>();
+  private nextJobId = 1;
+  private nextRequestId = 1;
+
+  // onRestart is called after a crashed worker was replaced, so the corpus and templates can be loaded again
+  constructor(private readonly onRestart?: () => void) {
+    this.worker = this.start();
+  }
+
+  private start(): Worker {
+    const worker = new Worker(new URL('./detectionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.restart(event.message ? `The detection worker crashed: ${event.message}` : 'The detection worker crashed.');
+    };
+    worker.onmessageerror = () => this.restart('The detection worker sent a message that could not be read.');
+    return worker;
+  }
+
+  // Whatever the old worker was doing is lost, so everything waiting on it fails rather than hanging
+  private restart(reason: string): void {
+    this.worker.terminate();
+    const message = `${reason} Please try again.`;
+    const handlers = [...this.handlers.values()];
+    const requests = [...this.matrixRequests.values(), ...this.templateRequests.values()];
+    this.handlers.clear();
+    this.matrixRequests.clear();
+    this.templateRequests.clear();
+    handlers.forEach(handler => handler.onError(message));
+    requests.forEach(request => request.reject(new Error(message)));
+
+    this.worker = this.start();
+    this.onRestart?.();
+  }
+
+  private send(message: DetectionWorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleMessage(message: DetectionWorkerResponse): void {
+    if (message.type === 'matrix:result') {
+      this.matrixRequests.get(message.requestId)?.resolve(message.matrix);
+      this.matrixRequests.delete(message.requestId);
+      return;
+    }
+    if (message.type === 'template:extracted' || message.type === 'template:error') {
+      const request = this.templateRequests.get(message.requestId);
+      this.templateRequests.delete(message.requestId);
+      if (message.type === 'template:extracted') {
+        request?.resolve(message.document);
+      } else {
+        request?.reject(new Error(message.message));
+      }
+      return;
+    }
+
+    const handlers = this.handlers.get(message.jobId);
+    if (!handlers) return;
+
+    switch (message.type) {
+      case 'job:queued':
+        handlers.onProgress?.({ stage: 'queued' });
+        break;
+      case 'job:progress':
+        handlers.onProgress?.(message.progress);
+        break;
+      case 'job:complete':
+        this.handlers.delete(message.jobId);
+        handlers.onComplete(message.result);
+        break;
+      case 'job:error':
+        this.handlers.delete(message.jobId);
+        handlers.onError(message.message);
+        break;
+      case 'job:cancelled':
+        this.handlers.delete(message.jobId);
+        handlers.onCancelled?.();
+        break;
+    }
+  }
+
+  loadCorpus(documents: DetectionResult[]): void {
+    this.send({ type: 'corpus:load', documents });
+  }
+
+  removeDocument(id: string): void {
+    this.send({ type: 'corpus:remove', id });
+  }
+
+  updateDocument(document: DetectionResult): void {
+    this.send({ type: 'corpus:update', document });
+  }
+
+  clearCorpus(): void {
+    this.send({ type: 'corpus:clear' });
+  }
+
+  loadTemplates(templates: AssignmentTemplate[]): void {
+    this.send({ type: 'templates:load', templates });
+  }
+
+  extractTemplate(file: File): Promise<ExtractedDocument> {
+    const requestId = `template-${this.nextRequestId++}`;
+    return new Promise((resolve, reject) => {
+      this.templateRequests.set(requestId, { resolve, reject });
+      this.send({ type: 'template:extract', requestId, file });
+    });
+  }
+
+  enqueue(file: File, profile: DetectionProfile, handlers: DetectionJobHandlers, submission: SubmissionDetails = {}): string {
+    const jobId = `job-${this.nextJobId++}`;
+    this.handlers.set(jobId, handlers);
+    this.send({ type: 'job:start', jobId, file, profile, submission });
+    return jobId;
+  }
+
+  rerun(documentId: string, profile: DetectionProfile, handlers: DetectionJobHandlers): string {
+    const jobId = `job-${this.nextJobId++}`;
+    this.handlers.set(jobId, handlers);
+    this.send({ type: 'job:rerun', jobId, documentId, profile });
+    return jobId;
+  }
+
+  cancel(jobId: string): void {
+    this.send({ type: 'job:cancel', jobId });
+  }
+
+  computeMatrix(documentIds: string[]): Promise<SimilarityMatrixResult> {
+    const requestId = `matrix-${this.nextRequestId++}`;
+    return new Promise((resolve, reject) => {
+      this.matrixRequests.set(requestId, { resolve, reject });
+      this.send({ type: 'matrix:compute', requestId, documentIds });
+    });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.handlers.clear();
+    this.matrixRequests.clear();
+    this.templateRequests.clear();
+  }
+}
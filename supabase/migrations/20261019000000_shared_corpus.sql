@@ -0,0 +1,106 @@
+-- Shared document corpus, scoped per organization and optionally per course
+
+-- Who may read and write which part of the shared corpus. A membership without a course
+-- covers the whole organization.
+create table public.corpus_members (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  organization_id text not null,
+  course_id text,
+  created_at timestamptz not null default now()
+);
+
+create unique index corpus_members_scope_idx
+  on public.corpus_members (user_id, organization_id, coalesce(course_id, ''));
+
+-- Every write takes the next revision, so clients can pull everything after the last one they saw.
+-- Revisions come from a single counter row rather than a sequence: sequence values are taken when
+-- a write starts, so a transaction that commits late could land below a revision clients have
+-- already pulled past, and they would never see it. The counter row is locked by each write until
+-- it commits, so no later revision becomes visible before an earlier one.
+create table public.corpus_revision (
+  id boolean primary key default true check (id),
+  value bigint not null
+);
+
+insert into public.corpus_revision (value) values (0);
+
+-- Only the trigger below touches the counter
+alter table public.corpus_revision enable row level security;
+
+create table public.corpus_documents (
+  id text primary key,
+  organization_id text not null,
+  course_id text,
+  -- The detection result as stored by the app, null for deleted documents
+  document jsonb,
+  -- Distinct winnowing fingerprints of the content (unsigned 32-bit hashes), for finding
+  -- candidate sources in the database without loading whole documents
+  fingerprints bigint[],
+  deleted boolean not null default false,
+  -- When the change was made on the client, which may be long before it was pushed
+  changed_at timestamptz not null,
+  schema_version integer not null,
+  -- Set by the trigger below on every insert and update
+  revision bigint not null,
+  updated_by uuid default auth.uid(),
+  updated_at timestamptz not null default now()
+);
+
+create index corpus_documents_scope_revision_idx
+  on public.corpus_documents (organization_id, course_id, revision);
+create index corpus_documents_fingerprints_idx
+  on public.corpus_documents using gin (fingerprints);
+
+-- Security definer, so it can take the counter without a policy of its own
+create function public.corpus_documents_touch() returns trigger
+  language plpgsql
+  security definer
+  set search_path = public
+as $$
+begin
+  update public.corpus_revision set value = value + 1 returning value into new.revision;
+  new.updated_by := auth.uid();
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger corpus_documents_touch
+  before insert or update on public.corpus_documents
+  for each row execute function public.corpus_documents_touch();
+
+-- Security definer, so the policies below can read memberships without a policy of their own
+create function public.is_corpus_member(organization text, course text) returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = public
+as $$
+  select exists (
+    select 1 from public.corpus_members
+    where user_id = auth.uid()
+      and organization_id = organization
+      and (course_id is null or course_id = course)
+  );
+$$;
+
+alter table public.corpus_members enable row level security;
+alter table public.corpus_documents enable row level security;
+
+create policy "Members see their own memberships"
+  on public.corpus_members for select
+  using (user_id = auth.uid());
+
+-- Documents are never removed, only marked as deleted, so other clients learn about deletions
+create policy "Members read their scope"
+  on public.corpus_documents for select
+  using (public.is_corpus_member(organization_id, course_id));
+
+create policy "Members add to their scope"
+  on public.corpus_documents for insert
+  with check (public.is_corpus_member(organization_id, course_id));
+
+create policy "Members update their scope"
+  on public.corpus_documents for update
+  using (public.is_corpus_member(organization_id, course_id))
+  with check (public.is_corpus_member(organization_id, course_id));
@@ -0,0 +1,24 @@
+-- Two graders for the local stand-in, both with the password "password": one sees the whole
+-- "demo-university" organization, the other only its "cs101" course.
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+values
+  ('00000000-0000-0000-0000-000000000000', '11111111-1111-1111-1111-111111111111', 'authenticated', 'authenticated',
+   'grader1@example.com', crypt('password', gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '22222222-2222-2222-2222-222222222222', 'authenticated', 'authenticated',
+   'grader2@example.com', crypt('password', gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{}', now(), now(), '', '', '', '');
+
+insert into auth.identities (id, user_id, provider_id, provider, identity_data, last_sign_in_at, created_at, updated_at)
+select gen_random_uuid(), id, id::text, 'email', json_build_object('sub', id::text, 'email', email), now(), now(), now()
+from auth.users
+where id in ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222');
+
+insert into public.corpus_members (user_id, organization_id, course_id)
+values
+  ('11111111-1111-1111-1111-111111111111', 'demo-university', null),
+  ('22222222-2222-2222-2222-222222222222', 'demo-university', 'cs101');
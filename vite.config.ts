@@ -7,6 +7,10 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  worker: {
+    // The detection worker is created with { type: 'module' }
+    format: 'es',
+  },
   server: {
     open: true,
   },
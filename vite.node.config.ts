@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+
+// Builds the library entry and the CLI for Node; dependencies stay external and load from node_modules
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^pdfjs-dist$/, replacement: '/src/cli/pdfjs.ts' }],
+  },
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    // public/ holds the browser's OCR assets, which the Node build never loads
+    copyPublicDir: false,
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        index: 'src/index.ts',
+        cli: 'src/cli/main.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+        chunkFileNames: '[name]-[hash].js',
+        banner: chunk => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+});
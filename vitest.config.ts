@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run the detection core under Node, with pdf.js loaded the way the Node build loads it
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^pdfjs-dist$/, replacement: '/src/cli/pdfjs.ts' }],
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+});